@@ -85,3 +85,771 @@ CREATE POLICY "ユーザーは自分のコーヒー記録のみ削除可能"
 -- インデックス作成（検索・ソート高速化）
 CREATE INDEX idx_coffee_entries_user_id ON coffee_entries(user_id);
 CREATE INDEX idx_coffee_entries_created_at ON coffee_entries(created_at);
+
+-- 抽出レシピ（自分で淹れた場合の数値データ）
+ALTER TABLE coffee_entries ADD COLUMN IF NOT EXISTS dose_g NUMERIC(5,1) CHECK (dose_g > 0);
+ALTER TABLE coffee_entries ADD COLUMN IF NOT EXISTS water_g NUMERIC(6,1) CHECK (water_g > 0);
+ALTER TABLE coffee_entries ADD COLUMN IF NOT EXISTS water_temp_c NUMERIC(4,1) CHECK (water_temp_c BETWEEN 0 AND 100);
+ALTER TABLE coffee_entries ADD COLUMN IF NOT EXISTS brew_time_sec INTEGER CHECK (brew_time_sec >= 0);
+ALTER TABLE coffee_entries ADD COLUMN IF NOT EXISTS bloom_time_sec INTEGER CHECK (bloom_time_sec >= 0);
+-- 抽出比率（湯量 ÷ 豆量）は自動計算して検索にも使えるよう保存
+ALTER TABLE coffee_entries ADD COLUMN IF NOT EXISTS brew_ratio NUMERIC(5,2)
+  GENERATED ALWAYS AS (ROUND(water_g / NULLIF(dose_g, 0), 2)) STORED;
+
+-- ブリュータイマーで記録した注湯ステップ（[{ "label": "蒸らし", "at_sec": 0, "water_g": 40 }, ...]）
+ALTER TABLE coffee_entries ADD COLUMN IF NOT EXISTS pour_steps JSONB;
+
+-- beans テーブル（購入した豆・袋の在庫）
+CREATE TABLE IF NOT EXISTS beans (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES users(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL,
+  roaster TEXT,
+  origin TEXT,
+  process TEXT,
+  variety TEXT,
+  altitude TEXT,
+  roast_level TEXT,
+  roast_date DATE,
+  purchase_date DATE,
+  price INTEGER CHECK (price >= 0),
+  bag_weight_g NUMERIC(6,1) CHECK (bag_weight_g > 0),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- beansのRLSポリシー
+ALTER TABLE beans ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "ユーザーは自分の豆のみ閲覧可能"
+  ON beans FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "ユーザーは自分の豆のみ作成可能"
+  ON beans FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "ユーザーは自分の豆のみ更新可能"
+  ON beans FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "ユーザーは自分の豆のみ削除可能"
+  ON beans FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_beans_user_id ON beans(user_id);
+
+-- 記録と豆の紐付け（豆を削除しても記録は残す）
+ALTER TABLE coffee_entries ADD COLUMN IF NOT EXISTS bean_id UUID REFERENCES beans(id) ON DELETE SET NULL;
+CREATE INDEX IF NOT EXISTS idx_coffee_entries_bean_id ON coffee_entries(bean_id);
+
+-- 記録に紐付ける豆は記録した人の豆に限る（他のユーザーの豆の残量や記録一覧に混ざらないように）
+CREATE OR REPLACE FUNCTION check_coffee_entry_bean()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.bean_id IS NOT NULL
+    AND NOT EXISTS (SELECT 1 FROM beans WHERE id = NEW.bean_id AND user_id = NEW.user_id) THEN
+    RAISE EXCEPTION '豆が見つかりません';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE TRIGGER coffee_entries_check_bean
+  BEFORE INSERT OR UPDATE OF bean_id, user_id ON coffee_entries
+  FOR EACH ROW EXECUTE FUNCTION check_coffee_entry_bean();
+
+-- 既に他のユーザーの豆に紐付いている記録は紐付けを外す
+UPDATE coffee_entries e
+SET bean_id = NULL
+WHERE e.bean_id IS NOT NULL
+  AND NOT EXISTS (SELECT 1 FROM beans b WHERE b.id = e.bean_id AND b.user_id = e.user_id);
+
+-- 使い切った豆（残量アラートの対象外にする）
+ALTER TABLE beans ADD COLUMN IF NOT EXISTS finished BOOLEAN DEFAULT FALSE;
+
+-- 豆ごとの使用量と残量（記録の豆の量を合計して内容量から引く）
+-- security_invoker により beans / coffee_entries のRLSがそのまま適用される
+CREATE OR REPLACE VIEW bean_stock WITH (security_invoker = true) AS
+SELECT
+  b.*,
+  COALESCE(SUM(e.dose_g), 0) AS used_g,
+  b.bag_weight_g - COALESCE(SUM(e.dose_g), 0) AS remaining_g,
+  COUNT(e.id) AS cup_count
+FROM beans b
+LEFT JOIN coffee_entries e ON e.bean_id = b.id AND e.user_id = b.user_id
+GROUP BY b.id;
+
+-- 記録一覧の絞り込み・並び替え用インデックス（一覧はユーザー単位で検索する）
+CREATE INDEX IF NOT EXISTS idx_coffee_entries_user_created_at ON coffee_entries(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_coffee_entries_user_rating ON coffee_entries(user_id, rating DESC, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_coffee_entries_user_origin ON coffee_entries(user_id, bean_origin);
+CREATE INDEX IF NOT EXISTS idx_coffee_entries_user_roast_level ON coffee_entries(user_id, roast_level);
+CREATE INDEX IF NOT EXISTS idx_coffee_entries_user_brew_method ON coffee_entries(user_id, brew_method);
+CREATE INDEX IF NOT EXISTS idx_coffee_entries_user_brew_ratio ON coffee_entries(user_id, brew_ratio);
+CREATE INDEX IF NOT EXISTS idx_coffee_entries_user_water_temp ON coffee_entries(user_id, water_temp_c);
+
+-- 絞り込みの選択肢（産地・抽出方法の一覧）を全件取得せずに求めるためのビュー
+CREATE OR REPLACE VIEW entry_filter_options WITH (security_invoker = true) AS
+SELECT user_id, 'origin' AS kind, bean_origin AS value
+FROM coffee_entries
+WHERE bean_origin IS NOT NULL AND btrim(bean_origin) <> ''
+GROUP BY user_id, bean_origin
+UNION ALL
+SELECT user_id, 'brew_method' AS kind, brew_method AS value
+FROM coffee_entries
+WHERE brew_method IS NOT NULL AND btrim(brew_method) <> ''
+GROUP BY user_id, brew_method;
+
+-- 全文検索（日本語は単語の区切りがないため、形態素解析ではなく pg_trgm のトライグラムで部分一致させる）
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- 検索対象の列をひとつの文字列にまとめる（生成列に使うため IMMUTABLE）
+CREATE OR REPLACE FUNCTION coffee_entry_search_text(
+  bean_name TEXT,
+  bean_origin TEXT,
+  shop TEXT,
+  brew_method TEXT,
+  grind_size TEXT,
+  memo TEXT,
+  flavor_notes TEXT[]
+) RETURNS TEXT
+LANGUAGE sql IMMUTABLE AS $$
+  SELECT concat_ws(' ', bean_name, bean_origin, shop, brew_method, grind_size, memo, array_to_string(flavor_notes, ' '))
+$$;
+
+ALTER TABLE coffee_entries ADD COLUMN IF NOT EXISTS search_text TEXT
+  GENERATED ALWAYS AS (
+    coffee_entry_search_text(bean_name, bean_origin, shop, brew_method, grind_size, memo, flavor_notes)
+  ) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_coffee_entries_search_text ON coffee_entries USING GIN (search_text gin_trgm_ops);
+
+-- キーワード検索（記録を関連度順に返す）
+-- 豆名に一致するものを優先し、同点なら類似度、新しい順
+-- SETOF coffee_entries を返すので、クライアントからは通常のテーブルと同じように絞り込み・範囲指定できる
+-- 空白区切りの語はクライアントが語ごとに search_text ILIKE '%語%' の条件として付ける
+-- （関数が呼び出し元に展開されるので、3文字以上の語ならトライグラムの GIN インデックスが使われる。
+--   2文字以下の語はトライグラムを作れないため、user_id のインデックスで絞り込んだ行を順に比較する）
+CREATE OR REPLACE FUNCTION search_coffee_entries(search_query TEXT)
+RETURNS SETOF coffee_entries
+LANGUAGE sql STABLE AS $$
+  SELECT e.*
+  FROM coffee_entries e
+  ORDER BY
+    (CASE WHEN e.bean_name ILIKE '%' || replace(replace(replace(btrim(search_query), '\', '\\'), '%', '\%'), '_', '\_') || '%' THEN 1 ELSE 0 END)
+      + word_similarity(search_query, e.search_text) DESC,
+    e.created_at DESC
+$$;
+
+-- 保存した検索（記録一覧の絞り込み条件をクエリ文字列で保存し、ヘッダーにピン留めできる）
+CREATE TABLE IF NOT EXISTS saved_searches (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES users(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL,
+  query TEXT NOT NULL DEFAULT '',
+  pinned BOOLEAN DEFAULT FALSE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- saved_searchesのRLSポリシー
+ALTER TABLE saved_searches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "ユーザーは自分の保存した検索のみ閲覧可能"
+  ON saved_searches FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "ユーザーは自分の保存した検索のみ作成可能"
+  ON saved_searches FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "ユーザーは自分の保存した検索のみ更新可能"
+  ON saved_searches FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "ユーザーは自分の保存した検索のみ削除可能"
+  ON saved_searches FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_saved_searches_user_id ON saved_searches(user_id);
+
+-- 詳細な絞り込み（期間・味の評価・フレーバー・店・淹れ方）用のインデックス
+CREATE INDEX IF NOT EXISTS idx_coffee_entries_flavor_notes ON coffee_entries USING GIN (flavor_notes);
+CREATE INDEX IF NOT EXISTS idx_coffee_entries_user_shop ON coffee_entries(user_id, shop);
+CREATE INDEX IF NOT EXISTS idx_coffee_entries_user_made_by_user ON coffee_entries(user_id, made_by_user, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_coffee_entries_user_sourness ON coffee_entries(user_id, sourness);
+CREATE INDEX IF NOT EXISTS idx_coffee_entries_user_sweetness ON coffee_entries(user_id, sweetness);
+CREATE INDEX IF NOT EXISTS idx_coffee_entries_user_bitterness ON coffee_entries(user_id, bitterness);
+CREATE INDEX IF NOT EXISTS idx_coffee_entries_user_richness ON coffee_entries(user_id, richness);
+
+-- 絞り込みの選択肢に店とフレーバーを追加
+CREATE OR REPLACE VIEW entry_filter_options WITH (security_invoker = true) AS
+SELECT user_id, 'origin' AS kind, bean_origin AS value
+FROM coffee_entries
+WHERE bean_origin IS NOT NULL AND btrim(bean_origin) <> ''
+GROUP BY user_id, bean_origin
+UNION ALL
+SELECT user_id, 'brew_method' AS kind, brew_method AS value
+FROM coffee_entries
+WHERE brew_method IS NOT NULL AND btrim(brew_method) <> ''
+GROUP BY user_id, brew_method
+UNION ALL
+SELECT user_id, 'shop' AS kind, shop AS value
+FROM coffee_entries
+WHERE shop IS NOT NULL AND btrim(shop) <> ''
+GROUP BY user_id, shop
+UNION ALL
+SELECT e.user_id, 'flavor' AS kind, f.note AS value
+FROM coffee_entries e, unnest(e.flavor_notes) AS f(note)
+WHERE btrim(f.note) <> ''
+GROUP BY e.user_id, f.note;
+
+-- カッピングセッション（複数のサンプルを SCA 方式で同じ場で採点する）
+CREATE TABLE IF NOT EXISTS cupping_sessions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES users(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL,
+  held_on DATE NOT NULL DEFAULT CURRENT_DATE,
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- cupping_sessionsのRLSポリシー
+ALTER TABLE cupping_sessions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "ユーザーは自分のカッピングセッションのみ閲覧可能"
+  ON cupping_sessions FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "ユーザーは自分のカッピングセッションのみ作成可能"
+  ON cupping_sessions FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "ユーザーは自分のカッピングセッションのみ更新可能"
+  ON cupping_sessions FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "ユーザーは自分のカッピングセッションのみ削除可能"
+  ON cupping_sessions FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_cupping_sessions_user_id ON cupping_sessions(user_id, held_on DESC);
+
+-- サンプルごとの採点は coffee_entries に保存する（セッションを削除しても記録は残す）
+-- cupping_scores: { "fragrance_aroma": 8.25, ..., "overall": 8, "taint_cups": 0, "fault_cups": 0 }
+ALTER TABLE coffee_entries ADD COLUMN IF NOT EXISTS cupping_session_id UUID REFERENCES cupping_sessions(id) ON DELETE SET NULL;
+ALTER TABLE coffee_entries ADD COLUMN IF NOT EXISTS cupping_scores JSONB;
+-- 10項目の合計から欠点（テイント 2点・フォルト 4点 × カップ数）を引いた点数
+ALTER TABLE coffee_entries ADD COLUMN IF NOT EXISTS cupping_total NUMERIC(5,2)
+  GENERATED ALWAYS AS (
+    (cupping_scores->>'fragrance_aroma')::NUMERIC
+    + (cupping_scores->>'flavor')::NUMERIC
+    + (cupping_scores->>'aftertaste')::NUMERIC
+    + (cupping_scores->>'acidity')::NUMERIC
+    + (cupping_scores->>'body')::NUMERIC
+    + (cupping_scores->>'balance')::NUMERIC
+    + (cupping_scores->>'uniformity')::NUMERIC
+    + (cupping_scores->>'clean_cup')::NUMERIC
+    + (cupping_scores->>'sweetness')::NUMERIC
+    + (cupping_scores->>'overall')::NUMERIC
+    - 2 * COALESCE((cupping_scores->>'taint_cups')::NUMERIC, 0)
+    - 4 * COALESCE((cupping_scores->>'fault_cups')::NUMERIC, 0)
+  ) STORED;
+CREATE INDEX IF NOT EXISTS idx_coffee_entries_cupping_session_id ON coffee_entries(cupping_session_id);
+
+-- サンプルを入れられるのは記録した人のセッションに限る
+CREATE OR REPLACE FUNCTION check_coffee_entry_cupping_session()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.cupping_session_id IS NOT NULL
+    AND NOT EXISTS (
+      SELECT 1 FROM cupping_sessions WHERE id = NEW.cupping_session_id AND user_id = NEW.user_id
+    ) THEN
+    RAISE EXCEPTION 'カッピングのセッションが見つかりません';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE TRIGGER coffee_entries_check_cupping_session
+  BEFORE INSERT OR UPDATE OF cupping_session_id, user_id ON coffee_entries
+  FOR EACH ROW EXECUTE FUNCTION check_coffee_entry_cupping_session();
+
+-- 既に他のユーザーのセッションに入っている記録はセッションから外す
+UPDATE coffee_entries e
+SET cupping_session_id = NULL
+WHERE e.cupping_session_id IS NOT NULL
+  AND NOT EXISTS (
+    SELECT 1 FROM cupping_sessions s WHERE s.id = e.cupping_session_id AND s.user_id = e.user_id
+  );
+
+-- フレーバーノートをフレーバーホイール（src/lib/flavorWheel.ts）の表記にそろえる
+-- 以前の選択肢の名前を置き換え、前後の空白と重複を除く（最初に出てきた順を保つ）
+UPDATE coffee_entries e
+SET flavor_notes = (
+  SELECT array_agg(n.note ORDER BY n.first_pos)
+  FROM (
+    SELECT COALESCE(m.canonical, btrim(f.note)) AS note, MIN(f.pos) AS first_pos
+    FROM unnest(e.flavor_notes) WITH ORDINALITY AS f(note, pos)
+    LEFT JOIN (VALUES
+      ('ナッティ', 'ナッツ'),
+      ('ベリー系', 'ベリー'),
+      ('柑橘系', 'シトラス'),
+      ('スパイシー', 'スパイス'),
+      ('スイート', '甘い')
+    ) AS m(legacy, canonical) ON m.legacy = btrim(f.note)
+    WHERE btrim(f.note) <> ''
+    GROUP BY 1
+  ) n
+)
+WHERE e.flavor_notes && ARRAY['ナッティ', 'ベリー系', '柑橘系', 'スパイシー', 'スイート'];
+
+-- 欲しい豆（まだ購入していない豆。おすすめの対象にし、在庫や残量アラートには含めない）
+ALTER TABLE beans ADD COLUMN IF NOT EXISTS wishlist BOOLEAN NOT NULL DEFAULT FALSE;
+-- ロースターの説明などにあるフレーバー（フレーバーホイールの表記）
+ALTER TABLE beans ADD COLUMN IF NOT EXISTS flavor_notes TEXT[];
+
+-- beans に列を追加したので bean_stock を作り直す（b.* の列が増えると CREATE OR REPLACE では置き換えられない）
+DROP VIEW IF EXISTS bean_stock;
+CREATE VIEW bean_stock WITH (security_invoker = true) AS
+SELECT
+  b.*,
+  COALESCE(SUM(e.dose_g), 0) AS used_g,
+  b.bag_weight_g - COALESCE(SUM(e.dose_g), 0) AS remaining_g,
+  COUNT(e.id) AS cup_count
+FROM beans b
+LEFT JOIN coffee_entries e ON e.bean_id = b.id AND e.user_id = b.user_id
+GROUP BY b.id;
+
+-- shops テーブル（カフェ・コーヒーショップ）
+CREATE TABLE IF NOT EXISTS shops (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES users(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL,
+  address TEXT,
+  latitude NUMERIC(9,6) CHECK (latitude BETWEEN -90 AND 90),
+  longitude NUMERIC(9,6) CHECK (longitude BETWEEN -180 AND 180),
+  -- 営業時間・定休日などのメモ
+  opening_notes TEXT,
+  -- お店自体の評価（1〜5。記録の評価とは別）
+  rating SMALLINT CHECK (rating BETWEEN 1 AND 5),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (user_id, name)
+);
+
+-- shopsのRLSポリシー
+ALTER TABLE shops ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "ユーザーは自分のお店のみ閲覧可能"
+  ON shops FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "ユーザーは自分のお店のみ作成可能"
+  ON shops FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "ユーザーは自分のお店のみ更新可能"
+  ON shops FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "ユーザーは自分のお店のみ削除可能"
+  ON shops FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- お店で飲んだ記録とお店の紐付け（お店を削除しても記録は残す。店名は shop 列にも複製して保存する）
+ALTER TABLE coffee_entries ADD COLUMN IF NOT EXISTS shop_id UUID REFERENCES shops(id) ON DELETE SET NULL;
+CREATE INDEX IF NOT EXISTS idx_coffee_entries_shop_id ON coffee_entries(shop_id);
+
+-- お店で飲んだ記録（made_by_user = false）をお店に紐付ける
+-- - shop_id があれば shop 列をそのお店の名前にそろえる（記録した人のお店でなければエラー）
+-- - shop_id がなければ同じ名前のお店を探し、なければ作る（インポートした記録もこれで紐付く）
+-- - 自分で淹れた記録の shop は購入店なので紐付けない
+CREATE OR REPLACE FUNCTION link_coffee_entry_shop()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.made_by_user OR (NEW.shop_id IS NULL AND btrim(COALESCE(NEW.shop, '')) = '') THEN
+    NEW.shop_id := NULL;
+  ELSIF NEW.shop_id IS NOT NULL THEN
+    SELECT name INTO NEW.shop FROM shops WHERE id = NEW.shop_id AND user_id = NEW.user_id;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'お店が見つかりません';
+    END IF;
+  ELSE
+    NEW.shop := btrim(NEW.shop);
+    INSERT INTO shops (user_id, name)
+    VALUES (NEW.user_id, NEW.shop)
+    ON CONFLICT (user_id, name) DO NOTHING;
+    SELECT id INTO NEW.shop_id FROM shops WHERE user_id = NEW.user_id AND name = NEW.shop;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE TRIGGER coffee_entries_link_shop
+  BEFORE INSERT OR UPDATE OF shop, shop_id, made_by_user ON coffee_entries
+  FOR EACH ROW EXECUTE FUNCTION link_coffee_entry_shop();
+
+-- お店の名前を変えたら、紐付いた記録の店名も変える
+CREATE OR REPLACE FUNCTION sync_shop_name_to_entries()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE coffee_entries SET shop = NEW.name WHERE shop_id = NEW.id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE TRIGGER shops_sync_name
+  AFTER UPDATE OF name ON shops
+  FOR EACH ROW WHEN (OLD.name IS DISTINCT FROM NEW.name)
+  EXECUTE FUNCTION sync_shop_name_to_entries();
+
+-- 既存のお店で飲んだ記録を紐付ける（上のトリガーでお店が作られる）
+UPDATE coffee_entries
+SET shop_id = NULL
+WHERE made_by_user = false AND shop_id IS NULL AND btrim(COALESCE(shop, '')) <> '';
+
+-- 表記の違う同じお店（「Blue Bottle 清澄」と「ブルーボトル清澄白河」など）を1つにまとめる
+-- 記録を残す側のお店に付け替えてから、まとめた側のお店を削除する
+-- どちらも呼び出したユーザーのお店でなければエラー
+CREATE OR REPLACE FUNCTION merge_shops(source_id UUID, target_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM shops WHERE id = source_id AND user_id = auth.uid())
+    OR NOT EXISTS (SELECT 1 FROM shops WHERE id = target_id AND user_id = auth.uid()) THEN
+    RAISE EXCEPTION 'お店が見つかりません';
+  END IF;
+  IF source_id = target_id THEN
+    RETURN;
+  END IF;
+
+  UPDATE coffee_entries SET shop_id = target_id WHERE shop_id = source_id;
+  DELETE FROM shops WHERE id = source_id;
+END;
+$$;
+
+-- お店ごとの訪問回数と平均評価（お店で飲んだ記録から集計）
+CREATE OR REPLACE VIEW shop_stats WITH (security_invoker = true) AS
+SELECT
+  s.*,
+  COUNT(e.id) AS visit_count,
+  ROUND(AVG(e.rating), 2) AS avg_rating,
+  MAX(e.created_at) AS last_visited_at
+FROM shops s
+LEFT JOIN coffee_entries e ON e.shop_id = s.id
+GROUP BY s.id;
+
+-- 公開プロフィール（/u/<username>）
+-- username は URL に使うため半角英小文字・数字・アンダースコアの 3〜20 文字に限る
+-- 公開するには username が必要
+ALTER TABLE users ADD COLUMN IF NOT EXISTS is_public BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE users DROP CONSTRAINT IF EXISTS users_username_format;
+ALTER TABLE users ADD CONSTRAINT users_username_format
+  CHECK (username ~ '^[a-z0-9_]{3,20}$');
+ALTER TABLE users DROP CONSTRAINT IF EXISTS users_public_requires_username;
+ALTER TABLE users ADD CONSTRAINT users_public_requires_username
+  CHECK (NOT is_public OR username IS NOT NULL);
+
+CREATE POLICY "公開プロフィールは誰でも閲覧可能"
+  ON users FOR SELECT
+  USING (is_public);
+
+-- 記録ごとの公開範囲（private: 自分のみ / followers: フォロワー / public: 誰でも）
+-- 公開の記録はプロフィールを公開している場合のみ他のユーザーに見える
+-- followers の閲覧範囲はフォロー機能（follows テーブル）とあわせて下で設定する
+ALTER TABLE coffee_entries ADD COLUMN IF NOT EXISTS visibility TEXT NOT NULL DEFAULT 'private'
+  CHECK (visibility IN ('private', 'followers', 'public'));
+CREATE INDEX IF NOT EXISTS idx_coffee_entries_user_visibility ON coffee_entries(user_id, visibility, created_at DESC);
+
+CREATE POLICY "公開プロフィールの公開記録は誰でも閲覧可能"
+  ON coffee_entries FOR SELECT
+  USING (
+    visibility = 'public'
+    AND EXISTS (SELECT 1 FROM users u WHERE u.id = coffee_entries.user_id AND u.is_public)
+  );
+
+-- 公開プロフィールに表示する集計（公開の記録のみ。よく飲む産地・抽出方法は最頻値）
+CREATE OR REPLACE VIEW public_entry_stats WITH (security_invoker = true) AS
+SELECT
+  user_id,
+  COUNT(*) AS entry_count,
+  ROUND(AVG(rating), 2) AS avg_rating,
+  mode() WITHIN GROUP (ORDER BY bean_origin) FILTER (WHERE btrim(COALESCE(bean_origin, '')) <> '') AS top_origin,
+  mode() WITHIN GROUP (ORDER BY brew_method) FILTER (WHERE btrim(COALESCE(brew_method, '')) <> '') AS top_brew_method,
+  MAX(created_at) AS last_entry_at
+FROM coffee_entries
+WHERE visibility = 'public'
+GROUP BY user_id;
+
+-- フォロー（公開プロフィールのユーザーをフォローし、タイムラインにその記録を表示する）
+CREATE TABLE IF NOT EXISTS follows (
+  follower_id UUID REFERENCES users(id) ON DELETE CASCADE NOT NULL,
+  followee_id UUID REFERENCES users(id) ON DELETE CASCADE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (follower_id, followee_id),
+  CHECK (follower_id <> followee_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_follows_followee_id ON follows(followee_id);
+
+-- ブロック（ブロックした相手からはプロフィールと記録が見えず、フォローもできない）
+CREATE TABLE IF NOT EXISTS blocks (
+  blocker_id UUID REFERENCES users(id) ON DELETE CASCADE NOT NULL,
+  blocked_id UUID REFERENCES users(id) ON DELETE CASCADE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (blocker_id, blocked_id),
+  CHECK (blocker_id <> blocked_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_blocks_blocked_id ON blocks(blocked_id);
+
+-- RLSポリシーから使う判定（ポリシー同士が参照し合わないよう SECURITY DEFINER でRLSを通さずに調べる）
+-- RPC で他人同士の関係を調べられないよう、どちらかが呼び出したユーザーのときだけ答える（それ以外は false）
+CREATE OR REPLACE FUNCTION is_following(follower UUID, followee UUID)
+RETURNS BOOLEAN
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public AS $$
+  SELECT COALESCE(auth.uid() IN (follower, followee), FALSE)
+    AND EXISTS (SELECT 1 FROM follows WHERE follower_id = follower AND followee_id = followee)
+$$;
+
+-- どちらか一方がもう一方をブロックしている
+CREATE OR REPLACE FUNCTION is_blocked_between(a UUID, b UUID)
+RETURNS BOOLEAN
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public AS $$
+  SELECT COALESCE(auth.uid() IN (a, b), FALSE)
+    AND EXISTS (
+      SELECT 1 FROM blocks
+      WHERE (blocker_id = a AND blocked_id = b) OR (blocker_id = b AND blocked_id = a)
+    )
+$$;
+
+-- blocker が blocked をブロックしている
+CREATE OR REPLACE FUNCTION is_blocking(blocker UUID, blocked UUID)
+RETURNS BOOLEAN
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public AS $$
+  SELECT COALESCE(auth.uid() IN (blocker, blocked), FALSE)
+    AND EXISTS (SELECT 1 FROM blocks WHERE blocker_id = blocker AND blocked_id = blocked)
+$$;
+
+ALTER TABLE follows ENABLE ROW LEVEL SECURITY;
+
+-- フォロー数を表示するため、公開プロフィールのユーザーに関するフォローは誰でも閲覧できる
+CREATE POLICY "自分と公開プロフィールのユーザーのフォローのみ閲覧可能"
+  ON follows FOR SELECT
+  USING (
+    auth.uid() IN (follower_id, followee_id)
+    OR EXISTS (SELECT 1 FROM users u WHERE u.id = followee_id AND u.is_public)
+  );
+
+CREATE POLICY "公開プロフィールのユーザーのみフォロー可能"
+  ON follows FOR INSERT
+  WITH CHECK (
+    auth.uid() = follower_id
+    AND NOT is_blocked_between(follower_id, followee_id)
+    AND EXISTS (SELECT 1 FROM users u WHERE u.id = followee_id AND u.is_public)
+  );
+
+-- フォローの解除は、フォローした側とされた側のどちらからもできる
+CREATE POLICY "自分に関するフォローのみ削除可能"
+  ON follows FOR DELETE
+  USING (auth.uid() IN (follower_id, followee_id));
+
+ALTER TABLE blocks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "ユーザーは自分のブロックのみ閲覧可能"
+  ON blocks FOR SELECT
+  USING (auth.uid() = blocker_id);
+
+CREATE POLICY "ユーザーは自分のブロックのみ作成可能"
+  ON blocks FOR INSERT
+  WITH CHECK (auth.uid() = blocker_id);
+
+CREATE POLICY "ユーザーは自分のブロックのみ削除可能"
+  ON blocks FOR DELETE
+  USING (auth.uid() = blocker_id);
+
+-- ブロックしたら、お互いのフォローを解除する
+CREATE OR REPLACE FUNCTION remove_follows_on_block()
+RETURNS TRIGGER AS $$
+BEGIN
+  DELETE FROM follows
+  WHERE (follower_id = NEW.blocker_id AND followee_id = NEW.blocked_id)
+     OR (follower_id = NEW.blocked_id AND followee_id = NEW.blocker_id);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE TRIGGER blocks_remove_follows
+  AFTER INSERT ON blocks
+  FOR EACH ROW EXECUTE FUNCTION remove_follows_on_block();
+
+-- プロフィールは公開しているか、フォローしている場合に閲覧できる（相手にブロックされていれば見えない）
+-- ブロックした側からは相手のプロフィールが見える（ブロックを解除できるように）
+DROP POLICY IF EXISTS "公開プロフィールは誰でも閲覧可能" ON users;
+CREATE POLICY "公開プロフィールとフォロー中のユーザーのプロフィールは閲覧可能"
+  ON users FOR SELECT
+  USING (
+    (is_public OR is_following(auth.uid(), id))
+    AND NOT is_blocking(id, auth.uid())
+  );
+
+-- 他のユーザーの記録は公開範囲に応じて閲覧できる（どちらかがブロックしていれば見えない）
+-- - public: プロフィールを公開している場合は誰でも
+-- - followers: フォローしているユーザーのみ
+DROP POLICY IF EXISTS "公開プロフィールの公開記録は誰でも閲覧可能" ON coffee_entries;
+CREATE POLICY "公開範囲に応じて他のユーザーの記録を閲覧可能"
+  ON coffee_entries FOR SELECT
+  USING (
+    NOT is_blocked_between(auth.uid(), user_id)
+    AND (
+      (visibility = 'public' AND EXISTS (SELECT 1 FROM users u WHERE u.id = coffee_entries.user_id AND u.is_public))
+      OR (visibility IN ('public', 'followers') AND is_following(auth.uid(), user_id))
+    )
+  );
+
+-- タイムライン（フォローしているユーザーの記録と投稿者の情報）
+-- security_invoker により上の公開範囲・ブロックのRLSがそのまま適用され、見られない記録は含まれない
+CREATE OR REPLACE VIEW timeline_entries WITH (security_invoker = true) AS
+SELECT
+  e.*,
+  f.follower_id,
+  u.nickname AS author_nickname,
+  u.username AS author_username,
+  u.avatar_url AS author_avatar_url
+FROM follows f
+JOIN coffee_entries e ON e.user_id = f.followee_id
+JOIN users u ON u.id = e.user_id;
+
+-- いいね・コメント（見られる記録にだけ付けられる。記録の閲覧範囲は coffee_entries のRLSで決まる）
+-- コメントを受け付けるかは記録ごとに持ち主が切り替える
+ALTER TABLE coffee_entries ADD COLUMN IF NOT EXISTS comments_enabled BOOLEAN NOT NULL DEFAULT TRUE;
+
+-- e.* は作成時の列で固定されるので、列を追加したタイムラインのビューを作り直す
+DROP VIEW IF EXISTS timeline_entries;
+CREATE VIEW timeline_entries WITH (security_invoker = true) AS
+SELECT
+  e.*,
+  f.follower_id,
+  u.nickname AS author_nickname,
+  u.username AS author_username,
+  u.avatar_url AS author_avatar_url
+FROM follows f
+JOIN coffee_entries e ON e.user_id = f.followee_id
+JOIN users u ON u.id = e.user_id;
+
+CREATE TABLE IF NOT EXISTS entry_likes (
+  entry_id UUID REFERENCES coffee_entries(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES users(id) ON DELETE CASCADE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (entry_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_entry_likes_user_id ON entry_likes(user_id);
+
+ALTER TABLE entry_likes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "見られる記録のいいねのみ閲覧可能"
+  ON entry_likes FOR SELECT
+  USING (EXISTS (SELECT 1 FROM coffee_entries e WHERE e.id = entry_id));
+
+CREATE POLICY "見られる記録にのみいいね可能"
+  ON entry_likes FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (SELECT 1 FROM coffee_entries e WHERE e.id = entry_id)
+  );
+
+CREATE POLICY "ユーザーは自分のいいねのみ削除可能"
+  ON entry_likes FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- コメント（parent_id で返信をつなげてスレッドにする。返信元を削除すると返信も消える）
+CREATE TABLE IF NOT EXISTS entry_comments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  entry_id UUID REFERENCES coffee_entries(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES users(id) ON DELETE CASCADE NOT NULL,
+  parent_id UUID REFERENCES entry_comments(id) ON DELETE CASCADE,
+  body TEXT NOT NULL CHECK (char_length(btrim(body)) BETWEEN 1 AND 1000),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_entry_comments_entry_id ON entry_comments(entry_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_entry_comments_parent_id ON entry_comments(parent_id);
+
+-- 返信は同じ記録のコメントにだけ付けられる
+CREATE OR REPLACE FUNCTION check_entry_comment_parent()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.parent_id IS NOT NULL
+    AND (SELECT entry_id FROM entry_comments WHERE id = NEW.parent_id) IS DISTINCT FROM NEW.entry_id THEN
+    RAISE EXCEPTION '返信先のコメントが見つかりません';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE TRIGGER entry_comments_check_parent
+  BEFORE INSERT ON entry_comments
+  FOR EACH ROW EXECUTE FUNCTION check_entry_comment_parent();
+
+ALTER TABLE entry_comments ENABLE ROW LEVEL SECURITY;
+
+-- ブロックしている・されている相手のコメントは見えない
+CREATE POLICY "見られる記録のコメントのみ閲覧可能"
+  ON entry_comments FOR SELECT
+  USING (
+    EXISTS (SELECT 1 FROM coffee_entries e WHERE e.id = entry_id)
+    AND NOT is_blocked_between(auth.uid(), user_id)
+  );
+
+CREATE POLICY "コメントを受け付けている見られる記録にのみコメント可能"
+  ON entry_comments FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (SELECT 1 FROM coffee_entries e WHERE e.id = entry_id AND e.comments_enabled)
+  );
+
+CREATE POLICY "コメントを書いた人と記録の持ち主のみコメントを削除可能"
+  ON entry_comments FOR DELETE
+  USING (
+    auth.uid() = user_id
+    OR EXISTS (SELECT 1 FROM coffee_entries e WHERE e.id = entry_id AND e.user_id = auth.uid())
+  );
+
+-- API（PostgREST）に公開しないスキーマ。ビューからだけ使う関数を置き、RPC で直接呼べないようにする
+CREATE SCHEMA IF NOT EXISTS private;
+GRANT USAGE ON SCHEMA private TO anon, authenticated;
+
+-- コメントした人の表示名（プロフィールを公開していない人のコメントにも名前を出すため SECURITY DEFINER で引く）
+-- 任意のユーザーの名前を引けてしまうので private に置き、見られるコメントだけを渡す下のビューから使う
+-- ユーザー名は公開プロフィールへのリンクにだけ使うので、公開している場合のみ返す
+CREATE OR REPLACE FUNCTION private.comment_author(author_id UUID)
+RETURNS TABLE (nickname TEXT, username TEXT, avatar_url TEXT)
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public AS $$
+  SELECT u.nickname, CASE WHEN u.is_public THEN u.username END, u.avatar_url
+  FROM users u
+  WHERE u.id = author_id
+$$;
+
+-- コメントと書いた人（security_invoker によりコメントのRLSがそのまま適用される）
+CREATE OR REPLACE VIEW entry_comment_details WITH (security_invoker = true) AS
+SELECT
+  c.*,
+  a.nickname AS author_nickname,
+  a.username AS author_username,
+  a.avatar_url AS author_avatar_url
+FROM entry_comments c
+LEFT JOIN LATERAL private.comment_author(c.user_id) a ON TRUE;
+
+-- 以前 public に作っていた関数は RPC で呼べてしまうので削除する
+DROP FUNCTION IF EXISTS public.comment_author(UUID);
+
+-- 記録ごとのいいね数・コメント数（一覧・タイムラインのカード用）
+CREATE OR REPLACE VIEW entry_reaction_counts WITH (security_invoker = true) AS
+SELECT
+  e.id AS entry_id,
+  (SELECT COUNT(*) FROM entry_likes l WHERE l.entry_id = e.id) AS like_count,
+  (SELECT COUNT(*) FROM entry_comments c WHERE c.entry_id = e.id) AS comment_count
+FROM coffee_entries e;
@@ -2,6 +2,7 @@
 import { useState, useEffect } from "react";
 import { useRouter } from "next/navigation";
 import { supabase } from "@/lib/supabaseClient";
+import { repository } from "@/lib/repository";
 
 type ErrorWithMessage = { message: string };
 
@@ -73,11 +74,7 @@ export default function AuthPage() {
         setMessage("ログインしました。ホームページへ移動します...");
 
         // 特にプロフィール情報を設定していないユーザーはプロフィールページへ誘導
-        const { data: profile } = await supabase
-          .from('users')
-          .select('nickname, bio, favorite_types')
-          .eq('id', data.user.id)
-          .single();
+        const profile = await repository.getProfile(data.user.id).catch(() => null);
 
         setTimeout(() => {
           // プロフィールが不完全な場合はプロフィール設定画面へ
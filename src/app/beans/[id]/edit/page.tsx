@@ -0,0 +1,12 @@
+"use client";
+import { useParams } from "next/navigation";
+import BeanForm from "@/components/beans/BeanForm";
+
+export default function EditBeanPage() {
+  const params = useParams();
+  const beanId = Array.isArray(params.id) ? params.id[0] : params.id;
+
+  if (!beanId) return null;
+
+  return <BeanForm beanId={beanId} />;
+}
@@ -0,0 +1,273 @@
+"use client";
+import { useState, useEffect } from "react";
+import { supabase } from "@/lib/supabaseClient";
+import { repository } from "@/lib/repository";
+import type { BeanStock, CoffeeEntry } from "@/lib/types";
+import { daysSinceRoast, formatRemaining, isLowStock } from "@/lib/beanStock";
+import { useParams, useRouter } from "next/navigation";
+import Link from "next/link";
+
+interface ErrorWithMessage {
+  message: string;
+}
+
+function isErrorWithMessage(error: unknown): error is ErrorWithMessage {
+  return (
+    typeof error === "object" &&
+    error !== null &&
+    "message" in error &&
+    typeof (error as Record<string, unknown>).message === "string"
+  );
+}
+
+export default function BeanDetailPage() {
+  const params = useParams();
+  const router = useRouter();
+  const [bean, setBean] = useState<BeanStock | null>(null);
+  const [entries, setEntries] = useState<CoffeeEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [deleting, setDeleting] = useState(false);
+
+  useEffect(() => {
+    const fetchBean = async () => {
+      try {
+        // ユーザー確認
+        const { data: { user } } = await supabase.auth.getUser();
+        if (!user) {
+          router.push("/auth");
+          return;
+        }
+
+        const beanId = params.id as string;
+        const [beanData, entryData] = await Promise.all([
+          repository.getBeanStock(beanId),
+          repository.listEntriesByBean(user.id, beanId),
+        ]);
+        setBean(beanData);
+        setEntries(entryData);
+      } catch (err: unknown) {
+        if (isErrorWithMessage(err)) {
+          setError(err.message);
+        } else {
+          setError("未知のエラーが発生しました");
+        }
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    if (params.id) {
+      fetchBean();
+    }
+  }, [params.id, router]);
+
+  const handleDelete = async () => {
+    if (!bean) return;
+    if (!window.confirm(`「${bean.name}」を削除しますか？この豆の記録は残ります。`)) return;
+
+    setDeleting(true);
+    try {
+      await repository.deleteBean(bean.id);
+      router.push("/beans");
+    } catch (err: unknown) {
+      if (isErrorWithMessage(err)) {
+        setError(err.message);
+      } else {
+        setError("未知のエラーが発生しました");
+      }
+      setDeleting(false);
+    }
+  };
+
+  // 使い切った／まだ残っているの切り替え
+  const toggleFinished = async () => {
+    if (!bean) return;
+    try {
+      const updated = await repository.updateBean(bean.id, { finished: !bean.finished });
+      setBean({ ...bean, finished: updated.finished });
+    } catch (err: unknown) {
+      if (isErrorWithMessage(err)) {
+        setError(err.message);
+      } else {
+        setError("未知のエラーが発生しました");
+      }
+    }
+  };
+
+  // 欲しい豆を購入済みにして在庫に移す（購入日が未入力なら今日にする）
+  const markPurchased = async () => {
+    if (!bean) return;
+    try {
+      const updated = await repository.updateBean(bean.id, {
+        wishlist: false,
+        purchase_date: bean.purchase_date ?? new Date().toISOString().slice(0, 10),
+      });
+      setBean({ ...bean, wishlist: updated.wishlist, purchase_date: updated.purchase_date });
+    } catch (err: unknown) {
+      if (isErrorWithMessage(err)) {
+        setError(err.message);
+      } else {
+        setError("未知のエラーが発生しました");
+      }
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="max-w-lg mx-auto py-12 px-4 text-center">読み込み中...</div>
+    );
+  }
+
+  if (error || !bean) {
+    return (
+      <div className="max-w-lg mx-auto py-12 px-4">
+        <div className="text-red-600 mb-4">{error || "豆が見つかりません"}</div>
+        <Link href="/beans" className="text-blue-600 hover:underline">
+          ← 豆の一覧に戻る
+        </Link>
+      </div>
+    );
+  }
+
+  const avgRating = entries.length > 0
+    ? (entries.reduce((sum, entry) => sum + entry.rating, 0) / entries.length).toFixed(1)
+    : null;
+
+  const details: [string, string | null][] = [
+    ["ロースター", bean.roaster],
+    ["産地", bean.origin],
+    ["精製方法", bean.process],
+    ["品種", bean.variety],
+    ["標高", bean.altitude],
+    ["焙煎度", bean.roast_level],
+    ["焙煎日", bean.roast_date && new Date(bean.roast_date).toLocaleDateString("ja-JP")],
+    ["購入日", bean.purchase_date && new Date(bean.purchase_date).toLocaleDateString("ja-JP")],
+    ["価格", bean.price !== null ? `${bean.price.toLocaleString("ja-JP")}円` : null],
+    ["内容量", bean.bag_weight_g !== null ? `${bean.bag_weight_g}g` : null],
+    ["フレーバー", bean.flavor_notes && bean.flavor_notes.length > 0 ? bean.flavor_notes.join("・") : null],
+  ];
+
+  return (
+    <div className="max-w-lg mx-auto py-8 px-4">
+      <div className="flex items-center mb-6">
+        <Link href="/beans" className="text-zinc-600 mr-4 hover:text-zinc-900">
+          ← 戻る
+        </Link>
+        <h1 className="text-xl font-bold flex-1">{bean.name}</h1>
+        <Link
+          href={`/beans/${bean.id}/edit`}
+          className="ml-2 px-3 py-1 border rounded text-sm hover:bg-zinc-100 transition"
+        >
+          編集
+        </Link>
+        <button
+          onClick={handleDelete}
+          disabled={deleting}
+          className="ml-2 px-3 py-1 border border-red-300 text-red-600 rounded text-sm hover:bg-red-50 transition disabled:opacity-50"
+        >
+          {deleting ? "削除中..." : "削除"}
+        </button>
+      </div>
+
+      {/* 欲しい豆（未購入） */}
+      {bean.wishlist && (
+        <div className="bg-amber-50 border border-amber-200 rounded-lg p-5 mb-6">
+          <div className="flex justify-between items-center">
+            <span className="text-amber-800">欲しい豆リストに入っています</span>
+            <button
+              onClick={markPurchased}
+              className="px-3 py-1 border border-amber-300 rounded text-sm bg-white hover:bg-amber-100 transition"
+            >
+              購入した
+            </button>
+          </div>
+          <Link href="/recommendations" className="block mt-2 text-sm text-blue-600 hover:underline">
+            好みに合いそうか見る →
+          </Link>
+        </div>
+      )}
+
+      {/* 残量 */}
+      {!bean.wishlist && (
+        <div className="bg-white rounded-lg shadow-sm border p-5 mb-6">
+          <div className="flex justify-between items-center mb-2">
+            <span className={isLowStock(bean) && !bean.finished ? "text-amber-700 font-bold" : ""}>
+              {bean.finished ? "使い切りました" : formatRemaining(bean)}
+            </span>
+            <button
+              onClick={toggleFinished}
+              className="px-3 py-1 border rounded text-sm hover:bg-zinc-100 transition"
+            >
+              {bean.finished ? "在庫に戻す" : "使い切った"}
+            </button>
+          </div>
+          {bean.bag_weight_g !== null && bean.remaining_g !== null && !bean.finished && (
+            <div className="w-full bg-zinc-200 rounded-full h-2">
+              <div
+                className={`h-2 rounded-full ${isLowStock(bean) ? "bg-red-500" : "bg-amber-600"}`}
+                style={{ width: `${Math.max(0, Math.min(100, (bean.remaining_g / bean.bag_weight_g) * 100))}%` }}
+              />
+            </div>
+          )}
+          {daysSinceRoast(bean) !== null && (
+            <div className="text-sm text-zinc-500 mt-2">焙煎から{daysSinceRoast(bean)}日</div>
+          )}
+        </div>
+      )}
+
+      {/* 豆の情報 */}
+      <div className="bg-white rounded-lg shadow-sm border p-5 mb-6">
+        <div className="grid grid-cols-2 gap-4">
+          {details
+            .filter(([, value]) => value)
+            .map(([label, value]) => (
+              <div key={label}>
+                <div className="text-sm text-zinc-500">{label}</div>
+                <div>{value}</div>
+              </div>
+            ))}
+        </div>
+      </div>
+
+      {/* この豆の記録 */}
+      <div className="bg-white rounded-lg shadow-sm border p-5 mb-6">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-lg font-semibold">この豆で淹れた記録</h2>
+          {avgRating && (
+            <span className="text-sm text-zinc-500">
+              {entries.length}杯 / 平均 <span className="text-amber-600 font-bold">★ {avgRating}</span>
+            </span>
+          )}
+        </div>
+
+        {entries.length === 0 ? (
+          <div className="text-zinc-500 text-sm">まだこの豆の記録はありません</div>
+        ) : (
+          <ul className="divide-y">
+            {entries.map(entry => (
+              <li key={entry.id}>
+                <Link href={`/entries/${entry.id}`} className="flex justify-between items-center py-2 hover:bg-zinc-50">
+                  <div>
+                    <div className="text-sm">
+                      {new Date(entry.created_at).toLocaleDateString("ja-JP")}
+                    </div>
+                    <div className="text-xs text-zinc-500">{entry.brew_method || "-"}</div>
+                  </div>
+                  <div className="text-amber-600">{"★".repeat(entry.rating)}</div>
+                </Link>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <Link
+          href={`/record?bean=${bean.id}`}
+          className="block mt-4 text-center bg-amber-600 text-white py-2 rounded hover:bg-amber-700 transition"
+        >
+          この豆で記録する
+        </Link>
+      </div>
+    </div>
+  );
+}
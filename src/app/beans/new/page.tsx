@@ -0,0 +1,6 @@
+"use client";
+import BeanForm from "@/components/beans/BeanForm";
+
+export default function NewBeanPage() {
+  return <BeanForm />;
+}
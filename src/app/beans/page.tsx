@@ -0,0 +1,155 @@
+"use client";
+import { useEffect, useState } from "react";
+import { supabase } from "@/lib/supabaseClient";
+import { repository } from "@/lib/repository";
+import type { BeanStock } from "@/lib/types";
+import { formatRemaining, isLowStock } from "@/lib/beanStock";
+import Link from "next/link";
+
+interface ErrorWithMessage {
+  message: string;
+}
+
+function isErrorWithMessage(error: unknown): error is ErrorWithMessage {
+  return (
+    typeof error === "object" &&
+    error !== null &&
+    "message" in error &&
+    typeof (error as Record<string, unknown>).message === "string"
+  );
+}
+
+export default function BeansPage() {
+  const [beans, setBeans] = useState<BeanStock[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchBeans = async () => {
+      try {
+        // ユーザー確認
+        const { data: { user } } = await supabase.auth.getUser();
+        if (!user) {
+          window.location.href = "/auth";
+          return;
+        }
+
+        setBeans(await repository.listBeanStock(user.id, { includeFinished: true, includeWishlist: true }));
+      } catch (err: unknown) {
+        if (isErrorWithMessage(err)) {
+          setError(err.message);
+        } else {
+          setError("未知のエラーが発生しました");
+        }
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchBeans();
+  }, []);
+
+  if (loading) {
+    return <div className="max-w-xl mx-auto py-12 px-4 text-center">読み込み中...</div>;
+  }
+
+  if (error) {
+    return (
+      <div className="max-w-xl mx-auto py-12 px-4">
+        <div className="text-red-600 mb-4">{error}</div>
+        <Link href="/" className="text-blue-600 hover:underline">← ホームに戻る</Link>
+      </div>
+    );
+  }
+
+  const stock = beans.filter(bean => !bean.wishlist);
+  const wishlist = beans.filter(bean => bean.wishlist);
+
+  const renderBean = (bean: BeanStock) => (
+    <li
+      key={bean.id}
+      className={`bg-white rounded-lg shadow-sm border p-4 hover:shadow transition ${bean.finished ? "opacity-60" : ""}`}
+    >
+      <Link href={`/beans/${bean.id}`} className="block">
+        <h3 className="font-bold">{bean.name}</h3>
+        {bean.roaster && (
+          <div className="text-sm text-zinc-500 mt-1">{bean.roaster}</div>
+        )}
+        <div className="mt-3 flex flex-wrap gap-2">
+          {bean.origin && (
+            <span className="text-xs px-2 py-1 bg-zinc-100 rounded-full">{bean.origin}</span>
+          )}
+          {bean.roast_level && (
+            <span className="text-xs px-2 py-1 bg-zinc-100 rounded-full">{bean.roast_level}</span>
+          )}
+          {bean.process && (
+            <span className="text-xs px-2 py-1 bg-zinc-100 rounded-full">{bean.process}</span>
+          )}
+        </div>
+        {bean.wishlist ? (
+          bean.flavor_notes && bean.flavor_notes.length > 0 && (
+            <div className="text-xs text-zinc-500 mt-2">{bean.flavor_notes.join("・")}</div>
+          )
+        ) : (
+          <>
+            {bean.roast_date && (
+              <div className="text-xs text-zinc-500 mt-2">
+                焙煎日: {new Date(bean.roast_date).toLocaleDateString("ja-JP")}
+              </div>
+            )}
+            <div className={`text-xs mt-1 ${!bean.finished && isLowStock(bean) ? "text-amber-700 font-bold" : "text-zinc-500"}`}>
+              {bean.finished ? "使い切り" : formatRemaining(bean)}・{bean.cup_count}杯
+            </div>
+          </>
+        )}
+      </Link>
+    </li>
+  );
+
+  return (
+    <div className="max-w-6xl mx-auto py-8 px-4">
+      <div className="flex items-center mb-6">
+        <Link href="/" className="text-zinc-600 mr-4 hover:text-zinc-900">
+          ← ホーム
+        </Link>
+        <h1 className="text-xl font-bold flex-1">豆の在庫</h1>
+        <Link
+          href="/beans/new"
+          className="px-3 py-2 rounded-md text-sm font-medium bg-amber-600 text-white hover:bg-amber-700"
+        >
+          豆を登録
+        </Link>
+      </div>
+
+      {beans.length === 0 ? (
+        <div className="text-center py-12 bg-white rounded-lg shadow-sm border">
+          <div className="text-zinc-500 mb-4">まだ豆が登録されていません</div>
+          <div className="text-sm text-zinc-500">
+            購入した豆を登録しておくと、記録のたびに入力し直す必要がなくなります
+          </div>
+        </div>
+      ) : (
+        <>
+          {stock.length > 0 && (
+            <ul className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+              {stock.map(renderBean)}
+            </ul>
+          )}
+          {wishlist.length > 0 && (
+            <section className="mt-8">
+              <div className="flex justify-between items-center mb-3">
+                <h2 className="text-lg font-semibold">欲しい豆</h2>
+                <Link href="/recommendations" className="text-blue-600 text-sm hover:underline">
+                  好みに合いそうな順に見る
+                </Link>
+              </div>
+              <ul className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                {wishlist.map(renderBean)}
+              </ul>
+            </section>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,194 @@
+"use client";
+import { useState, useEffect } from "react";
+import { supabase } from "@/lib/supabaseClient";
+import { repository } from "@/lib/repository";
+import { rememberEntries } from "@/lib/entryCache";
+import { MAX_COMPARE_ENTRIES, MIN_COMPARE_ENTRIES } from "@/lib/constants";
+import {
+  CUPPING_CATEGORIES,
+  cuppingPenalty,
+  formatCuppingScore,
+} from "@/lib/cupping";
+import type { CoffeeEntry, CuppingSession } from "@/lib/types";
+import { useParams, useRouter } from "next/navigation";
+import Link from "next/link";
+
+interface ErrorWithMessage {
+  message: string;
+}
+
+function isErrorWithMessage(error: unknown): error is ErrorWithMessage {
+  return (
+    typeof error === "object" &&
+    error !== null &&
+    "message" in error &&
+    typeof (error as Record<string, unknown>).message === "string"
+  );
+}
+
+export default function CuppingSessionPage() {
+  const params = useParams();
+  const router = useRouter();
+  const [session, setSession] = useState<CuppingSession | null>(null);
+  const [samples, setSamples] = useState<CoffeeEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [deleting, setDeleting] = useState(false);
+
+  useEffect(() => {
+    const fetchSession = async () => {
+      try {
+        // ユーザー確認
+        const { data: { user } } = await supabase.auth.getUser();
+        if (!user) {
+          router.push("/auth");
+          return;
+        }
+
+        const sessionId = params.id as string;
+        const [sessionData, sampleData] = await Promise.all([
+          repository.getCuppingSession(sessionId),
+          repository.listCuppingSamples(user.id, sessionId),
+        ]);
+        rememberEntries(sampleData);
+        setSession(sessionData);
+        setSamples(sampleData);
+      } catch (err: unknown) {
+        if (isErrorWithMessage(err)) {
+          setError(err.message);
+        } else {
+          setError("未知のエラーが発生しました");
+        }
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    if (params.id) {
+      fetchSession();
+    }
+  }, [params.id, router]);
+
+  const handleDelete = async () => {
+    if (!session) return;
+    if (!window.confirm(`「${session.name}」を削除しますか？サンプルの記録は残ります。`)) return;
+
+    setDeleting(true);
+    try {
+      await repository.deleteCuppingSession(session.id);
+      router.push("/cupping");
+    } catch (err: unknown) {
+      if (isErrorWithMessage(err)) {
+        setError(err.message);
+      } else {
+        setError("未知のエラーが発生しました");
+      }
+      setDeleting(false);
+    }
+  };
+
+  if (loading) {
+    return <div className="max-w-lg mx-auto py-12 px-4 text-center">読み込み中...</div>;
+  }
+
+  if (error || !session) {
+    return (
+      <div className="max-w-lg mx-auto py-12 px-4">
+        <div className="text-red-600 mb-4">{error || "カッピングセッションが見つかりません"}</div>
+        <Link href="/cupping" className="text-blue-600 hover:underline">
+          ← カッピング一覧に戻る
+        </Link>
+      </div>
+    );
+  }
+
+  // 合計点の上位を比較画面に並べる
+  const compareIds = samples.slice(0, MAX_COMPARE_ENTRIES).map(sample => sample.id);
+
+  return (
+    <div className="max-w-6xl mx-auto py-8 px-4">
+      <div className="flex items-center mb-6">
+        <Link href="/cupping" className="text-zinc-600 mr-4 hover:text-zinc-900">
+          ← 戻る
+        </Link>
+        <h1 className="text-xl font-bold flex-1">{session.name}</h1>
+        {compareIds.length >= MIN_COMPARE_ENTRIES && (
+          <Link
+            href={`/entries/compare?ids=${compareIds.join(",")}`}
+            className="ml-2 px-3 py-1 border rounded text-sm hover:bg-zinc-100 transition"
+          >
+            上位を比較
+          </Link>
+        )}
+        <button
+          onClick={handleDelete}
+          disabled={deleting}
+          className="ml-2 px-3 py-1 border border-red-300 text-red-600 rounded text-sm hover:bg-red-50 transition disabled:opacity-50"
+        >
+          {deleting ? "削除中..." : "削除"}
+        </button>
+      </div>
+
+      <div className="bg-white rounded-lg shadow-sm border p-5 mb-6">
+        <div className="text-sm text-zinc-500">開催日</div>
+        <div>{new Date(session.held_on).toLocaleDateString("ja-JP")}</div>
+        {session.notes && (
+          <p className="mt-3 whitespace-pre-wrap text-sm">{session.notes}</p>
+        )}
+      </div>
+
+      {/* 採点結果（合計点の高い順） */}
+      {samples.length === 0 ? (
+        <div className="text-center py-12 bg-white rounded-lg shadow-sm border text-zinc-500">
+          このセッションのサンプルはありません
+        </div>
+      ) : (
+        <div className="overflow-x-auto bg-white rounded-lg shadow-sm border">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="bg-zinc-50 text-left text-zinc-500">
+                <th className="px-3 py-2 whitespace-nowrap">順位</th>
+                <th className="px-3 py-2 whitespace-nowrap">サンプル</th>
+                {CUPPING_CATEGORIES.map(category => (
+                  <th key={category.key} className="px-3 py-2 text-right whitespace-nowrap">{category.label}</th>
+                ))}
+                <th className="px-3 py-2 text-right whitespace-nowrap">欠点</th>
+                <th className="px-3 py-2 text-right whitespace-nowrap">合計</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y">
+              {samples.map((sample, index) => {
+                const scores = sample.cupping_scores;
+                const penalty = scores ? cuppingPenalty(scores) : 0;
+                return (
+                  <tr key={sample.id} className="hover:bg-zinc-50">
+                    <td className="px-3 py-2">{index + 1}</td>
+                    <td className="px-3 py-2 whitespace-nowrap">
+                      <Link href={`/entries/${sample.id}`} className="font-medium text-blue-600 hover:underline">
+                        {sample.bean_name}
+                      </Link>
+                      {sample.bean_origin && (
+                        <div className="text-xs text-zinc-500">{sample.bean_origin}</div>
+                      )}
+                    </td>
+                    {CUPPING_CATEGORIES.map(category => (
+                      <td key={category.key} className="px-3 py-2 text-right font-mono">
+                        {scores ? formatCuppingScore(scores[category.key]) : "-"}
+                      </td>
+                    ))}
+                    <td className={`px-3 py-2 text-right font-mono ${penalty > 0 ? "text-red-600" : ""}`}>
+                      {penalty > 0 ? `-${penalty}` : "0"}
+                    </td>
+                    <td className="px-3 py-2 text-right font-bold text-amber-600">
+                      {formatCuppingScore(sample.cupping_total)}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
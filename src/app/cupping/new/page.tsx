@@ -0,0 +1,6 @@
+"use client";
+import CuppingSessionForm from "@/components/cupping/CuppingSessionForm";
+
+export default function NewCuppingSessionPage() {
+  return <CuppingSessionForm />;
+}
@@ -0,0 +1,104 @@
+"use client";
+import { useEffect, useState } from "react";
+import { supabase } from "@/lib/supabaseClient";
+import { repository, type CuppingSessionSummary } from "@/lib/repository";
+import Link from "next/link";
+
+interface ErrorWithMessage {
+  message: string;
+}
+
+function isErrorWithMessage(error: unknown): error is ErrorWithMessage {
+  return (
+    typeof error === "object" &&
+    error !== null &&
+    "message" in error &&
+    typeof (error as Record<string, unknown>).message === "string"
+  );
+}
+
+export default function CuppingSessionsPage() {
+  const [sessions, setSessions] = useState<CuppingSessionSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchSessions = async () => {
+      try {
+        // ユーザー確認
+        const { data: { user } } = await supabase.auth.getUser();
+        if (!user) {
+          window.location.href = "/auth";
+          return;
+        }
+
+        setSessions(await repository.listCuppingSessions(user.id));
+      } catch (err: unknown) {
+        if (isErrorWithMessage(err)) {
+          setError(err.message);
+        } else {
+          setError("未知のエラーが発生しました");
+        }
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchSessions();
+  }, []);
+
+  if (loading) {
+    return <div className="max-w-xl mx-auto py-12 px-4 text-center">読み込み中...</div>;
+  }
+
+  if (error) {
+    return (
+      <div className="max-w-xl mx-auto py-12 px-4">
+        <div className="text-red-600 mb-4">{error}</div>
+        <Link href="/" className="text-blue-600 hover:underline">← ホームに戻る</Link>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-4xl mx-auto py-8 px-4">
+      <div className="flex items-center mb-6">
+        <Link href="/" className="text-zinc-600 mr-4 hover:text-zinc-900">
+          ← ホーム
+        </Link>
+        <h1 className="text-xl font-bold flex-1">カッピング</h1>
+        <Link
+          href="/cupping/new"
+          className="px-3 py-2 rounded-md text-sm font-medium bg-amber-600 text-white hover:bg-amber-700"
+        >
+          新しいセッション
+        </Link>
+      </div>
+
+      {sessions.length === 0 ? (
+        <div className="text-center py-12 bg-white rounded-lg shadow-sm border">
+          <div className="text-zinc-500 mb-4">まだカッピングセッションがありません</div>
+          <div className="text-sm text-zinc-500">
+            複数の豆を SCA 方式の項目で採点し、合計点で比べることができます
+          </div>
+        </div>
+      ) : (
+        <ul className="bg-white rounded-lg shadow-sm border divide-y">
+          {sessions.map(session => (
+            <li key={session.id}>
+              <Link href={`/cupping/${session.id}`} className="flex items-center justify-between px-4 py-3 hover:bg-zinc-50">
+                <div>
+                  <div className="font-medium">{session.name}</div>
+                  <div className="text-sm text-zinc-500">
+                    {new Date(session.held_on).toLocaleDateString("ja-JP")}
+                  </div>
+                </div>
+                <span className="text-sm text-zinc-500">{session.sample_count}サンプル</span>
+              </Link>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
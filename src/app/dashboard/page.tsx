@@ -1,22 +1,13 @@
 "use client";
 import { useState, useEffect } from "react";
 import { supabase } from "@/lib/supabaseClient";
+import { repository } from "@/lib/repository";
+import { getStats } from "@/lib/entryStats";
+import type { CoffeeEntry } from "@/lib/types";
 import Link from "next/link";
 import CoffeeTrends from "@/components/dashboard/CoffeeTrends";
-
-interface CoffeeEntry {
-  id: string;
-  bean_name: string;
-  bean_origin: string;
-  roast_level: string;
-  brew_method: string;
-  rating: number;
-  sourness: number;
-  sweetness: number;
-  bitterness: number;
-  richness: number;
-  created_at: string;
-}
+import TasteComparison from "@/components/dashboard/TasteComparison";
+import FlavorAnalytics from "@/components/dashboard/FlavorAnalytics";
 
 interface ErrorWithMessage {
   message: string;
@@ -47,14 +38,8 @@ export default function DashboardPage() {
         }
 
         // 記録取得
-        const { data, error } = await supabase
-          .from("coffee_entries")
-          .select("id, bean_name, bean_origin, roast_level, brew_method, rating, sourness, sweetness, bitterness, richness, created_at")
-          .eq("user_id", user.id)
-          .order("created_at", { ascending: false });
-
-        if (error) throw error;
-        setEntries(data || []);
+        const data = await repository.listEntries(user.id);
+        setEntries(data);
       } catch (err: unknown) {
         if (isErrorWithMessage(err)) {
           setError(err.message);
@@ -69,48 +54,6 @@ export default function DashboardPage() {
     fetchEntries();
   }, []);
 
-  // ダッシュボード統計情報
-  const getStats = () => {
-    const totalEntries = entries.length;
-
-    // 平均評価
-    const avgRating = entries.reduce((sum, entry) => sum + entry.rating, 0) / (totalEntries || 1);
-
-    // 最も使用した抽出方法
-    const methodCounts: Record<string, number> = {};
-    for (const entry of entries) {
-      if (entry.brew_method) {
-        methodCounts[entry.brew_method] = (methodCounts[entry.brew_method] || 0) + 1;
-      }
-    }
-    const topMethod = Object.entries(methodCounts)
-      .sort((a, b) => b[1] - a[1])
-      .shift();
-
-    // 最も頻繁に飲んだ豆の産地
-    const originCounts: Record<string, number> = {};
-    for (const entry of entries) {
-      if (entry.bean_origin) {
-        originCounts[entry.bean_origin] = (originCounts[entry.bean_origin] || 0) + 1;
-      }
-    }
-    const topOrigin = Object.entries(originCounts)
-      .sort((a, b) => b[1] - a[1])
-      .shift();
-
-    return {
-      totalEntries,
-      avgRating: avgRating.toFixed(1),
-      topMethod: topMethod ? topMethod[0] : "なし",
-      topOrigin: topOrigin ? topOrigin[0] : "なし",
-      thisMonth: entries.filter(e => {
-        const date = new Date(e.created_at);
-        const now = new Date();
-        return date.getMonth() === now.getMonth() && date.getFullYear() === now.getFullYear();
-      }).length,
-    };
-  };
-
   if (loading) {
     return <div className="max-w-xl mx-auto py-12 px-4 text-center">読み込み中...</div>;
   }
@@ -124,7 +67,7 @@ export default function DashboardPage() {
     );
   }
 
-  const stats = getStats();
+  const stats = getStats(entries);
 
   return (
     <div className="max-w-6xl mx-auto py-8 px-4">
@@ -133,6 +76,14 @@ export default function DashboardPage() {
           ← ホーム
         </Link>
         <h1 className="text-xl font-bold flex-1">ダッシュボード</h1>
+        {entries.length > 0 && (
+          <Link
+            href="/dashboard/report"
+            className="px-3 py-2 border rounded text-sm hover:bg-zinc-100 transition"
+          >
+            レポートを印刷
+          </Link>
+        )}
       </div>
 
       {entries.length === 0 ? (
@@ -173,6 +124,16 @@ export default function DashboardPage() {
             <CoffeeTrends entries={entries} />
           </div>
 
+          {/* 産地・焙煎度ごとの味の比較（味の評価軸を入力しないカッピングのサンプルは除く） */}
+          <div className="mb-8">
+            <TasteComparison samples={entries.filter(entry => !entry.cupping_scores)} />
+          </div>
+
+          {/* フレーバーノートの分析 */}
+          <div className="mb-8">
+            <FlavorAnalytics entries={entries} />
+          </div>
+
           {/* 最近の記録 */}
           <div className="mb-8">
             <div className="flex justify-between items-center mb-4">
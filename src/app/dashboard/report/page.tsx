@@ -0,0 +1,234 @@
+"use client";
+import { Suspense, useEffect, useState } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import { supabase } from "@/lib/supabaseClient";
+import { repository } from "@/lib/repository";
+import { getStats } from "@/lib/entryStats";
+import type { CoffeeEntry } from "@/lib/types";
+import Link from "next/link";
+import CoffeeTrends from "@/components/dashboard/CoffeeTrends";
+
+interface ErrorWithMessage {
+  message: string;
+}
+
+function isErrorWithMessage(error: unknown): error is ErrorWithMessage {
+  return (
+    typeof error === "object" &&
+    error !== null &&
+    "message" in error &&
+    typeof (error as Record<string, unknown>).message === "string"
+  );
+}
+
+type Period = "month" | "year";
+
+// URL の ?period=month&date=2025-04 / ?period=year&date=2025 から対象期間を決める（不正なら今月）
+function parsePeriod(period: string | null, date: string | null) {
+  const now = new Date();
+  if (period === "year" && date && /^\d{4}$/.test(date)) {
+    const year = Number(date);
+    return { period: "year" as Period, start: new Date(year, 0, 1), end: new Date(year + 1, 0, 1) };
+  }
+  if (date && /^\d{4}-\d{2}$/.test(date)) {
+    const [year, month] = date.split("-").map(Number);
+    return { period: "month" as Period, start: new Date(year, month - 1, 1), end: new Date(year, month, 1) };
+  }
+  const start = new Date(now.getFullYear(), now.getMonth(), 1);
+  return { period: "month" as Period, start, end: new Date(now.getFullYear(), now.getMonth() + 1, 1) };
+}
+
+function ReportContent() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const { period, start, end } = parsePeriod(searchParams.get("period"), searchParams.get("date"));
+  const createdFrom = start.toISOString();
+  const createdTo = end.toISOString();
+
+  const [periodEntries, setPeriodEntries] = useState<CoffeeEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // 対象期間の記録だけをサーバーで絞り込んで取得する
+  useEffect(() => {
+    const fetchEntries = async () => {
+      setLoading(true);
+      try {
+        // ユーザー確認
+        const { data: { user } } = await supabase.auth.getUser();
+        if (!user) {
+          window.location.href = "/auth";
+          return;
+        }
+
+        setPeriodEntries(await repository.listMatchingEntries(user.id, { createdFrom, createdTo }));
+      } catch (err: unknown) {
+        if (isErrorWithMessage(err)) {
+          setError(err.message);
+        } else {
+          setError("未知のエラーが発生しました");
+        }
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchEntries();
+  }, [createdFrom, createdTo]);
+
+  if (loading) {
+    return <div className="max-w-xl mx-auto py-12 px-4 text-center">読み込み中...</div>;
+  }
+
+  if (error) {
+    return (
+      <div className="max-w-xl mx-auto py-12 px-4">
+        <div className="text-red-600 mb-4">{error}</div>
+        <Link href="/dashboard" className="text-blue-600 hover:underline">← ダッシュボードに戻る</Link>
+      </div>
+    );
+  }
+
+  const stats = getStats(periodEntries);
+  const topEntries = [...periodEntries].sort((a, b) => b.rating - a.rating).slice(0, 5);
+
+  const title = period === "year"
+    ? `${start.getFullYear()}年`
+    : `${start.getFullYear()}年${start.getMonth() + 1}月`;
+  const dateValue = period === "year"
+    ? String(start.getFullYear())
+    : `${start.getFullYear()}-${String(start.getMonth() + 1).padStart(2, "0")}`;
+  // 月別グラフは対象期間の最後の月までを表示
+  const lastMonth = new Date(end.getFullYear(), end.getMonth() - 1, 1);
+
+  const changePeriod = (nextPeriod: Period, nextDate: string) => {
+    router.replace(`/dashboard/report?period=${nextPeriod}&date=${nextDate}`);
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto py-8 px-4 print:p-0 print:max-w-none">
+      <div className="flex flex-wrap items-center gap-2 mb-6 print:hidden">
+        <Link href="/dashboard" className="text-zinc-600 mr-4 hover:text-zinc-900">
+          ← ダッシュボード
+        </Link>
+        <h1 className="text-xl font-bold flex-1">期間レポート</h1>
+        <select
+          className="px-3 py-2 border rounded text-sm"
+          value={period}
+          onChange={e => {
+            const nextPeriod = e.target.value as Period;
+            changePeriod(nextPeriod, nextPeriod === "year" ? String(start.getFullYear()) : `${start.getFullYear()}-01`);
+          }}
+        >
+          <option value="month">月間</option>
+          <option value="year">年間</option>
+        </select>
+        {period === "year" ? (
+          <input
+            type="number"
+            className="w-24 px-3 py-2 border rounded text-sm"
+            value={dateValue}
+            onChange={e => /^\d{4}$/.test(e.target.value) && changePeriod("year", e.target.value)}
+          />
+        ) : (
+          <input
+            type="month"
+            className="px-3 py-2 border rounded text-sm"
+            value={dateValue}
+            onChange={e => e.target.value && changePeriod("month", e.target.value)}
+          />
+        )}
+        <button
+          onClick={() => window.print()}
+          className="px-3 py-2 rounded-md text-sm font-medium bg-amber-600 text-white hover:bg-amber-700"
+        >
+          印刷 / PDFで保存
+        </button>
+      </div>
+
+      <header className="border-b pb-4 mb-6">
+        <h2 className="text-2xl font-bold">コーヒーレポート {title}</h2>
+        <div className="text-sm text-zinc-500 mt-1">
+          {start.toLocaleDateString("ja-JP")} 〜 {new Date(end.getTime() - 1).toLocaleDateString("ja-JP")}
+        </div>
+      </header>
+
+      {periodEntries.length === 0 ? (
+        <div className="text-center py-12 bg-white rounded-lg shadow-sm border text-zinc-500">
+          この期間の記録はありません
+        </div>
+      ) : (
+        <>
+          {/* 統計サマリー */}
+          <div className="grid grid-cols-4 gap-4 mb-8">
+            <div className="bg-white p-4 rounded-lg shadow-sm border">
+              <div className="text-zinc-500 text-sm">記録数</div>
+              <div className="text-3xl font-bold">{stats.totalEntries}</div>
+            </div>
+            <div className="bg-white p-4 rounded-lg shadow-sm border">
+              <div className="text-zinc-500 text-sm">平均評価</div>
+              <div className="text-3xl font-bold text-amber-600">★ {stats.avgRating}</div>
+            </div>
+            <div className="bg-white p-4 rounded-lg shadow-sm border">
+              <div className="text-zinc-500 text-sm">好みの抽出方法</div>
+              <div className="text-xl font-medium truncate">{stats.topMethod}</div>
+            </div>
+            <div className="bg-white p-4 rounded-lg shadow-sm border">
+              <div className="text-zinc-500 text-sm">よく飲んだ産地</div>
+              <div className="text-xl font-medium truncate">{stats.topOrigin}</div>
+            </div>
+          </div>
+
+          {/* 傾向分析 */}
+          <div className="mb-8">
+            <h3 className="text-lg font-semibold mb-4">傾向分析</h3>
+            <CoffeeTrends
+              entries={periodEntries}
+              endDate={lastMonth}
+              monthCount={period === "year" ? 12 : 1}
+              animate={false}
+            />
+          </div>
+
+          {/* 評価の高かった記録 */}
+          <div className="mb-8 break-inside-avoid">
+            <h3 className="text-lg font-semibold mb-4">評価の高かったコーヒー</h3>
+            <table className="w-full bg-white rounded-lg border text-sm">
+              <thead>
+                <tr className="bg-zinc-50 text-left text-zinc-500">
+                  <th className="px-4 py-2">日付</th>
+                  <th className="px-4 py-2">豆名</th>
+                  <th className="px-4 py-2">産地</th>
+                  <th className="px-4 py-2">抽出方法</th>
+                  <th className="px-4 py-2">評価</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y">
+                {topEntries.map(entry => (
+                  <tr key={entry.id}>
+                    <td className="px-4 py-2 whitespace-nowrap">
+                      {new Date(entry.created_at).toLocaleDateString("ja-JP")}
+                    </td>
+                    <td className="px-4 py-2">{entry.bean_name}</td>
+                    <td className="px-4 py-2">{entry.bean_origin || "-"}</td>
+                    <td className="px-4 py-2">{entry.brew_method || "-"}</td>
+                    <td className="px-4 py-2 whitespace-nowrap text-amber-600">{"★".repeat(entry.rating)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+// 月間・年間のレポートを印刷用に表示（ブラウザの印刷から PDF 保存できる）
+export default function ReportPage() {
+  return (
+    <Suspense>
+      <ReportContent />
+    </Suspense>
+  );
+}
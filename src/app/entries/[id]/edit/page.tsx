@@ -0,0 +1,12 @@
+"use client";
+import { useParams } from "next/navigation";
+import EntryForm from "@/components/record/EntryForm";
+
+export default function EditEntryPage() {
+  const params = useParams();
+  const entryId = Array.isArray(params.id) ? params.id[0] : params.id;
+
+  if (!entryId) return null;
+
+  return <EntryForm entryId={entryId} />;
+}
@@ -1,29 +1,20 @@
 "use client";
 import { useState, useEffect } from "react";
 import { supabase } from "@/lib/supabaseClient";
+import { removePhotos } from "@/lib/photoStorage";
+import { repository } from "@/lib/repository";
+import { forgetEntry, rememberEntries } from "@/lib/entryCache";
+import type { CoffeeEntry, TasteSample, UserProfile } from "@/lib/types";
 import { useParams, useRouter } from "next/navigation";
 import Link from "next/link";
-
-interface CoffeeEntry {
-  id: string;
-  user_id: string;
-  bean_name: string;
-  bean_origin: string;
-  roast_level: string;
-  shop: string;
-  brew_method: string;
-  made_by_user: boolean;
-  grind_size: string;
-  sourness: number;
-  sweetness: number;
-  bitterness: number;
-  richness: number;
-  flavor_notes: string[];
-  rating: number;
-  memo: string;
-  photos: string[];
-  created_at: string;
-}
+import PhotoGallery from "@/components/entries/PhotoGallery";
+import { formatDuration, formatRatio } from "@/lib/brewRecipe";
+import { ENTRY_VISIBILITIES, TASTE_AXES } from "@/lib/constants";
+import { averageTaste, type TasteProfile } from "@/lib/tasteProfile";
+import TasteRadar, { type TasteSeries } from "@/components/dashboard/TasteRadar";
+import CuppingBreakdown from "@/components/cupping/CuppingBreakdown";
+import LikeButton from "@/components/entries/LikeButton";
+import EntryComments from "@/components/entries/EntryComments";
 
 interface ErrorWithMessage {
   message: string;
@@ -44,30 +35,55 @@ export default function EntryDetailPage() {
   const [entry, setEntry] = useState<CoffeeEntry | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [deleting, setDeleting] = useState(false);
+  const [tasteSamples, setTasteSamples] = useState<TasteSample[]>([]);
+  // 他のユーザーの公開記録を見ている場合は編集・削除できず、投稿者を表示する
+  const [isOwner, setIsOwner] = useState(false);
+  const [author, setAuthor] = useState<UserProfile | null>(null);
+  // いいね・コメントする人（ログインしていなければ null）
+  const [viewerId, setViewerId] = useState<string | null>(null);
+  const [likeCount, setLikeCount] = useState(0);
+  const [togglingComments, setTogglingComments] = useState(false);
+  // 全体平均と重ねて比較するグループ
+  const [compareBy, setCompareBy] = useState<"bean_origin" | "roast_level">("bean_origin");
 
   useEffect(() => {
     const fetchEntry = async () => {
       try {
-        // ユーザー確認
+        // ユーザー確認（公開の記録はログインしていなくても見られる）
         const {
           data: { user },
         } = await supabase.auth.getUser();
-        if (!user) {
-          router.push("/auth");
-          return;
-        }
 
         // 記録取得
-        const { data, error } = await supabase
-          .from("coffee_entries")
-          .select("*")
-          .eq("id", params.id)
-          .single();
+        const data = await repository.getEntry(params.id as string);
+        setEntry(data);
+        if (!data.bean_origin && data.roast_level) {
+          setCompareBy("roast_level");
+        }
+        setViewerId(user?.id ?? null);
 
-        if (error) throw error;
-        if (!data) throw new Error("記録が見つかりません");
+        // いいねの数（取得できなくても記録は表示する）
+        try {
+          const counts = await repository.getReactionCounts([data.id]);
+          setLikeCount(counts[data.id]?.like_count ?? 0);
+        } catch (countError) {
+          console.error("いいね数の取得エラー:", countError);
+        }
+
+        if (!user || data.user_id !== user.id) {
+          setAuthor(await repository.getProfile(data.user_id));
+          return;
+        }
+        setIsOwner(true);
+        rememberEntries([data]);
 
-        setEntry(data as CoffeeEntry);
+        // 平均との比較用（取得できなくても記録は表示する）
+        try {
+          setTasteSamples(await repository.listTasteSamples(user.id));
+        } catch (sampleError) {
+          console.error("平均の取得エラー:", sampleError);
+        }
       } catch (err: unknown) {
         if (isErrorWithMessage(err)) {
           setError(err.message);
@@ -82,7 +98,52 @@ export default function EntryDetailPage() {
     if (params.id) {
       fetchEntry();
     }
-  }, [params.id, router]);
+  }, [params.id]);
+
+  const handleDelete = async () => {
+    if (!entry) return;
+    if (!window.confirm(`「${entry.bean_name}」の記録を削除しますか？この操作は取り消せません。`)) return;
+
+    setDeleting(true);
+    try {
+      await repository.deleteEntry(entry.id);
+      forgetEntry(entry.id);
+
+      // アップロード済みの写真も削除
+      if (entry.photos && entry.photos.length > 0) {
+        await removePhotos(entry.photos);
+      }
+
+      router.push("/entries");
+    } catch (err: unknown) {
+      if (isErrorWithMessage(err)) {
+        setError(err.message);
+      } else {
+        setError("未知のエラーが発生しました");
+      }
+      setDeleting(false);
+    }
+  };
+
+  // コメントの受付を切り替える（持ち主のみ）
+  const handleToggleComments = async () => {
+    if (!entry) return;
+    const enabled = !entry.comments_enabled;
+
+    setTogglingComments(true);
+    try {
+      await repository.setCommentsEnabled(entry.id, enabled);
+      setEntry({ ...entry, comments_enabled: enabled });
+    } catch (err: unknown) {
+      if (isErrorWithMessage(err)) {
+        setError(err.message);
+      } else {
+        setError("未知のエラーが発生しました");
+      }
+    } finally {
+      setTogglingComments(false);
+    }
+  };
 
   if (loading) {
     return (
@@ -101,21 +162,28 @@ export default function EntryDetailPage() {
     );
   }
 
-  // 評価バー（酸味・甘味・苦味・コク）
-  const RatingBar = ({ label, value }: { label: string; value: number }) => (
-    <div className="mb-3">
-      <div className="flex justify-between items-center mb-1">
-        <span className="text-sm">{label}</span>
-        <span className="font-bold">{value}</span>
-      </div>
-      <div className="w-full bg-zinc-200 rounded-full h-2">
-        <div
-          className="bg-amber-600 h-2 rounded-full"
-          style={{ width: `${(value / 5) * 100}%` }}
-        />
-      </div>
-    </div>
-  );
+  const hasRecipe = [
+    entry.dose_g,
+    entry.water_g,
+    entry.water_temp_c,
+    entry.brew_time_sec,
+    entry.bloom_time_sec,
+  ].some(value => value !== null) || (entry.pour_steps?.length ?? 0) > 0;
+
+  // レーダーチャートに重ねる系列（この記録・全体の平均・同じ産地/焙煎度の平均）
+  const compareValue = entry[compareBy];
+  const sameGroup = compareValue
+    ? tasteSamples.filter(sample => sample[compareBy] === compareValue)
+    : [];
+  const overallAverage = averageTaste(tasteSamples);
+  const groupAverage = averageTaste(sameGroup);
+  const tasteSeries: TasteSeries[] = [{ label: "この記録", profile: entry as TasteProfile }];
+  if (overallAverage) {
+    tasteSeries.push({ label: `全体の平均（${tasteSamples.length}件）`, profile: overallAverage, dashed: true });
+  }
+  if (groupAverage) {
+    tasteSeries.push({ label: `${compareValue}の平均（${sameGroup.length}件）`, profile: groupAverage, dashed: true });
+  }
 
   return (
     <div className="max-w-lg mx-auto py-8 px-4">
@@ -124,6 +192,29 @@ export default function EntryDetailPage() {
           ← 戻る
         </Link>
         <h1 className="text-xl font-bold flex-1">{entry.bean_name}</h1>
+        {isOwner && (
+          <>
+            <Link
+              href={`/entries/${entry.id}/edit`}
+              className="ml-2 px-3 py-1 border rounded text-sm hover:bg-zinc-100 transition"
+            >
+              編集
+            </Link>
+            <Link
+              href={`/entries/${entry.id}/print`}
+              className="ml-2 px-3 py-1 border rounded text-sm hover:bg-zinc-100 transition"
+            >
+              印刷
+            </Link>
+            <button
+              onClick={handleDelete}
+              disabled={deleting}
+              className="ml-2 px-3 py-1 border border-red-300 text-red-600 rounded text-sm hover:bg-red-50 transition disabled:opacity-50"
+            >
+              {deleting ? "削除中..." : "削除"}
+            </button>
+          </>
+        )}
       </div>
 
       {/* メイン情報 */}
@@ -141,6 +232,28 @@ export default function EntryDetailPage() {
           </div>
         </div>
 
+        {author && (
+          <div className="mb-4">
+            <div className="text-sm text-zinc-500">記録した人</div>
+            {author.username ? (
+              <Link href={`/u/${author.username}`} className="text-blue-600 hover:underline">
+                {author.nickname}（@{author.username}）
+              </Link>
+            ) : (
+              <div>{author.nickname}</div>
+            )}
+          </div>
+        )}
+
+        {isOwner && entry.bean_id && (
+          <div className="mb-4">
+            <div className="text-sm text-zinc-500">使用した豆</div>
+            <Link href={`/beans/${entry.bean_id}`} className="text-blue-600 hover:underline">
+              {entry.bean_name} の記録をすべて見る →
+            </Link>
+          </div>
+        )}
+
         {entry.bean_origin && (
           <div className="mb-4">
             <div className="text-sm text-zinc-500">産地</div>
@@ -158,7 +271,13 @@ export default function EntryDetailPage() {
         {entry.shop && (
           <div className="mb-4">
             <div className="text-sm text-zinc-500">カフェ/購入店</div>
-            <div>{entry.shop}</div>
+            {isOwner && entry.shop_id ? (
+              <Link href={`/shops/${entry.shop_id}`} className="text-blue-600 hover:underline">
+                {entry.shop}
+              </Link>
+            ) : (
+              <div>{entry.shop}</div>
+            )}
           </div>
         )}
 
@@ -169,6 +288,13 @@ export default function EntryDetailPage() {
           </div>
         )}
 
+        {isOwner && (
+          <div className="mb-4">
+            <div className="text-sm text-zinc-500">公開範囲</div>
+            <div>{ENTRY_VISIBILITIES.find(option => option.key === entry.visibility)?.label ?? "非公開"}</div>
+          </div>
+        )}
+
         <div className="mb-4">
           <div className="text-sm text-zinc-500">淹れ方</div>
           <div>{entry.made_by_user ? "自分で淹れた" : "お店で飲んだ"}</div>
@@ -182,13 +308,96 @@ export default function EntryDetailPage() {
         )}
       </div>
 
+      {/* 抽出レシピ */}
+      {entry.made_by_user && hasRecipe && (
+        <div className="bg-white rounded-lg shadow-sm border p-5 mb-6">
+          <h2 className="text-lg font-semibold mb-4">抽出レシピ</h2>
+          <div className="grid grid-cols-3 gap-4">
+            <div>
+              <div className="text-sm text-zinc-500">豆の量</div>
+              <div>{entry.dose_g !== null ? `${entry.dose_g}g` : "-"}</div>
+            </div>
+            <div>
+              <div className="text-sm text-zinc-500">湯量</div>
+              <div>{entry.water_g !== null ? `${entry.water_g}g` : "-"}</div>
+            </div>
+            <div>
+              <div className="text-sm text-zinc-500">比率</div>
+              <div className="font-bold">{formatRatio(entry.brew_ratio)}</div>
+            </div>
+            <div>
+              <div className="text-sm text-zinc-500">湯温</div>
+              <div>{entry.water_temp_c !== null ? `${entry.water_temp_c}℃` : "-"}</div>
+            </div>
+            <div>
+              <div className="text-sm text-zinc-500">蒸らし</div>
+              <div>{formatDuration(entry.bloom_time_sec)}</div>
+            </div>
+            <div>
+              <div className="text-sm text-zinc-500">抽出時間</div>
+              <div>{formatDuration(entry.brew_time_sec)}</div>
+            </div>
+          </div>
+
+          {entry.pour_steps && entry.pour_steps.length > 0 && (
+            <div className="mt-4">
+              <div className="text-sm text-zinc-500 mb-2">注湯ステップ</div>
+              <ol className="text-sm divide-y border rounded">
+                {entry.pour_steps.map((step, index) => (
+                  <li key={`pour-${index}-${step.label}`} className="flex justify-between px-3 py-1">
+                    <span>{step.label}</span>
+                    <span className="font-mono text-zinc-600">
+                      {formatDuration(step.at_sec)}
+                      {step.water_g !== null && ` / ${step.water_g}g`}
+                    </span>
+                  </li>
+                ))}
+              </ol>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* カッピングの採点 */}
+      {entry.cupping_scores && (
+        <div className="bg-white rounded-lg shadow-sm border p-5 mb-6">
+          <div className="flex justify-between items-center mb-4">
+            <h2 className="text-lg font-semibold">カッピングスコア</h2>
+            {isOwner && entry.cupping_session_id && (
+              <Link href={`/cupping/${entry.cupping_session_id}`} className="text-sm text-blue-600 hover:underline">
+                セッションを見る →
+              </Link>
+            )}
+          </div>
+          <CuppingBreakdown scores={entry.cupping_scores} total={entry.cupping_total} />
+        </div>
+      )}
+
       {/* 評価セクション */}
       <div className="bg-white rounded-lg shadow-sm border p-5 mb-6">
         <h2 className="text-lg font-semibold mb-4">テイスト評価</h2>
-        <RatingBar label="酸味" value={entry.sourness} />
-        <RatingBar label="甘味" value={entry.sweetness} />
-        <RatingBar label="苦味" value={entry.bitterness} />
-        <RatingBar label="コク" value={entry.richness} />
+        <TasteRadar series={tasteSeries} />
+        <div className="grid grid-cols-4 gap-2 mt-3 text-center">
+          {TASTE_AXES.map(axis => (
+            <div key={axis.key}>
+              <div className="text-sm text-zinc-500">{axis.label}</div>
+              <div className="font-bold">{entry[axis.key]}</div>
+            </div>
+          ))}
+        </div>
+        {isOwner && (entry.bean_origin || entry.roast_level) && (
+          <div className="flex items-center gap-2 mt-4 text-sm">
+            <span className="text-zinc-500">比較する平均</span>
+            <select
+              className="px-2 py-1 border rounded"
+              value={compareBy}
+              onChange={e => setCompareBy(e.target.value as "bean_origin" | "roast_level")}
+            >
+              {entry.bean_origin && <option value="bean_origin">同じ産地（{entry.bean_origin}）</option>}
+              {entry.roast_level && <option value="roast_level">同じ焙煎度（{entry.roast_level}）</option>}
+            </select>
+          </div>
+        )}
 
         {entry.flavor_notes && entry.flavor_notes.length > 0 && (
           <div className="mt-4">
@@ -219,19 +428,34 @@ export default function EntryDetailPage() {
       {entry.photos && entry.photos.length > 0 && (
         <div className="bg-white rounded-lg shadow-sm border p-5 mb-6">
           <h2 className="text-lg font-semibold mb-4">写真</h2>
-          <div className="grid grid-cols-1 gap-4">
-            {entry.photos.map((photo) => (
-              <div key={`photo-${photo}`} className="relative pb-[75%]">
-                <img
-                  src={photo}
-                  alt="コーヒー写真"
-                  className="absolute inset-0 w-full h-full object-cover rounded"
-                />
-              </div>
-            ))}
-          </div>
+          <PhotoGallery photos={entry.photos} />
         </div>
       )}
+
+      {/* いいね・コメント */}
+      <div className="bg-white rounded-lg shadow-sm border p-5 mb-6">
+        <div className="flex items-center gap-3 mb-4">
+          <h2 className="text-lg font-semibold flex-1">コメント</h2>
+          {isOwner && (
+            <label className="flex items-center gap-1 text-sm text-zinc-600">
+              <input
+                type="checkbox"
+                checked={entry.comments_enabled}
+                disabled={togglingComments}
+                onChange={handleToggleComments}
+              />
+              コメントを受け付ける
+            </label>
+          )}
+          <LikeButton entryId={entry.id} viewerId={viewerId} initialCount={likeCount} />
+        </div>
+        <EntryComments
+          entryId={entry.id}
+          entryOwnerId={entry.user_id}
+          viewerId={viewerId}
+          commentsEnabled={entry.comments_enabled}
+        />
+      </div>
     </div>
   );
 }
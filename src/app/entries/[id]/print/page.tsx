@@ -0,0 +1,187 @@
+"use client";
+import { useState, useEffect } from "react";
+import { supabase } from "@/lib/supabaseClient";
+import { repository } from "@/lib/repository";
+import type { CoffeeEntry } from "@/lib/types";
+import { useParams, useRouter } from "next/navigation";
+import Link from "next/link";
+import { formatDuration, formatRatio } from "@/lib/brewRecipe";
+
+interface ErrorWithMessage {
+  message: string;
+}
+
+function isErrorWithMessage(error: unknown): error is ErrorWithMessage {
+  return (
+    typeof error === "object" &&
+    error !== null &&
+    "message" in error &&
+    typeof (error as Record<string, unknown>).message === "string"
+  );
+}
+
+// 評価バー（酸味・甘味・苦味・コク）
+function TasteBar({ label, value }: { label: string; value: number }) {
+  return (
+    <div className="flex items-center gap-3 mb-2">
+      <span className="w-10 text-sm">{label}</span>
+      <div className="flex-1 bg-zinc-200 rounded-full h-2">
+        <div
+          className="bg-amber-600 h-2 rounded-full"
+          style={{ width: `${(value / 5) * 100}%` }}
+        />
+      </div>
+      <span className="w-4 text-right font-bold">{value}</span>
+    </div>
+  );
+}
+
+// 1件の記録を印刷用のテイスティングカードとして表示（ブラウザの印刷から PDF 保存できる）
+export default function EntryPrintPage() {
+  const params = useParams();
+  const router = useRouter();
+  const [entry, setEntry] = useState<CoffeeEntry | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchEntry = async () => {
+      try {
+        // ユーザー確認
+        const { data: { user } } = await supabase.auth.getUser();
+        if (!user) {
+          router.push("/auth");
+          return;
+        }
+
+        setEntry(await repository.getEntry(params.id as string));
+      } catch (err: unknown) {
+        if (isErrorWithMessage(err)) {
+          setError(err.message);
+        } else {
+          setError("未知のエラーが発生しました");
+        }
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    if (params.id) {
+      fetchEntry();
+    }
+  }, [params.id, router]);
+
+  if (loading) {
+    return (
+      <div className="max-w-lg mx-auto py-12 px-4 text-center">読み込み中...</div>
+    );
+  }
+
+  if (error || !entry) {
+    return (
+      <div className="max-w-lg mx-auto py-12 px-4">
+        <div className="text-red-600 mb-4">{error || "記録が見つかりません"}</div>
+        <Link href="/" className="text-blue-600 hover:underline">
+          ← ホームに戻る
+        </Link>
+      </div>
+    );
+  }
+
+  const details: [string, string | null][] = [
+    ["産地", entry.bean_origin],
+    ["焙煎度", entry.roast_level],
+    ["カフェ/購入店", entry.shop],
+    ["抽出方法", entry.brew_method],
+    ["挽き具合", entry.made_by_user ? entry.grind_size : null],
+    ["比率", entry.brew_ratio !== null ? formatRatio(entry.brew_ratio) : null],
+    ["豆量 / 湯量", entry.dose_g !== null && entry.water_g !== null ? `${entry.dose_g}g / ${entry.water_g}g` : null],
+    ["湯温", entry.water_temp_c !== null ? `${entry.water_temp_c}℃` : null],
+    ["抽出時間", entry.brew_time_sec !== null ? formatDuration(entry.brew_time_sec) : null],
+  ];
+
+  return (
+    <div className="max-w-2xl mx-auto py-8 px-4 print:p-0 print:max-w-none">
+      <div className="flex items-center mb-6 print:hidden">
+        <Link href={`/entries/${entry.id}`} className="text-zinc-600 mr-4 hover:text-zinc-900">
+          ← 戻る
+        </Link>
+        <h1 className="text-xl font-bold flex-1">テイスティングカード</h1>
+        <button
+          onClick={() => window.print()}
+          className="px-3 py-2 rounded-md text-sm font-medium bg-amber-600 text-white hover:bg-amber-700"
+        >
+          印刷 / PDFで保存
+        </button>
+      </div>
+
+      <article className="bg-white border rounded-lg p-6 print:border-zinc-400">
+        <header className="flex justify-between items-start border-b pb-4 mb-4">
+          <div>
+            <h2 className="text-2xl font-bold">{entry.bean_name}</h2>
+            <div className="text-sm text-zinc-500 mt-1">
+              {new Date(entry.created_at).toLocaleDateString("ja-JP")}
+              ・{entry.made_by_user ? "自分で淹れた" : "お店で飲んだ"}
+            </div>
+          </div>
+          <div className="text-amber-600 text-2xl">
+            {"★".repeat(entry.rating)}
+            <span className="text-zinc-300">{"★".repeat(5 - entry.rating)}</span>
+          </div>
+        </header>
+
+        <div className="grid grid-cols-2 gap-6">
+          <div>
+            {entry.photos && entry.photos.length > 0 && (
+              <img
+                src={entry.photos[0]}
+                alt={entry.bean_name}
+                className="w-full aspect-square object-cover rounded mb-4"
+              />
+            )}
+            <dl className="grid grid-cols-2 gap-x-3 gap-y-2 text-sm">
+              {details
+                .filter(([, value]) => value)
+                .map(([label, value]) => (
+                  <div key={label}>
+                    <dt className="text-zinc-500">{label}</dt>
+                    <dd>{value}</dd>
+                  </div>
+                ))}
+            </dl>
+          </div>
+
+          <div>
+            <h3 className="font-semibold mb-3">テイスト評価</h3>
+            <TasteBar label="酸味" value={entry.sourness} />
+            <TasteBar label="甘味" value={entry.sweetness} />
+            <TasteBar label="苦味" value={entry.bitterness} />
+            <TasteBar label="コク" value={entry.richness} />
+
+            {entry.flavor_notes && entry.flavor_notes.length > 0 && (
+              <div className="mt-4">
+                <h3 className="font-semibold mb-2">フレーバーノート</h3>
+                <div className="flex flex-wrap gap-2">
+                  {entry.flavor_notes.map(flavor => (
+                    <span key={`flavor-${flavor}`} className="px-2 py-1 bg-zinc-100 rounded-full text-sm">
+                      {flavor}
+                    </span>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {entry.memo && (
+              <div className="mt-4">
+                <h3 className="font-semibold mb-2">メモ</h3>
+                <p className="text-sm whitespace-pre-wrap">{entry.memo}</p>
+              </div>
+            )}
+          </div>
+        </div>
+
+        <footer className="mt-6 pt-3 border-t text-xs text-zinc-400 text-right">CoffeeDiary</footer>
+      </article>
+    </div>
+  );
+}
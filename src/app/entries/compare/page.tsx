@@ -0,0 +1,266 @@
+"use client";
+import { Suspense, useEffect, useState } from "react";
+import type { ReactNode } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import { supabase } from "@/lib/supabaseClient";
+import { repository } from "@/lib/repository";
+import { getCachedEntry, rememberEntries } from "@/lib/entryCache";
+import { MAX_COMPARE_ENTRIES, MIN_COMPARE_ENTRIES, TASTE_AXES } from "@/lib/constants";
+import { formatDuration, formatRatio } from "@/lib/brewRecipe";
+import type { TasteProfile } from "@/lib/tasteProfile";
+import type { CoffeeEntry } from "@/lib/types";
+import Link from "next/link";
+import PhotoGallery from "@/components/entries/PhotoGallery";
+import TasteRadar from "@/components/dashboard/TasteRadar";
+
+interface ErrorWithMessage {
+  message: string;
+}
+
+function isErrorWithMessage(error: unknown): error is ErrorWithMessage {
+  return (
+    typeof error === "object" &&
+    error !== null &&
+    "message" in error &&
+    typeof (error as Record<string, unknown>).message === "string"
+  );
+}
+
+// ?ids=a,b,c から比較する記録の ID を取り出す（重複を除き上限まで）
+function parseIds(value: string | null): string[] {
+  const ids = (value ?? "").split(",").map(id => id.trim()).filter(Boolean);
+  return [...new Set(ids)].slice(0, MAX_COMPARE_ENTRIES);
+}
+
+// 比較表の1行（項目名と各記録の値）
+interface CompareRow {
+  label: string;
+  render: (entry: CoffeeEntry) => ReactNode;
+}
+
+const BEAN_ROWS: CompareRow[] = [
+  { label: "記録日", render: entry => new Date(entry.created_at).toLocaleDateString("ja-JP") },
+  { label: "産地", render: entry => entry.bean_origin || "-" },
+  { label: "焙煎度", render: entry => entry.roast_level || "-" },
+  { label: "カフェ/購入店", render: entry => entry.shop || "-" },
+];
+
+const BREW_ROWS: CompareRow[] = [
+  { label: "淹れ方", render: entry => (entry.made_by_user ? "自分で淹れた" : "お店で飲んだ") },
+  { label: "抽出方法", render: entry => entry.brew_method || "-" },
+  { label: "挽き具合", render: entry => entry.grind_size || "-" },
+  { label: "豆の量", render: entry => (entry.dose_g !== null ? `${entry.dose_g}g` : "-") },
+  { label: "湯量", render: entry => (entry.water_g !== null ? `${entry.water_g}g` : "-") },
+  { label: "比率", render: entry => formatRatio(entry.brew_ratio) },
+  { label: "湯温", render: entry => (entry.water_temp_c !== null ? `${entry.water_temp_c}℃` : "-") },
+  { label: "蒸らし", render: entry => formatDuration(entry.bloom_time_sec) },
+  { label: "抽出時間", render: entry => formatDuration(entry.brew_time_sec) },
+];
+
+const TASTE_ROWS: CompareRow[] = TASTE_AXES.map(axis => ({
+  label: axis.label,
+  render: entry => entry[axis.key],
+}));
+
+function CompareContent() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const idsParam = searchParams.get("ids");
+
+  const [entries, setEntries] = useState<CoffeeEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchEntries = async () => {
+      try {
+        // ユーザー確認
+        const { data: { user } } = await supabase.auth.getUser();
+        if (!user) {
+          router.push("/auth");
+          return;
+        }
+
+        // 一覧・詳細で読み込み済みの記録はそのまま使い、足りない分だけ取得する
+        const loaded = await Promise.all(
+          parseIds(idsParam).map(async id => getCachedEntry(id) ?? repository.getEntry(id))
+        );
+        rememberEntries(loaded);
+        setEntries(loaded);
+      } catch (err: unknown) {
+        if (isErrorWithMessage(err)) {
+          setError(err.message);
+        } else {
+          setError("未知のエラーが発生しました");
+        }
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchEntries();
+  }, [idsParam, router]);
+
+  if (loading) {
+    return <div className="max-w-xl mx-auto py-12 px-4 text-center">読み込み中...</div>;
+  }
+
+  if (error || entries.length < MIN_COMPARE_ENTRIES) {
+    return (
+      <div className="max-w-xl mx-auto py-12 px-4">
+        <div className="text-red-600 mb-4">
+          {error || `比較するには記録を${MIN_COMPARE_ENTRIES}〜${MAX_COMPARE_ENTRIES}件選んでください`}
+        </div>
+        <Link href="/entries" className="text-blue-600 hover:underline">← 記録一覧に戻る</Link>
+      </div>
+    );
+  }
+
+  // 2件以上の記録に共通するフレーバー（ハイライト表示する）
+  const flavorCounts: Record<string, number> = {};
+  for (const entry of entries) {
+    for (const flavor of new Set(entry.flavor_notes ?? [])) {
+      flavorCounts[flavor] = (flavorCounts[flavor] || 0) + 1;
+    }
+  }
+  const sharedFlavors = Object.keys(flavorCounts).filter(flavor => flavorCounts[flavor] >= 2);
+
+  const renderRows = (rows: CompareRow[]) =>
+    rows.map(row => (
+      <tr key={row.label}>
+        <th className="px-4 py-2 text-left text-sm font-normal text-zinc-500 whitespace-nowrap">{row.label}</th>
+        {entries.map(entry => (
+          <td key={entry.id} className="px-4 py-2 text-sm">{row.render(entry)}</td>
+        ))}
+      </tr>
+    ));
+
+  const sectionHeader = (title: string) => (
+    <tr className="bg-zinc-50">
+      <th colSpan={entries.length + 1} className="px-4 py-2 text-left text-sm font-semibold">{title}</th>
+    </tr>
+  );
+
+  return (
+    <div className="max-w-6xl mx-auto py-8 px-4">
+      <div className="flex items-center mb-6">
+        <Link href="/entries" className="text-zinc-600 mr-4 hover:text-zinc-900">
+          ← 記録一覧
+        </Link>
+        <h1 className="text-xl font-bold flex-1">記録の比較（{entries.length}件）</h1>
+      </div>
+
+      {/* 味わいのレーダーチャート */}
+      <div className="bg-white rounded-lg shadow-sm border p-5 mb-6">
+        <h2 className="text-lg font-semibold mb-4">テイスト評価</h2>
+        <div className="max-w-md mx-auto">
+          <TasteRadar
+            series={entries.map(entry => ({ label: entry.bean_name, profile: entry as TasteProfile }))}
+          />
+        </div>
+      </div>
+
+      {/* 比較表 */}
+      <div className="overflow-x-auto bg-white rounded-lg shadow-sm border mb-6">
+        <table className="w-full table-fixed min-w-[40rem]">
+          <colgroup>
+            <col className="w-32" />
+            {entries.map(entry => (
+              <col key={entry.id} />
+            ))}
+          </colgroup>
+          <thead>
+            <tr className="border-b">
+              <th />
+              {entries.map(entry => (
+                <th key={entry.id} className="px-4 py-3 text-left align-top">
+                  <Link href={`/entries/${entry.id}`} className="font-bold text-blue-600 hover:underline">
+                    {entry.bean_name}
+                  </Link>
+                  <div className="text-amber-600 font-normal">{"★".repeat(entry.rating)}</div>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-zinc-100">
+            {sectionHeader("豆の情報")}
+            {renderRows(BEAN_ROWS)}
+            {sectionHeader("抽出")}
+            {renderRows(BREW_ROWS)}
+            {sectionHeader("テイスト評価")}
+            {renderRows(TASTE_ROWS)}
+            <tr>
+              <th className="px-4 py-2 text-left text-sm font-normal text-zinc-500 whitespace-nowrap">総合評価</th>
+              {entries.map(entry => (
+                <td key={entry.id} className="px-4 py-2 text-sm font-bold">{entry.rating}</td>
+              ))}
+            </tr>
+            {sectionHeader("フレーバーノート")}
+            <tr>
+              <th className="px-4 py-2 text-left text-sm font-normal text-zinc-500 align-top whitespace-nowrap">
+                フレーバー
+              </th>
+              {entries.map(entry => (
+                <td key={entry.id} className="px-4 py-2 align-top">
+                  {entry.flavor_notes && entry.flavor_notes.length > 0 ? (
+                    <div className="flex flex-wrap gap-1">
+                      {entry.flavor_notes.map(flavor => (
+                        <span
+                          key={`flavor-${flavor}`}
+                          className={`px-2 py-0.5 rounded-full text-xs ${
+                            sharedFlavors.includes(flavor)
+                              ? "bg-amber-100 text-amber-800 font-medium"
+                              : "bg-zinc-100"
+                          }`}
+                        >
+                          {flavor}
+                        </span>
+                      ))}
+                    </div>
+                  ) : (
+                    <span className="text-sm">-</span>
+                  )}
+                </td>
+              ))}
+            </tr>
+            {sectionHeader("メモ・写真")}
+            <tr>
+              <th className="px-4 py-2 text-left text-sm font-normal text-zinc-500 align-top whitespace-nowrap">メモ</th>
+              {entries.map(entry => (
+                <td key={entry.id} className="px-4 py-2 text-sm align-top whitespace-pre-wrap">{entry.memo || "-"}</td>
+              ))}
+            </tr>
+            <tr>
+              <th className="px-4 py-2 text-left text-sm font-normal text-zinc-500 align-top whitespace-nowrap">写真</th>
+              {entries.map(entry => (
+                <td key={entry.id} className="px-4 py-2 align-top">
+                  {entry.photos && entry.photos.length > 0 ? (
+                    <PhotoGallery photos={entry.photos} />
+                  ) : (
+                    <span className="text-sm">-</span>
+                  )}
+                </td>
+              ))}
+            </tr>
+          </tbody>
+        </table>
+      </div>
+
+      {sharedFlavors.length > 0 && (
+        <div className="text-sm text-zinc-600">
+          <span className="px-2 py-0.5 rounded-full text-xs bg-amber-100 text-amber-800 font-medium mr-2">色付き</span>
+          は2件以上の記録に共通するフレーバーです（{sharedFlavors.join("、")}）
+        </div>
+      )}
+    </div>
+  );
+}
+
+// 一覧で選んだ2〜4件の記録を横に並べて比較する（?ids=id1,id2,...）
+export default function ComparePage() {
+  return (
+    <Suspense>
+      <CompareContent />
+    </Suspense>
+  );
+}
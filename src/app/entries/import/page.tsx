@@ -0,0 +1,292 @@
+"use client";
+import { useEffect, useMemo, useState } from "react";
+import { supabase } from "@/lib/supabaseClient";
+import { repository } from "@/lib/repository";
+import {
+  IMPORT_FIELDS,
+  buildImportRows,
+  guessMapping,
+  parseImportFile,
+  type ImportMapping,
+  type ParsedTable,
+} from "@/lib/entryImport";
+import type { EntryKey } from "@/lib/types";
+import Link from "next/link";
+
+interface ErrorWithMessage {
+  message: string;
+}
+
+function isErrorWithMessage(error: unknown): error is ErrorWithMessage {
+  return (
+    typeof error === "object" &&
+    error !== null &&
+    "message" in error &&
+    typeof (error as Record<string, unknown>).message === "string"
+  );
+}
+
+interface ImportSummary {
+  succeeded: number;
+  failed: { line: number; error: string }[];
+}
+
+// プレビューに表示する行数の上限
+const PREVIEW_LIMIT = 200;
+
+export default function ImportEntriesPage() {
+  const [userId, setUserId] = useState<string | null>(null);
+  const [existingEntries, setExistingEntries] = useState<EntryKey[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [filename, setFilename] = useState("");
+  const [table, setTable] = useState<ParsedTable | null>(null);
+  const [mapping, setMapping] = useState<ImportMapping>({});
+  const [skipDuplicates, setSkipDuplicates] = useState(true);
+  const [importing, setImporting] = useState(false);
+  const [summary, setSummary] = useState<ImportSummary | null>(null);
+
+  // 重複判定のために既存の記録を読み込む
+  useEffect(() => {
+    const fetchEntries = async () => {
+      try {
+        const { data: { user } } = await supabase.auth.getUser();
+        if (!user) {
+          window.location.href = "/auth";
+          return;
+        }
+
+        setUserId(user.id);
+        setExistingEntries(await repository.listEntryKeys(user.id));
+      } catch (err: unknown) {
+        if (isErrorWithMessage(err)) {
+          setError(err.message);
+        } else {
+          setError("未知のエラーが発生しました");
+        }
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchEntries();
+  }, []);
+
+  const rows = useMemo(
+    () => (table ? buildImportRows(table, mapping, existingEntries) : []),
+    [table, mapping, existingEntries]
+  );
+
+  const validRows = rows.filter(row => row.entry !== null);
+  const duplicateCount = validRows.filter(row => row.duplicate).length;
+  const errorCount = rows.length - validRows.length;
+  const rowsToImport = validRows.filter(row => !(skipDuplicates && row.duplicate));
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setError(null);
+    setSummary(null);
+    try {
+      const parsed = parseImportFile(await file.text(), file.name);
+      if (parsed.rows.length === 0) throw new Error("取り込める行がありません");
+
+      setFilename(file.name);
+      setTable(parsed);
+      setMapping(guessMapping(parsed.headers));
+    } catch (err: unknown) {
+      setTable(null);
+      if (err instanceof SyntaxError) {
+        setError("JSONの形式が正しくありません");
+      } else if (isErrorWithMessage(err)) {
+        setError(err.message);
+      } else {
+        setError("ファイルを読み込めませんでした");
+      }
+    }
+  };
+
+  const handleImport = async () => {
+    if (!userId || rowsToImport.length === 0) return;
+
+    setImporting(true);
+    setError(null);
+    try {
+      const results = await repository.importEntries(
+        userId,
+        rowsToImport.map(row => row.entry).filter(entry => entry !== null)
+      );
+
+      const failed = results
+        .filter(result => result.error !== null)
+        .map(result => ({ line: rowsToImport[result.index].line, error: result.error as string }));
+      setSummary({ succeeded: results.length - failed.length, failed });
+
+      // 取り込んだ記録も次回の重複判定に含める
+      setExistingEntries(await repository.listEntryKeys(userId));
+      setTable(null);
+    } catch (err: unknown) {
+      if (isErrorWithMessage(err)) {
+        setError(err.message);
+      } else {
+        setError("未知のエラーが発生しました");
+      }
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  if (loading) {
+    return <div className="max-w-xl mx-auto py-12 px-4 text-center">読み込み中...</div>;
+  }
+
+  return (
+    <div className="max-w-4xl mx-auto py-8 px-4">
+      <div className="flex items-center mb-6">
+        <Link href="/entries" className="text-zinc-600 mr-4 hover:text-zinc-900">
+          ← 記録一覧
+        </Link>
+        <h1 className="text-xl font-bold flex-1">記録のインポート</h1>
+      </div>
+
+      <div className="bg-white rounded-lg shadow-sm border p-5 mb-6">
+        <label className="block text-sm font-medium mb-2">CSV / JSON ファイル</label>
+        <input
+          type="file"
+          accept=".csv,.json,text/csv,application/json"
+          onChange={handleFileChange}
+          className="block w-full text-sm"
+        />
+        <p className="text-xs text-zinc-500 mt-2">
+          1行目を見出しとして読み込みます。フレーバーなど複数の値は JSON 配列か「、」区切りで入力してください。
+          「豆の名前」と「記録日時」が同じ記録は重複として扱います。
+        </p>
+      </div>
+
+      {error && <div className="text-red-600 mb-4">{error}</div>}
+
+      {summary && (
+        <div className="bg-white rounded-lg shadow-sm border p-5 mb-6">
+          <h2 className="text-lg font-semibold mb-2">インポート結果</h2>
+          <div className="mb-2">{summary.succeeded}件の記録を取り込みました</div>
+          {summary.failed.length > 0 && (
+            <>
+              <div className="text-red-600 mb-2">{summary.failed.length}件は取り込めませんでした</div>
+              <ul className="text-sm text-red-600 space-y-1">
+                {summary.failed.map(item => (
+                  <li key={item.line}>{item.line}行目: {item.error}</li>
+                ))}
+              </ul>
+            </>
+          )}
+          <Link href="/entries" className="inline-block mt-4 text-blue-600 hover:underline">
+            記録一覧を見る
+          </Link>
+        </div>
+      )}
+
+      {table && (
+        <>
+          {/* 列の対応付け */}
+          <div className="bg-white rounded-lg shadow-sm border p-5 mb-6">
+            <h2 className="text-lg font-semibold mb-1">列の対応付け</h2>
+            <p className="text-sm text-zinc-500 mb-4">
+              {filename} の各列をどの項目として取り込むか選んでください
+            </p>
+            <div className="grid md:grid-cols-2 gap-3">
+              {table.headers.map(header => (
+                <div key={header} className="flex items-center gap-2">
+                  <span className="w-1/2 text-sm truncate" title={header}>{header}</span>
+                  <select
+                    className="w-1/2 px-2 py-1 border rounded text-sm"
+                    value={mapping[header] ?? ""}
+                    onChange={e => setMapping({ ...mapping, [header]: e.target.value as ImportMapping[string] })}
+                  >
+                    <option value="">取り込まない</option>
+                    {IMPORT_FIELDS.map(field => (
+                      <option key={field.key} value={field.key}>
+                        {field.label}{field.required ? " *" : ""}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {/* プレビュー */}
+          <div className="bg-white rounded-lg shadow-sm border p-5 mb-6">
+            <div className="flex flex-wrap justify-between items-center gap-2 mb-4">
+              <h2 className="text-lg font-semibold">プレビュー</h2>
+              <div className="text-sm text-zinc-500">
+                全{rows.length}行 / 取り込み可能 {validRows.length}行 / 重複 {duplicateCount}行 / エラー {errorCount}行
+              </div>
+            </div>
+
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-zinc-500 border-b">
+                    <th className="py-2 pr-2">行</th>
+                    <th className="py-2 pr-2">豆の名前</th>
+                    <th className="py-2 pr-2">記録日時</th>
+                    <th className="py-2 pr-2">評価</th>
+                    <th className="py-2">状態</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y">
+                  {rows.slice(0, PREVIEW_LIMIT).map(row => (
+                    <tr key={row.line} className={row.entry ? "" : "bg-red-50"}>
+                      <td className="py-2 pr-2 text-zinc-500">{row.line}</td>
+                      <td className="py-2 pr-2">{row.entry?.bean_name ?? "-"}</td>
+                      <td className="py-2 pr-2">
+                        {row.entry?.created_at
+                          ? new Date(row.entry.created_at).toLocaleString("ja-JP")
+                          : "-"}
+                      </td>
+                      <td className="py-2 pr-2 text-amber-600">
+                        {row.entry ? "★".repeat(row.entry.rating) : "-"}
+                      </td>
+                      <td className="py-2">
+                        {!row.entry ? (
+                          <span className="text-red-600">{row.errors.join(" / ")}</span>
+                        ) : row.duplicate ? (
+                          <span className="text-xs px-2 py-1 bg-amber-100 text-amber-800 rounded-full">重複</span>
+                        ) : (
+                          <span className="text-xs px-2 py-1 bg-green-100 text-green-800 rounded-full">OK</span>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            {rows.length > PREVIEW_LIMIT && (
+              <div className="text-sm text-zinc-500 mt-2">先頭{PREVIEW_LIMIT}行のみ表示しています</div>
+            )}
+          </div>
+
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={skipDuplicates}
+                onChange={e => setSkipDuplicates(e.target.checked)}
+              />
+              <span className="text-sm text-zinc-600">重複している行は取り込まない</span>
+            </label>
+            <button
+              onClick={handleImport}
+              disabled={importing || rowsToImport.length === 0}
+              className="bg-amber-600 text-white px-4 py-2 rounded hover:bg-amber-700 transition disabled:opacity-50"
+            >
+              {importing ? "取り込み中..." : `${rowsToImport.length}件を取り込む`}
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,20 +1,34 @@
 "use client";
-import { useEffect, useState } from "react";
+import { Suspense, useCallback, useEffect, useRef, useState } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
 import { supabase } from "@/lib/supabaseClient";
+import { repository, type EntryFilters } from "@/lib/repository";
+import {
+  MAX_COMPARE_ENTRIES,
+  MIN_COMPARE_ENTRIES,
+  ROAST_LEVELS,
+  TASTE_AXES,
+  type TasteAxis,
+} from "@/lib/constants";
+import { getThumbnailUrl } from "@/lib/photoStorage";
+import { rememberEntries } from "@/lib/entryCache";
+import { formatRatio } from "@/lib/brewRecipe";
+import { downloadCsv, entriesToCsv } from "@/lib/csvExport";
+import { buildSnippet, highlightTerms, splitSearchTerms, type SnippetPart } from "@/lib/searchSnippet";
+import {
+  FULL_TASTE_RANGES,
+  filterStateToFilters,
+  filterStateToQuery,
+  notifySavedSearchesChanged,
+  queryToFilterState,
+  type EntryFilterState,
+  type SortOption,
+  type TasteRanges,
+} from "@/lib/entryFilterParams";
+import type { CoffeeEntry, ReactionCounts, SavedSearch } from "@/lib/types";
 import Link from "next/link";
-
-interface CoffeeEntry {
-  id: string;
-  bean_name: string;
-  bean_origin: string;
-  roast_level: string;
-  brew_method: string;
-  created_at: string;
-  rating: number;
-}
-
-// 焙煎度選択肢
-const ROAST_LEVELS = ["浅煎り", "中浅煎り", "中煎り", "中深煎り", "深煎り"];
+import { Pin, X } from "lucide-react";
+import ReactionSummary from "@/components/entries/ReactionSummary";
 
 interface ErrorWithMessage {
   message: string;
@@ -29,11 +43,52 @@ function isErrorWithMessage(error: unknown): error is ErrorWithMessage {
   );
 }
 
-export default function EntriesPage() {
+// 検索語に一致した部分を強調表示
+function Highlighted({ parts }: { parts: SnippetPart[] }) {
+  return (
+    <>
+      {parts.map(part =>
+        part.match ? (
+          <mark key={part.start} className="bg-amber-200 rounded-sm">{part.text}</mark>
+        ) : (
+          <span key={part.start}>{part.text}</span>
+        )
+      )}
+    </>
+  );
+}
+
+// メモやフレーバーなど、カードに表示していない項目で一致した箇所
+function EntrySnippet({ entry, query }: { entry: CoffeeEntry; query: string }) {
+  const snippet = buildSnippet(entry, query);
+  if (!snippet) return null;
+
+  return (
+    <div className="mt-3 text-sm text-zinc-600">
+      <span className="text-xs text-zinc-400 mr-1">{snippet.label}</span>
+      <Highlighted parts={snippet.parts} />
+    </div>
+  );
+}
+
+// 1回に読み込む件数
+const PAGE_SIZE = 24;
+// 入力中に毎回問い合わせないよう、条件の変更から検索までの待ち時間
+const FILTER_DEBOUNCE_MS = 300;
+
+function EntriesList() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const [userId, setUserId] = useState<string | null>(null);
   const [entries, setEntries] = useState<CoffeeEntry[]>([]);
-  const [filteredEntries, setFilteredEntries] = useState<CoffeeEntry[]>([]);
+  // 全記録数と、絞り込み条件に一致する記録数
+  const [totalCount, setTotalCount] = useState(0);
+  const [matchedCount, setMatchedCount] = useState(0);
   const [loading, setLoading] = useState(true);
+  const [searching, setSearching] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [reactionCounts, setReactionCounts] = useState<Record<string, ReactionCounts>>({});
 
   // 検索・フィルター条件
   const [searchTerm, setSearchTerm] = useState("");
@@ -41,14 +96,42 @@ export default function EntriesPage() {
   const [roastFilter, setRoastFilter] = useState("");
   const [brewMethodFilter, setBrewMethodFilter] = useState("");
   const [ratingFilter, setRatingFilter] = useState(0);
-  const [sortBy, setSortBy] = useState<"date" | "rating">("date");
+  const [sortBy, setSortBy] = useState<SortOption>("date");
+  const [recipeOnly, setRecipeOnly] = useState(false);
+  const [ratioMin, setRatioMin] = useState("");
+  const [ratioMax, setRatioMax] = useState("");
+  const [tempMin, setTempMin] = useState("");
+  const [tempMax, setTempMax] = useState("");
+  const [dateFrom, setDateFrom] = useState("");
+  const [dateTo, setDateTo] = useState("");
+  const [tasteRanges, setTasteRanges] = useState<TasteRanges>(FULL_TASTE_RANGES);
+  const [flavorNotesFilter, setFlavorNotesFilter] = useState<string[]>([]);
+  const [flavorMatch, setFlavorMatch] = useState<"any" | "all">("any");
+  const [shopFilter, setShopFilter] = useState("");
+  const [madeByFilter, setMadeByFilter] = useState<EntryFilterState["madeByFilter"]>("");
+  const [showAdvanced, setShowAdvanced] = useState(false);
+
+  // 比較する記録の選択
+  const [selecting, setSelecting] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+
+  // 保存した検索
+  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([]);
 
   // フィルター用のユニーク値
   const [origins, setOrigins] = useState<string[]>([]);
   const [brewMethods, setBrewMethods] = useState<string[]>([]);
+  const [shops, setShops] = useState<string[]>([]);
+  const [flavorOptions, setFlavorOptions] = useState<string[]>([]);
+
+  // 検索に使っている条件（入力が落ち着いてから反映する）
+  const [appliedFilters, setAppliedFilters] = useState<EntryFilters | null>(null);
+  // 古い検索結果で新しい結果を上書きしないための連番
+  const requestIdRef = useRef(0);
+  const sentinelRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
-    const fetchEntries = async () => {
+    const fetchInitialData = async () => {
       try {
         // ユーザー確認
         const { data: { user } } = await supabase.auth.getUser();
@@ -57,94 +140,191 @@ export default function EntriesPage() {
           return;
         }
 
-        // 全記録取得
-        const { data, error } = await supabase
-          .from("coffee_entries")
-          .select("id, bean_name, bean_origin, roast_level, brew_method, created_at, rating")
-          .eq("user_id", user.id)
-          .order("created_at", { ascending: false });
-
-        if (error) throw error;
-        const fetchedEntries = data || [];
-        setEntries(fetchedEntries);
-        setFilteredEntries(fetchedEntries);
-
-        // 産地とブリューメソッドの一覧を抽出
-        const uniqueOrigins = Array.from(
-          new Set(
-            fetchedEntries
-              .map(entry => entry.bean_origin)
-              .filter(origin => origin && origin.trim() !== "")
-          )
-        );
-
-        const uniqueBrewMethods = Array.from(
-          new Set(
-            fetchedEntries
-              .map(entry => entry.brew_method)
-              .filter(method => method && method.trim() !== "")
-          )
-        );
-
-        setOrigins(uniqueOrigins);
-        setBrewMethods(uniqueBrewMethods);
+        // 記録数と、産地・抽出方法の一覧、保存した検索を取得
+        const [count, options, searches] = await Promise.all([
+          repository.countEntries(user.id),
+          repository.getEntryFilterOptions(user.id),
+          repository.listSavedSearches(user.id),
+        ]);
+        setTotalCount(count);
+        setSavedSearches(searches);
+        setOrigins(options.origins);
+        setBrewMethods(options.brewMethods);
+        setShops(options.shops);
+        setFlavorOptions(options.flavorNotes);
+        setUserId(user.id);
       } catch (err: unknown) {
         if (isErrorWithMessage(err)) {
           setError(err.message);
         } else {
           setError("未知のエラーが発生しました");
         }
-      } finally {
         setLoading(false);
       }
     };
 
-    fetchEntries();
+    fetchInitialData();
   }, []);
 
-  // 検索＆フィルターロジック
+  // 入力欄の値をまとめたもの
+  const filterState: EntryFilterState = {
+    searchTerm,
+    originFilter,
+    roastFilter,
+    brewMethodFilter,
+    ratingFilter,
+    sortBy,
+    recipeOnly,
+    ratioMin,
+    ratioMax,
+    tempMin,
+    tempMax,
+    dateFrom,
+    dateTo,
+    tasteRanges,
+    flavorNotes: flavorNotesFilter,
+    flavorMatch,
+    shopFilter,
+    madeByFilter,
+  };
+
+  // この画面自身が最後に URL へ反映したクエリ（その URL の変化は入力欄に戻さない）
+  const pushedQueryRef = useRef<string | null>(null);
+
+  // URL（初回表示・戻る/進む・保存した検索のリンク）から入力欄に反映
+  // 自分で反映した URL まで戻すと、入力途中の末尾の空白や反映後に打った文字が消えてしまう
+  const urlQuery = filterStateToQuery(queryToFilterState(searchParams));
   useEffect(() => {
-    let result = [...entries];
-
-    // 検索条件でフィルタリング
-    if (searchTerm.trim() !== "") {
-      const term = searchTerm.toLowerCase();
-      result = result.filter(
-        entry =>
-          (entry.bean_name?.toLowerCase().includes(term)) ||
-          (entry.bean_origin?.toLowerCase().includes(term))
-      );
+    const pushedQuery = pushedQueryRef.current;
+    pushedQueryRef.current = null;
+    if (urlQuery === pushedQuery) return;
+
+    const state = queryToFilterState(new URLSearchParams(urlQuery));
+    setSearchTerm(state.searchTerm);
+    setOriginFilter(state.originFilter);
+    setRoastFilter(state.roastFilter);
+    setBrewMethodFilter(state.brewMethodFilter);
+    setRatingFilter(state.ratingFilter);
+    setSortBy(state.sortBy);
+    setRecipeOnly(state.recipeOnly);
+    setRatioMin(state.ratioMin);
+    setRatioMax(state.ratioMax);
+    setTempMin(state.tempMin);
+    setTempMax(state.tempMax);
+    setDateFrom(state.dateFrom);
+    setDateTo(state.dateTo);
+    setTasteRanges(state.tasteRanges);
+    setFlavorNotesFilter(state.flavorNotes);
+    setFlavorMatch(state.flavorMatch);
+    setShopFilter(state.shopFilter);
+    setMadeByFilter(state.madeByFilter);
+    // 詳細な条件が指定されていれば最初から開いておく
+    if (
+      state.dateFrom || state.dateTo || state.flavorNotes.length > 0 || state.shopFilter || state.madeByFilter ||
+      TASTE_AXES.some(({ key }) => state.tasteRanges[key][0] > 1 || state.tasteRanges[key][1] < 5)
+    ) {
+      setShowAdvanced(true);
     }
+  }, [urlQuery]);
 
-    // 産地でフィルタリング
-    if (originFilter) {
-      result = result.filter(entry => entry.bean_origin === originFilter);
+  // 条件が変わったら少し待ってから検索条件と URL に反映
+  const currentQuery = filterStateToQuery(filterState);
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setAppliedFilters(filterStateToFilters(queryToFilterState(new URLSearchParams(currentQuery))));
+      if (currentQuery !== urlQuery) {
+        pushedQueryRef.current = currentQuery;
+        router.push(currentQuery ? `/entries?${currentQuery}` : "/entries", { scroll: false });
+      }
+    }, FILTER_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [currentQuery, urlQuery, router]);
+
+  // いいね数・コメント数は一覧の表示を待たせないよう後から取得する
+  const fetchReactionCounts = useCallback(async (entryIds: string[]) => {
+    try {
+      const counts = await repository.getReactionCounts(entryIds);
+      setReactionCounts(prev => ({ ...prev, ...counts }));
+    } catch (err) {
+      console.error("いいね数・コメント数の取得エラー:", err);
     }
+  }, []);
 
-    // 焙煎度でフィルタリング
-    if (roastFilter) {
-      result = result.filter(entry => entry.roast_level === roastFilter);
-    }
+  // 検索条件が変わったら1ページ目から取得し直す
+  useEffect(() => {
+    if (!userId || !appliedFilters) return;
 
-    // 抽出方法でフィルタリング
-    if (brewMethodFilter) {
-      result = result.filter(entry => entry.brew_method === brewMethodFilter);
-    }
+    const requestId = ++requestIdRef.current;
+    const fetchFirstPage = async () => {
+      setSearching(true);
+      try {
+        const page = await repository.searchEntries(userId, appliedFilters, { offset: 0, limit: PAGE_SIZE });
+        if (requestId !== requestIdRef.current) return;
+        rememberEntries(page.entries);
+        setEntries(page.entries);
+        setMatchedCount(page.total);
+        fetchReactionCounts(page.entries.map(entry => entry.id));
+      } catch (err: unknown) {
+        if (requestId !== requestIdRef.current) return;
+        if (isErrorWithMessage(err)) {
+          setError(err.message);
+        } else {
+          setError("未知のエラーが発生しました");
+        }
+      } finally {
+        if (requestId === requestIdRef.current) {
+          setSearching(false);
+          setLoading(false);
+        }
+      }
+    };
 
-    // 評価でフィルタリング
-    if (ratingFilter > 0) {
-      result = result.filter(entry => entry.rating >= ratingFilter);
+    fetchFirstPage();
+  }, [userId, appliedFilters, fetchReactionCounts]);
+
+  const hasMore = entries.length < matchedCount;
+  // 表示中の結果を検索した語（ハイライト用）
+  const appliedSearchTerm = appliedFilters?.searchTerm ?? "";
+  const searchTerms = splitSearchTerms(appliedSearchTerm);
+
+  // 続きのページを取得
+  const loadMore = useCallback(async () => {
+    if (!userId || !appliedFilters || loadingMore || searching || !hasMore) return;
+
+    const requestId = requestIdRef.current;
+    setLoadingMore(true);
+    try {
+      const page = await repository.searchEntries(userId, appliedFilters, {
+        offset: entries.length,
+        limit: PAGE_SIZE,
+      });
+      if (requestId !== requestIdRef.current) return;
+      rememberEntries(page.entries);
+      setEntries(prev => [...prev, ...page.entries]);
+      setMatchedCount(page.total);
+      fetchReactionCounts(page.entries.map(entry => entry.id));
+    } catch (err: unknown) {
+      if (isErrorWithMessage(err)) {
+        setError(err.message);
+      } else {
+        setError("未知のエラーが発生しました");
+      }
+    } finally {
+      setLoadingMore(false);
     }
+  }, [userId, appliedFilters, loadingMore, searching, hasMore, entries.length, fetchReactionCounts]);
 
-    // ソート
-    if (sortBy === "rating") {
-      result.sort((a, b) => b.rating - a.rating);
-    } else {
-      result.sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime());
-    }
+  // 一覧の末尾が見えたら続きを読み込む（無限スクロール）
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel) return;
 
-    setFilteredEntries(result);
-  }, [entries, searchTerm, originFilter, roastFilter, brewMethodFilter, ratingFilter, sortBy]);
+    const observer = new IntersectionObserver(observed => {
+      if (observed[0]?.isIntersecting) loadMore();
+    }, { rootMargin: "200px" });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [loadMore]);
 
   // フィルターリセット
   const resetFilters = () => {
@@ -154,6 +334,118 @@ export default function EntriesPage() {
     setBrewMethodFilter("");
     setRatingFilter(0);
     setSortBy("date");
+    setRecipeOnly(false);
+    setRatioMin("");
+    setRatioMax("");
+    setTempMin("");
+    setTempMax("");
+    setDateFrom("");
+    setDateTo("");
+    setTasteRanges(FULL_TASTE_RANGES);
+    setFlavorNotesFilter([]);
+    setFlavorMatch("any");
+    setShopFilter("");
+    setMadeByFilter("");
+  };
+
+  // 味の評価の下限・上限を変更（下限が上限を超えないようにする）
+  const updateTasteRange = (axis: TasteAxis, bound: "min" | "max", value: number) => {
+    setTasteRanges(prev => {
+      const [min, max] = prev[axis];
+      const next: [number, number] = bound === "min"
+        ? [value, Math.max(value, max)]
+        : [Math.min(min, value), value];
+      return { ...prev, [axis]: next };
+    });
+  };
+
+  const toggleFlavorNote = (note: string) => {
+    setFlavorNotesFilter(prev =>
+      prev.includes(note) ? prev.filter(item => item !== note) : [...prev, note]
+    );
+  };
+
+  // 今の条件に名前を付けて保存
+  const handleSaveSearch = async () => {
+    if (!userId) return;
+    const name = window.prompt("保存する検索の名前", searchTerm.trim() || "");
+    if (!name?.trim()) return;
+
+    try {
+      const saved = await repository.createSavedSearch(userId, {
+        name: name.trim(),
+        query: currentQuery,
+        pinned: false,
+      });
+      setSavedSearches(prev => [...prev, saved]);
+    } catch (err: unknown) {
+      if (isErrorWithMessage(err)) {
+        setError(err.message);
+      } else {
+        setError("未知のエラーが発生しました");
+      }
+    }
+  };
+
+  // ヘッダーへのピン留めを切り替え
+  const handleTogglePin = async (search: SavedSearch) => {
+    try {
+      const updated = await repository.updateSavedSearch(search.id, { pinned: !search.pinned });
+      setSavedSearches(prev => prev.map(item => (item.id === updated.id ? updated : item)));
+      notifySavedSearchesChanged();
+    } catch (err: unknown) {
+      if (isErrorWithMessage(err)) {
+        setError(err.message);
+      } else {
+        setError("未知のエラーが発生しました");
+      }
+    }
+  };
+
+  const handleDeleteSearch = async (search: SavedSearch) => {
+    if (!window.confirm(`保存した検索「${search.name}」を削除しますか？`)) return;
+
+    try {
+      await repository.deleteSavedSearch(search.id);
+      setSavedSearches(prev => prev.filter(item => item.id !== search.id));
+      if (search.pinned) notifySavedSearchesChanged();
+    } catch (err: unknown) {
+      if (isErrorWithMessage(err)) {
+        setError(err.message);
+      } else {
+        setError("未知のエラーが発生しました");
+      }
+    }
+  };
+
+  // 選択モード中はカードのクリックで比較対象に追加/解除する
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => {
+      if (prev.includes(id)) return prev.filter(item => item !== id);
+      if (prev.length >= MAX_COMPARE_ENTRIES) return prev;
+      return [...prev, id];
+    });
+  };
+
+  const cancelSelecting = () => {
+    setSelecting(false);
+    setSelectedIds([]);
+  };
+
+  // 絞り込み中の記録を CSV でダウンロード（読み込み済みのページに関係なくすべて）
+  const handleExportCsv = async () => {
+    if (!userId || !appliedFilters) return;
+    try {
+      const matched = await repository.listMatchingEntries(userId, appliedFilters);
+      const date = new Date().toISOString().slice(0, 10);
+      downloadCsv(entriesToCsv(matched), `coffee-entries-${date}.csv`);
+    } catch (err: unknown) {
+      if (isErrorWithMessage(err)) {
+        setError(err.message);
+      } else {
+        setError("未知のエラーが発生しました");
+      }
+    }
   };
 
   if (loading) {
@@ -176,9 +468,34 @@ export default function EntriesPage() {
           ← ホーム
         </Link>
         <h1 className="text-xl font-bold flex-1">すべての記録</h1>
+        <Link
+          href="/entries/import"
+          className="mr-2 px-3 py-2 border rounded text-sm hover:bg-zinc-100 transition"
+        >
+          インポート
+        </Link>
+        {totalCount > 1 && (
+          <button
+            onClick={() => (selecting ? cancelSelecting() : setSelecting(true))}
+            className={`mr-2 px-3 py-2 border rounded text-sm transition ${
+              selecting ? "bg-amber-50 border-amber-300 text-amber-800" : "hover:bg-zinc-100"
+            }`}
+          >
+            {selecting ? "選択をやめる" : "選択して比較"}
+          </button>
+        )}
+        {totalCount > 0 && (
+          <button
+            onClick={handleExportCsv}
+            disabled={matchedCount === 0}
+            className="px-3 py-2 border rounded text-sm hover:bg-zinc-100 transition disabled:opacity-50"
+          >
+            CSVエクスポート
+          </button>
+        )}
       </div>
 
-      {entries.length === 0 ? (
+      {totalCount === 0 ? (
         <div className="text-center py-12">
           <div className="text-zinc-500 mb-4">まだコーヒー記録がありません</div>
           <Link
@@ -190,6 +507,40 @@ export default function EntriesPage() {
         </div>
       ) : (
         <>
+          {/* 保存した検索 */}
+          {savedSearches.length > 0 && (
+            <div className="flex flex-wrap items-center gap-2 mb-4">
+              <span className="text-sm text-zinc-500">保存した検索:</span>
+              {savedSearches.map(search => (
+                <span
+                  key={search.id}
+                  className={`inline-flex items-center rounded-full border text-sm ${search.query === urlQuery ? "bg-amber-50 border-amber-300" : "bg-white"}`}
+                >
+                  <Link
+                    href={search.query ? `/entries?${search.query}` : "/entries"}
+                    className="pl-3 pr-1 py-1 hover:underline"
+                  >
+                    {search.name}
+                  </Link>
+                  <button
+                    onClick={() => handleTogglePin(search)}
+                    className="p-1 text-zinc-400 hover:text-amber-600"
+                    title={search.pinned ? "ヘッダーから外す" : "ヘッダーにピン留め"}
+                  >
+                    <Pin className={`w-3.5 h-3.5 ${search.pinned ? "text-amber-600 fill-amber-600" : ""}`} />
+                  </button>
+                  <button
+                    onClick={() => handleDeleteSearch(search)}
+                    className="pr-2 pl-0.5 py-1 text-zinc-400 hover:text-red-600"
+                    title="削除"
+                  >
+                    <X className="w-3.5 h-3.5" />
+                  </button>
+                </span>
+              ))}
+            </div>
+          )}
+
           {/* 検索・フィルターエリア */}
           <div className="bg-zinc-50 rounded-lg p-4 mb-6 border">
             <div className="grid md:grid-cols-3 gap-4 mb-4">
@@ -198,7 +549,7 @@ export default function EntriesPage() {
                 <input
                   type="text"
                   className="w-full px-3 py-2 border rounded"
-                  placeholder="豆名・産地などで検索"
+                  placeholder="豆名・メモ・フレーバーなどで検索"
                   value={searchTerm}
                   onChange={e => setSearchTerm(e.target.value)}
                 />
@@ -269,30 +620,227 @@ export default function EntriesPage() {
                 <select
                   className="w-full px-3 py-2 border rounded"
                   value={sortBy}
-                  onChange={e => setSortBy(e.target.value as "date" | "rating")}
+                  onChange={e => setSortBy(e.target.value as SortOption)}
                 >
                   <option value="date">日付（新しい順）</option>
                   <option value="rating">評価（高い順）</option>
+                  <option value="relevance" disabled={searchTerm.trim() === ""}>
+                    関連度（キーワード検索時）
+                  </option>
+                  {TASTE_AXES.map(axis => (
+                    <option key={axis.key} value={axis.key}>{axis.label}（強い順）</option>
+                  ))}
                 </select>
               </div>
             </div>
 
+            <div className="grid md:grid-cols-3 gap-4 mb-4">
+              <div>
+                <label className="block text-sm text-zinc-600 mb-1">比率 (1:x)</label>
+                <div className="flex items-center gap-2">
+                  <input
+                    type="number"
+                    step="0.5"
+                    className="w-full px-3 py-2 border rounded"
+                    placeholder="下限"
+                    value={ratioMin}
+                    onChange={e => setRatioMin(e.target.value)}
+                  />
+                  <span className="text-zinc-400">〜</span>
+                  <input
+                    type="number"
+                    step="0.5"
+                    className="w-full px-3 py-2 border rounded"
+                    placeholder="上限"
+                    value={ratioMax}
+                    onChange={e => setRatioMax(e.target.value)}
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm text-zinc-600 mb-1">湯温 (℃)</label>
+                <div className="flex items-center gap-2">
+                  <input
+                    type="number"
+                    className="w-full px-3 py-2 border rounded"
+                    placeholder="下限"
+                    value={tempMin}
+                    onChange={e => setTempMin(e.target.value)}
+                  />
+                  <span className="text-zinc-400">〜</span>
+                  <input
+                    type="number"
+                    className="w-full px-3 py-2 border rounded"
+                    placeholder="上限"
+                    value={tempMax}
+                    onChange={e => setTempMax(e.target.value)}
+                  />
+                </div>
+              </div>
+
+              <div className="flex items-end">
+                <label className="flex items-center gap-2 py-2">
+                  <input
+                    type="checkbox"
+                    checked={recipeOnly}
+                    onChange={e => setRecipeOnly(e.target.checked)}
+                  />
+                  <span className="text-sm text-zinc-600">レシピを記録した記録のみ</span>
+                </label>
+              </div>
+            </div>
+
+            <button
+              className="text-sm text-blue-600 hover:underline mb-4"
+              onClick={() => setShowAdvanced(!showAdvanced)}
+            >
+              {showAdvanced ? "詳細な絞り込みを閉じる" : "詳細な絞り込み（期間・味・フレーバー・お店）"}
+            </button>
+
+            {showAdvanced && (
+              <div className="border-t pt-4 mb-4 space-y-4">
+                <div className="grid md:grid-cols-3 gap-4">
+                  <div>
+                    <label className="block text-sm text-zinc-600 mb-1">期間</label>
+                    <div className="flex items-center gap-2">
+                      <input
+                        type="date"
+                        className="w-full px-3 py-2 border rounded"
+                        value={dateFrom}
+                        onChange={e => setDateFrom(e.target.value)}
+                      />
+                      <span className="text-zinc-400">〜</span>
+                      <input
+                        type="date"
+                        className="w-full px-3 py-2 border rounded"
+                        value={dateTo}
+                        onChange={e => setDateTo(e.target.value)}
+                      />
+                    </div>
+                  </div>
+
+                  <div>
+                    <label className="block text-sm text-zinc-600 mb-1">お店で絞り込み</label>
+                    <select
+                      className="w-full px-3 py-2 border rounded"
+                      value={shopFilter}
+                      onChange={e => setShopFilter(e.target.value)}
+                    >
+                      <option value="">すべて</option>
+                      {shops.map(shop => (
+                        <option key={shop} value={shop}>{shop}</option>
+                      ))}
+                    </select>
+                  </div>
+
+                  <div>
+                    <label className="block text-sm text-zinc-600 mb-1">淹れ方</label>
+                    <div className="flex rounded border overflow-hidden">
+                      {([
+                        ["", "すべて"],
+                        ["home", "自分で淹れた"],
+                        ["cafe", "お店で飲んだ"],
+                      ] as const).map(([value, label]) => (
+                        <button
+                          key={value}
+                          className={`flex-1 px-2 py-2 text-sm ${madeByFilter === value ? "bg-zinc-700 text-white" : "bg-white hover:bg-zinc-100"}`}
+                          onClick={() => setMadeByFilter(value)}
+                        >
+                          {label}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                </div>
+
+                <div className="grid md:grid-cols-2 gap-x-8 gap-y-3">
+                  {TASTE_AXES.map(axis => {
+                    const [min, max] = tasteRanges[axis.key];
+                    return (
+                      <div key={axis.key}>
+                        <div className="flex justify-between text-sm text-zinc-600 mb-1">
+                          <span>{axis.label}</span>
+                          <span>{min}〜{max}</span>
+                        </div>
+                        <div className="flex items-center gap-2">
+                          <input
+                            type="range"
+                            min="1"
+                            max="5"
+                            className="w-full"
+                            aria-label={`${axis.label}の下限`}
+                            value={min}
+                            onChange={e => updateTasteRange(axis.key, "min", Number(e.target.value))}
+                          />
+                          <input
+                            type="range"
+                            min="1"
+                            max="5"
+                            className="w-full"
+                            aria-label={`${axis.label}の上限`}
+                            value={max}
+                            onChange={e => updateTasteRange(axis.key, "max", Number(e.target.value))}
+                          />
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+
+                {flavorOptions.length > 0 && (
+                  <div>
+                    <div className="flex items-center gap-3 mb-2">
+                      <span className="text-sm text-zinc-600">フレーバー</span>
+                      <select
+                        className="px-2 py-1 border rounded text-sm"
+                        value={flavorMatch}
+                        onChange={e => setFlavorMatch(e.target.value as "any" | "all")}
+                      >
+                        <option value="any">いずれかを含む</option>
+                        <option value="all">すべてを含む</option>
+                      </select>
+                    </div>
+                    <div className="flex flex-wrap gap-2">
+                      {flavorOptions.map(note => (
+                        <button
+                          key={note}
+                          className={`px-3 py-1 rounded-full border text-sm ${flavorNotesFilter.includes(note) ? "bg-amber-600 text-white border-amber-600" : "bg-white"}`}
+                          onClick={() => toggleFlavorNote(note)}
+                        >
+                          {note}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                )}
+              </div>
+            )}
+
             <div className="flex justify-between items-center">
               <div className="text-sm text-zinc-500">
-                {filteredEntries.length} 件表示 / 全 {entries.length} 件
+                {searching ? "検索中..." : `${matchedCount} 件該当 / 全 ${totalCount} 件`}
               </div>
 
-              <button
-                className="px-4 py-2 border rounded hover:bg-zinc-100 transition"
-                onClick={resetFilters}
-              >
-                フィルターをリセット
-              </button>
+              <div className="flex gap-2">
+                <button
+                  className="px-4 py-2 border rounded hover:bg-zinc-100 transition"
+                  onClick={handleSaveSearch}
+                >
+                  この条件を保存
+                </button>
+                <button
+                  className="px-4 py-2 border rounded hover:bg-zinc-100 transition"
+                  onClick={resetFilters}
+                >
+                  フィルターをリセット
+                </button>
+              </div>
             </div>
           </div>
 
           {/* 結果表示エリア */}
-          {filteredEntries.length === 0 ? (
+          {!searching && entries.length === 0 ? (
             <div className="text-center py-12 bg-white rounded-lg shadow-sm border">
               <div className="text-zinc-500">
                 該当する記録がありません
@@ -306,12 +854,47 @@ export default function EntriesPage() {
             </div>
           ) : (
             <ul className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-              {filteredEntries.map(entry => (
-                <li key={entry.id} className="bg-white rounded-lg shadow-sm border p-4 hover:shadow transition">
-                  <Link href={`/entries/${entry.id}`} className="block">
+              {entries.map(entry => (
+                <li
+                  key={entry.id}
+                  className={`relative bg-white rounded-lg shadow-sm border p-4 hover:shadow transition ${
+                    selectedIds.includes(entry.id) ? "ring-2 ring-amber-500" : ""
+                  }`}
+                >
+                  {selecting && (
+                    <input
+                      type="checkbox"
+                      className="absolute top-2 left-2 z-[1] w-5 h-5 accent-amber-600"
+                      checked={selectedIds.includes(entry.id)}
+                      disabled={!selectedIds.includes(entry.id) && selectedIds.length >= MAX_COMPARE_ENTRIES}
+                      onChange={() => toggleSelected(entry.id)}
+                      aria-label={`${entry.bean_name}を比較に追加`}
+                    />
+                  )}
+                  <Link
+                    href={`/entries/${entry.id}`}
+                    className="block"
+                    onClick={e => {
+                      if (!selecting) return;
+                      e.preventDefault();
+                      toggleSelected(entry.id);
+                    }}
+                  >
+                    {entry.photos && entry.photos.length > 0 && (
+                      <div className="relative pb-[56%] -mx-4 -mt-4 mb-3">
+                        <img
+                          src={getThumbnailUrl(entry.photos[0])}
+                          alt={entry.bean_name}
+                          loading="lazy"
+                          className="absolute inset-0 w-full h-full object-cover rounded-t-lg"
+                        />
+                      </div>
+                    )}
                     <div className="flex justify-between items-start">
                       <div>
-                        <h3 className="font-bold">{entry.bean_name}</h3>
+                        <h3 className="font-bold">
+                          <Highlighted parts={highlightTerms(entry.bean_name, searchTerms)} />
+                        </h3>
                         <div className="text-sm text-zinc-500 mt-1">
                           {new Date(entry.created_at).toLocaleDateString("ja-JP")}
                         </div>
@@ -334,14 +917,69 @@ export default function EntriesPage() {
                           {entry.brew_method}
                         </span>
                       )}
+                      {entry.brew_ratio !== null && (
+                        <span className="text-xs px-2 py-1 bg-amber-50 text-amber-800 rounded-full">
+                          {formatRatio(entry.brew_ratio)}
+                          {entry.water_temp_c !== null && ` / ${entry.water_temp_c}℃`}
+                        </span>
+                      )}
                     </div>
+                    <EntrySnippet entry={entry} query={appliedSearchTerm} />
+                    <ReactionSummary counts={reactionCounts[entry.id]} />
                   </Link>
                 </li>
               ))}
             </ul>
           )}
+
+          {/* 続きの読み込み */}
+          <div ref={sentinelRef} className="text-center py-6">
+            {loadingMore ? (
+              <span className="text-zinc-500">読み込み中...</span>
+            ) : hasMore && !searching ? (
+              <button
+                className="px-4 py-2 border rounded hover:bg-zinc-100 transition"
+                onClick={loadMore}
+              >
+                もっと見る
+              </button>
+            ) : null}
+          </div>
+
+          {/* 比較する記録の選択状況 */}
+          {selecting && (
+            <div className="sticky bottom-4 flex items-center gap-3 bg-white border rounded-lg shadow-lg px-4 py-3">
+              <span className="text-sm flex-1">
+                {selectedIds.length}件選択中
+                <span className="text-zinc-500 ml-2">
+                  （{MIN_COMPARE_ENTRIES}〜{MAX_COMPARE_ENTRIES}件を選んでください）
+                </span>
+              </span>
+              <button
+                onClick={cancelSelecting}
+                className="px-3 py-2 border rounded text-sm hover:bg-zinc-100 transition"
+              >
+                キャンセル
+              </button>
+              <button
+                onClick={() => router.push(`/entries/compare?ids=${selectedIds.join(",")}`)}
+                disabled={selectedIds.length < MIN_COMPARE_ENTRIES}
+                className="px-3 py-2 rounded text-sm font-medium bg-amber-600 text-white hover:bg-amber-700 disabled:opacity-50"
+              >
+                比較する
+              </button>
+            </div>
+          )}
         </>
       )}
     </div>
   );
 }
+
+export default function EntriesPage() {
+  return (
+    <Suspense>
+      <EntriesList />
+    </Suspense>
+  );
+}
@@ -22,7 +22,7 @@ export default function RootLayout({
         <main className="container mx-auto pb-16 pt-2">
           {children}
         </main>
-        <footer className="py-6 border-t mt-12 text-center text-zinc-500 text-sm">
+        <footer className="py-6 border-t mt-12 text-center text-zinc-500 text-sm print:hidden">
           <div className="container mx-auto">
             &copy; {new Date().getFullYear()} CoffeeDiary - コーヒー記録アプリ
           </div>
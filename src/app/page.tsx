@@ -1,21 +1,18 @@
 "use client";
 import { useEffect, useState } from "react";
 import { supabase } from "@/lib/supabaseClient";
+import { repository } from "@/lib/repository";
+import type { BeanStock, CoffeeEntry } from "@/lib/types";
+import BeanAlerts from "@/components/beans/BeanAlerts";
 import Link from "next/link";
 import type { User } from "@supabase/supabase-js";
 import { useRouter } from "next/navigation";
 
-interface CoffeeEntry {
-  id: string;
-  bean_name: string;
-  created_at: string;
-  rating: number;
-}
-
 export default function Home() {
   const router = useRouter();
   const [user, setUser] = useState<User | null>(null);
   const [entries, setEntries] = useState<CoffeeEntry[]>([]);
+  const [beans, setBeans] = useState<BeanStock[]>([]);
   const [loading, setLoading] = useState(true);
 
   // 認証状態のチェックと監視
@@ -28,6 +25,7 @@ export default function Home() {
 
         if (user) {
           fetchEntries(user.id);
+          fetchBeans(user.id);
         } else {
           // 未ログインの場合は認証ページへリダイレクト
           router.push("/auth");
@@ -47,9 +45,11 @@ export default function Home() {
       if (event === "SIGNED_IN" && session?.user) {
         setUser(session.user);
         fetchEntries(session.user.id);
+        fetchBeans(session.user.id);
       } else if (event === "SIGNED_OUT") {
         setUser(null);
         setEntries([]);
+        setBeans([]);
         router.push("/auth");
       }
     });
@@ -63,15 +63,8 @@ export default function Home() {
   const fetchEntries = async (userId: string) => {
     setLoading(true);
     try {
-      const { data, error } = await supabase
-        .from("coffee_entries")
-        .select("id,bean_name,created_at,rating")
-        .eq("user_id", userId)
-        .order("created_at", { ascending: false })
-        .limit(5);
-
-      if (error) throw error;
-      setEntries(data || []);
+      const data = await repository.listEntries(userId, { limit: 5 });
+      setEntries(data);
     } catch (error) {
       console.error("エントリー取得エラー:", error);
       setEntries([]);
@@ -80,6 +73,16 @@ export default function Home() {
     }
   };
 
+  // 残量・鮮度アラート用の豆一覧（失敗してもホームの表示は続ける）
+  const fetchBeans = async (userId: string) => {
+    try {
+      setBeans(await repository.listBeanStock(userId));
+    } catch (error) {
+      console.error("豆の取得エラー:", error);
+      setBeans([]);
+    }
+  };
+
   if (loading) {
     return <div className="max-w-xl mx-auto py-12 px-4 text-center">読み込み中...</div>;
   }
@@ -93,6 +96,7 @@ export default function Home() {
       <div className="flex items-center mb-4">
         <h1 className="text-2xl font-bold">CoffeeDiary</h1>
       </div>
+      <BeanAlerts beans={beans} />
       <section className="mb-10">
         <h2 className="text-lg font-semibold mb-2">最近の記録</h2>
         {entries.length === 0 ? (
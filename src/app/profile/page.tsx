@@ -1,8 +1,12 @@
 "use client";
 import { useState, useEffect } from "react";
 import { supabase } from "@/lib/supabaseClient";
+import { repository } from "@/lib/repository";
+import { processImage } from "@/lib/imageProcessing";
+import { USERNAME_PATTERN } from "@/lib/constants";
 import { useRouter } from "next/navigation";
 import Image from "next/image";
+import Link from "next/link";
 
 interface ErrorWithMessage {
   message: string;
@@ -17,9 +21,16 @@ function isErrorWithMessage(error: unknown): error is ErrorWithMessage {
   );
 }
 
+// ユーザー名がすでに使われている場合のPostgreSQLエラーコード（一意制約違反）
+const DUPLICATE_USERNAME_CODE = "23505";
+
 export default function ProfilePage() {
   const router = useRouter();
   const [nickname, setNickname] = useState("");
+  const [username, setUsername] = useState("");
+  // 保存済みのユーザー名（公開プロフィールへのリンク用）
+  const [savedUsername, setSavedUsername] = useState<string | null>(null);
+  const [isPublic, setIsPublic] = useState(false);
   const [bio, setBio] = useState("");
   const [favoriteTypes, setFavoriteTypes] = useState<string[]>([]);
   const [avatar, setAvatar] = useState<File | null>(null);
@@ -49,18 +60,13 @@ export default function ProfilePage() {
         setUserId(user.id);
 
         // プロフィール情報取得
-        const { data, error } = await supabase
-          .from('users')
-          .select('*')
-          .eq('id', user.id)
-          .single();
-
-        if (error && error.code !== 'PGRST116') {
-          throw error;
-        }
+        const data = await repository.getProfile(user.id);
 
         if (data) {
           setNickname(data.nickname || "");
+          setUsername(data.username || "");
+          setSavedUsername(data.username);
+          setIsPublic(data.is_public);
           setBio(data.bio || "");
           setFavoriteTypes(data.favorite_types || []);
 
@@ -116,6 +122,14 @@ export default function ProfilePage() {
     try {
       if (!userId) throw new Error('認証情報が取得できません');
 
+      const trimmedUsername = username.trim();
+      if (trimmedUsername && !USERNAME_PATTERN.test(trimmedUsername)) {
+        throw new Error("ユーザー名は半角英小文字・数字・アンダースコアの3〜20文字で入力してください");
+      }
+      if (isPublic && !trimmedUsername) {
+        throw new Error("プロフィールを公開するにはユーザー名を設定してください");
+      }
+
       // プロフィール画像アップロード
       let newAvatarUrl = avatarUrl;
 
@@ -130,13 +144,13 @@ export default function ProfilePage() {
           }
         }
 
-        // 新しい画像をアップロード
-        const fileExt = avatar.name.split('.').pop();
-        const filePath = `${userId}/${Date.now()}.${fileExt}`;
+        // 新しい画像を縮小・メタデータ除去してアップロード
+        const { blob, extension } = await processImage(avatar, { maxDimension: 512 });
+        const filePath = `${userId}/${Date.now()}.${extension}`;
 
         const { error: uploadError } = await supabase.storage
           .from('avatars')
-          .upload(filePath, avatar);
+          .upload(filePath, blob, { contentType: blob.type });
 
         if (uploadError) throw uploadError;
 
@@ -149,18 +163,18 @@ export default function ProfilePage() {
       }
 
       // データ保存
-      const { error } = await supabase.from('users').upsert({
+      await repository.saveProfile({
         id: userId,
         nickname,
+        username: trimmedUsername || null,
         bio,
         favorite_types: favoriteTypes,
         avatar_url: newAvatarUrl,
-        updated_at: new Date().toISOString(),
+        is_public: isPublic,
       });
 
-      if (error) throw error;
-
       setAvatarUrl(newAvatarUrl);
+      setSavedUsername(trimmedUsername || null);
       setMessage("プロフィールを保存しました！");
 
       // 2秒後にリダイレクト
@@ -169,7 +183,9 @@ export default function ProfilePage() {
       }, 2000);
 
     } catch (err: unknown) {
-      if (isErrorWithMessage(err)) {
+      if ((err as { code?: string }).code === DUPLICATE_USERNAME_CODE) {
+        setError("このユーザー名はすでに使われています");
+      } else if (isErrorWithMessage(err)) {
         setError(err.message);
       } else {
         setError("未知のエラーが発生しました");
@@ -225,6 +241,41 @@ export default function ProfilePage() {
             onChange={e => setNickname(e.target.value)}
           />
         </div>
+        <div>
+          <label className="block text-sm mb-1">ユーザー名 <span className="text-xs text-zinc-500">（半角英小文字・数字・_ の3〜20文字）</span></label>
+          <div className="flex items-center">
+            <span className="px-3 py-2 border border-r-0 rounded-l bg-zinc-50 text-zinc-500 text-sm">/u/</span>
+            <input
+              type="text"
+              className="flex-1 px-3 py-2 border rounded-r"
+              value={username}
+              maxLength={20}
+              disabled={loading}
+              placeholder="coffee_lover"
+              autoCapitalize="none"
+              onChange={e => setUsername(e.target.value.toLowerCase())}
+            />
+          </div>
+        </div>
+        <div>
+          <label className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={isPublic}
+              disabled={loading}
+              onChange={e => setIsPublic(e.target.checked)}
+            />
+            プロフィールを公開する
+          </label>
+          <div className="text-xs text-zinc-500 mt-1">
+            公開すると、プロフィールと「公開」にした記録を誰でも見られるようになります
+          </div>
+          {isPublic && savedUsername && (
+            <Link href={`/u/${savedUsername}`} className="inline-block mt-1 text-sm text-blue-600 hover:underline">
+              公開プロフィールを見る →
+            </Link>
+          )}
+        </div>
         <div>
           <label className="block text-sm mb-1">自己紹介 <span className="text-xs text-zinc-500">（100字以内）</span></label>
           <textarea
@@ -0,0 +1,195 @@
+"use client";
+import { useEffect, useState } from "react";
+import { supabase } from "@/lib/supabaseClient";
+import { repository } from "@/lib/repository";
+import {
+  MIN_PREFERENCE_SAMPLES,
+  buildPreferenceModel,
+  rankCandidates,
+  suggestUntried,
+  type PreferenceModel,
+  type Recommendation,
+} from "@/lib/recommendation";
+import type { BeanStock } from "@/lib/types";
+import Link from "next/link";
+
+interface ErrorWithMessage {
+  message: string;
+}
+
+function isErrorWithMessage(error: unknown): error is ErrorWithMessage {
+  return (
+    typeof error === "object" &&
+    error !== null &&
+    "message" in error &&
+    typeof (error as Record<string, unknown>).message === "string"
+  );
+}
+
+// 予想評価と理由の表示
+function RecommendationDetail({ recommendation }: { recommendation: Recommendation }) {
+  return (
+    <div className="mt-2">
+      <div className="flex items-baseline gap-2">
+        <span className="text-amber-600 font-bold">予想 ★{recommendation.score.toFixed(1)}</span>
+        <span className="text-xs text-zinc-500">
+          {recommendation.basis > 0 ? `${recommendation.basis}杯の記録から` : "一般的な傾向からの見積もり"}
+        </span>
+      </div>
+      <ul className="mt-1 space-y-0.5 text-sm">
+        {recommendation.reasons.map(reason => (
+          <li key={reason.text} className="flex gap-1">
+            <span className={reason.effect >= 0 ? "text-green-600" : "text-red-600"}>
+              {reason.effect >= 0 ? "▲" : "▼"}
+            </span>
+            <span className="text-zinc-700">{reason.text}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+export default function RecommendationsPage() {
+  const [model, setModel] = useState<PreferenceModel | null>(null);
+  const [beans, setBeans] = useState<BeanStock[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchData = async () => {
+      try {
+        // ユーザー確認
+        const { data: { user } } = await supabase.auth.getUser();
+        if (!user) {
+          window.location.href = "/auth";
+          return;
+        }
+
+        const [samples, beanData] = await Promise.all([
+          repository.listPreferenceSamples(user.id),
+          repository.listBeanStock(user.id, { includeWishlist: true }),
+        ]);
+        setModel(buildPreferenceModel(samples));
+        setBeans(beanData);
+      } catch (err: unknown) {
+        if (isErrorWithMessage(err)) {
+          setError(err.message);
+        } else {
+          setError("未知のエラーが発生しました");
+        }
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchData();
+  }, []);
+
+  if (loading) {
+    return <div className="max-w-xl mx-auto py-12 px-4 text-center">読み込み中...</div>;
+  }
+
+  if (error) {
+    return (
+      <div className="max-w-xl mx-auto py-12 px-4">
+        <div className="text-red-600 mb-4">{error}</div>
+        <Link href="/" className="text-blue-600 hover:underline">← ホームに戻る</Link>
+      </div>
+    );
+  }
+
+  const rankedBeans = model ? rankCandidates(model, beans) : [];
+  const untried = model ? suggestUntried(model) : [];
+
+  return (
+    <div className="max-w-4xl mx-auto py-8 px-4">
+      <div className="flex items-center mb-2">
+        <Link href="/" className="text-zinc-600 mr-4 hover:text-zinc-900">
+          ← ホーム
+        </Link>
+        <h1 className="text-xl font-bold flex-1">あなたの好みに合いそうなコーヒー</h1>
+      </div>
+      <p className="text-sm text-zinc-500 mb-6">
+        これまでの記録の評価・味わい・産地・焙煎度・フレーバーから好みを推定しています
+      </p>
+
+      {!model ? (
+        <div className="text-center py-12 bg-white rounded-lg shadow-sm border">
+          <div className="text-zinc-500 mb-4">
+            記録が{MIN_PREFERENCE_SAMPLES}件以上になると、好みに合いそうなコーヒーを提案します
+          </div>
+          <Link
+            href="/record"
+            className="bg-amber-600 text-white px-4 py-2 rounded shadow hover:bg-amber-700 transition"
+          >
+            記録する
+          </Link>
+        </div>
+      ) : (
+        <>
+          {/* 在庫・欲しい豆の予想評価 */}
+          <section className="mb-10">
+            <h2 className="text-lg font-semibold mb-3">手持ちの豆・欲しい豆</h2>
+            {rankedBeans.length === 0 ? (
+              <div className="bg-white rounded-lg shadow-sm border p-6 text-sm text-zinc-500">
+                <Link href="/beans/new" className="text-blue-600 hover:underline">豆を登録</Link>
+                すると、好みに合いそうな順に並べます（まだ買っていない豆は「欲しい豆」として登録できます）
+              </div>
+            ) : (
+              <ul className="space-y-3">
+                {rankedBeans.map(({ candidate: bean, ...recommendation }) => (
+                  <li key={bean.id} className="bg-white rounded-lg shadow-sm border p-4">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <Link href={`/beans/${bean.id}`} className="font-bold text-blue-600 hover:underline">
+                        {bean.name}
+                      </Link>
+                      <span
+                        className={`text-xs px-2 py-0.5 rounded-full ${bean.wishlist ? "bg-amber-100 text-amber-800" : "bg-zinc-100"}`}
+                      >
+                        {bean.wishlist ? "欲しい豆" : "在庫"}
+                      </span>
+                      <span className="text-sm text-zinc-500">
+                        {[bean.origin, bean.roast_level].filter(Boolean).join("・")}
+                      </span>
+                    </div>
+                    <RecommendationDetail recommendation={recommendation} />
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+
+          {/* まだ試していない産地・焙煎度 */}
+          <section className="mb-10">
+            <h2 className="text-lg font-semibold mb-3">まだ試していない産地・焙煎度</h2>
+            {untried.length === 0 ? (
+              <div className="bg-white rounded-lg shadow-sm border p-6 text-sm text-zinc-500">
+                主な産地と焙煎度はすべて試しています
+              </div>
+            ) : (
+              <ul className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                {untried.map(suggestion => (
+                  <li key={suggestion.origin} className="bg-white rounded-lg shadow-sm border p-4">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="font-bold">
+                        {suggestion.roast_level}の{suggestion.origin}
+                      </span>
+                      {suggestion.newOrigin && (
+                        <span className="text-xs px-2 py-0.5 rounded-full bg-amber-100 text-amber-800">初めての産地</span>
+                      )}
+                      {suggestion.newRoast && (
+                        <span className="text-xs px-2 py-0.5 rounded-full bg-amber-100 text-amber-800">初めての焙煎度</span>
+                      )}
+                    </div>
+                    <RecommendationDetail recommendation={suggestion} />
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,12 @@
+"use client";
+import { useParams } from "next/navigation";
+import ShopForm from "@/components/shops/ShopForm";
+
+export default function EditShopPage() {
+  const params = useParams();
+  const shopId = Array.isArray(params.id) ? params.id[0] : params.id;
+
+  if (!shopId) return null;
+
+  return <ShopForm shopId={shopId} />;
+}
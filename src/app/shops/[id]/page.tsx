@@ -0,0 +1,258 @@
+"use client";
+import { useState, useEffect, useCallback } from "react";
+import { supabase } from "@/lib/supabaseClient";
+import { repository } from "@/lib/repository";
+import type { CoffeeEntry, ShopStats } from "@/lib/types";
+import { useParams, useRouter } from "next/navigation";
+import Link from "next/link";
+import ShopMap from "@/components/shops/ShopMap";
+
+interface ErrorWithMessage {
+  message: string;
+}
+
+function isErrorWithMessage(error: unknown): error is ErrorWithMessage {
+  return (
+    typeof error === "object" &&
+    error !== null &&
+    "message" in error &&
+    typeof (error as Record<string, unknown>).message === "string"
+  );
+}
+
+export default function ShopDetailPage() {
+  const params = useParams();
+  const router = useRouter();
+  const shopId = params.id as string;
+  const [shop, setShop] = useState<ShopStats | null>(null);
+  const [entries, setEntries] = useState<CoffeeEntry[]>([]);
+  // まとめる候補になる、ほかのお店
+  const [otherShops, setOtherShops] = useState<ShopStats[]>([]);
+  const [mergeSourceId, setMergeSourceId] = useState("");
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [deleting, setDeleting] = useState(false);
+  const [merging, setMerging] = useState(false);
+
+  const fetchShop = useCallback(async () => {
+    try {
+      // ユーザー確認
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) {
+        router.push("/auth");
+        return;
+      }
+
+      const [shopData, entryData, shopList] = await Promise.all([
+        repository.getShop(shopId),
+        repository.listEntriesByShop(user.id, shopId),
+        repository.listShops(user.id),
+      ]);
+      setShop(shopData);
+      setEntries(entryData);
+      setOtherShops(shopList.filter(item => item.id !== shopId));
+    } catch (err: unknown) {
+      if (isErrorWithMessage(err)) {
+        setError(err.message);
+      } else {
+        setError("未知のエラーが発生しました");
+      }
+    } finally {
+      setLoading(false);
+    }
+  }, [shopId, router]);
+
+  useEffect(() => {
+    if (shopId) {
+      fetchShop();
+    }
+  }, [shopId, fetchShop]);
+
+  const handleDelete = async () => {
+    if (!shop) return;
+    if (!window.confirm(`「${shop.name}」を削除しますか？このお店の記録は残ります。`)) return;
+
+    setDeleting(true);
+    try {
+      await repository.deleteShop(shop.id);
+      router.push("/shops");
+    } catch (err: unknown) {
+      if (isErrorWithMessage(err)) {
+        setError(err.message);
+      } else {
+        setError("未知のエラーが発生しました");
+      }
+      setDeleting(false);
+    }
+  };
+
+  // 別の表記で登録された同じお店の記録をこのお店に付け替えて、そのお店を削除する
+  const handleMerge = async () => {
+    const source = otherShops.find(item => item.id === mergeSourceId);
+    if (!shop || !source) return;
+    if (!window.confirm(`「${source.name}」の記録を「${shop.name}」にまとめ、「${source.name}」を削除しますか？`)) return;
+
+    setMerging(true);
+    try {
+      await repository.mergeShops(source.id, shop.id);
+      setMergeSourceId("");
+      await fetchShop();
+    } catch (err: unknown) {
+      if (isErrorWithMessage(err)) {
+        setError(err.message);
+      } else {
+        setError("未知のエラーが発生しました");
+      }
+    } finally {
+      setMerging(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="max-w-lg mx-auto py-12 px-4 text-center">読み込み中...</div>
+    );
+  }
+
+  if (error || !shop) {
+    return (
+      <div className="max-w-lg mx-auto py-12 px-4">
+        <div className="text-red-600 mb-4">{error || "お店が見つかりません"}</div>
+        <Link href="/shops" className="text-blue-600 hover:underline">
+          ← お店の一覧に戻る
+        </Link>
+      </div>
+    );
+  }
+
+  const avgRating = entries.length > 0
+    ? (entries.reduce((sum, entry) => sum + entry.rating, 0) / entries.length).toFixed(1)
+    : null;
+
+  return (
+    <div className="max-w-lg mx-auto py-8 px-4">
+      <div className="flex items-center mb-6">
+        <Link href="/shops" className="text-zinc-600 mr-4 hover:text-zinc-900">
+          ← 戻る
+        </Link>
+        <h1 className="text-xl font-bold flex-1">{shop.name}</h1>
+        <Link
+          href={`/shops/${shop.id}/edit`}
+          className="ml-2 px-3 py-1 border rounded text-sm hover:bg-zinc-100 transition"
+        >
+          編集
+        </Link>
+        <button
+          onClick={handleDelete}
+          disabled={deleting}
+          className="ml-2 px-3 py-1 border border-red-300 text-red-600 rounded text-sm hover:bg-red-50 transition disabled:opacity-50"
+        >
+          {deleting ? "削除中..." : "削除"}
+        </button>
+      </div>
+
+      {/* お店の情報 */}
+      <div className="bg-white rounded-lg shadow-sm border p-5 mb-6 space-y-4">
+        {shop.latitude !== null && shop.longitude !== null && (
+          <ShopMap
+            markers={[{ id: shop.id, label: shop.name, latitude: shop.latitude, longitude: shop.longitude }]}
+            height={240}
+          />
+        )}
+        <div className="grid grid-cols-2 gap-4">
+          {shop.address && (
+            <div className="col-span-2">
+              <div className="text-sm text-zinc-500">住所</div>
+              <div>{shop.address}</div>
+            </div>
+          )}
+          {shop.opening_notes && (
+            <div className="col-span-2">
+              <div className="text-sm text-zinc-500">営業時間・メモ</div>
+              <div className="whitespace-pre-wrap">{shop.opening_notes}</div>
+            </div>
+          )}
+          <div>
+            <div className="text-sm text-zinc-500">お店の評価</div>
+            <div className="text-amber-600">{shop.rating !== null ? "★".repeat(shop.rating) : <span className="text-zinc-400">未評価</span>}</div>
+          </div>
+          <div>
+            <div className="text-sm text-zinc-500">訪問</div>
+            <div>{entries.length}回</div>
+          </div>
+        </div>
+      </div>
+
+      {/* このお店の記録 */}
+      <div className="bg-white rounded-lg shadow-sm border p-5 mb-6">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-lg font-semibold">このお店で飲んだ記録</h2>
+          {avgRating && (
+            <span className="text-sm text-zinc-500">
+              {entries.length}杯 / 平均 <span className="text-amber-600 font-bold">★ {avgRating}</span>
+            </span>
+          )}
+        </div>
+
+        {entries.length === 0 ? (
+          <div className="text-zinc-500 text-sm">まだこのお店の記録はありません</div>
+        ) : (
+          <ul className="divide-y">
+            {entries.map(entry => (
+              <li key={entry.id}>
+                <Link href={`/entries/${entry.id}`} className="flex justify-between items-center py-2 hover:bg-zinc-50">
+                  <div>
+                    <div className="text-sm">{entry.bean_name}</div>
+                    <div className="text-xs text-zinc-500">
+                      {new Date(entry.created_at).toLocaleDateString("ja-JP")}・{entry.brew_method || "-"}
+                    </div>
+                  </div>
+                  <div className="text-amber-600">{"★".repeat(entry.rating)}</div>
+                </Link>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <Link
+          href={`/record?shop=${shop.id}`}
+          className="block mt-4 text-center bg-amber-600 text-white py-2 rounded hover:bg-amber-700 transition"
+        >
+          このお店で記録する
+        </Link>
+      </div>
+
+      {/* 同じお店をまとめる */}
+      {otherShops.length > 0 && (
+        <div className="bg-white rounded-lg shadow-sm border p-5 mb-6">
+          <h2 className="text-lg font-semibold mb-1">同じお店をまとめる</h2>
+          <div className="text-sm text-zinc-500 mb-3">
+            別の表記で登録された同じお店の記録をこのお店に移し、そのお店を削除します
+          </div>
+          <div className="flex gap-2">
+            <select
+              className="flex-1 border rounded px-3 py-2"
+              value={mergeSourceId}
+              onChange={(e) => setMergeSourceId(e.target.value)}
+            >
+              <option value="">お店を選択</option>
+              {otherShops.map(item => (
+                <option key={item.id} value={item.id}>
+                  {item.name}（{item.visit_count}回）
+                </option>
+              ))}
+            </select>
+            <button
+              type="button"
+              onClick={handleMerge}
+              disabled={!mergeSourceId || merging}
+              className="px-3 py-2 border rounded text-sm hover:bg-zinc-100 transition disabled:opacity-50"
+            >
+              {merging ? "まとめ中..." : "まとめる"}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
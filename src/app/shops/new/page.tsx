@@ -0,0 +1,6 @@
+"use client";
+import ShopForm from "@/components/shops/ShopForm";
+
+export default function NewShopPage() {
+  return <ShopForm />;
+}
@@ -0,0 +1,130 @@
+"use client";
+import { useEffect, useState } from "react";
+import { supabase } from "@/lib/supabaseClient";
+import { repository } from "@/lib/repository";
+import type { ShopStats } from "@/lib/types";
+import Link from "next/link";
+import ShopMap, { type MapMarker } from "@/components/shops/ShopMap";
+
+interface ErrorWithMessage {
+  message: string;
+}
+
+function isErrorWithMessage(error: unknown): error is ErrorWithMessage {
+  return (
+    typeof error === "object" &&
+    error !== null &&
+    "message" in error &&
+    typeof (error as Record<string, unknown>).message === "string"
+  );
+}
+
+export default function ShopsPage() {
+  const [shops, setShops] = useState<ShopStats[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchShops = async () => {
+      try {
+        // ユーザー確認
+        const { data: { user } } = await supabase.auth.getUser();
+        if (!user) {
+          window.location.href = "/auth";
+          return;
+        }
+
+        setShops(await repository.listShops(user.id));
+      } catch (err: unknown) {
+        if (isErrorWithMessage(err)) {
+          setError(err.message);
+        } else {
+          setError("未知のエラーが発生しました");
+        }
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchShops();
+  }, []);
+
+  if (loading) {
+    return <div className="max-w-xl mx-auto py-12 px-4 text-center">読み込み中...</div>;
+  }
+
+  if (error) {
+    return (
+      <div className="max-w-xl mx-auto py-12 px-4">
+        <div className="text-red-600 mb-4">{error}</div>
+        <Link href="/" className="text-blue-600 hover:underline">← ホームに戻る</Link>
+      </div>
+    );
+  }
+
+  // 位置が登録されているお店だけ地図に表示する
+  const markers: MapMarker[] = shops.flatMap(shop =>
+    shop.latitude !== null && shop.longitude !== null
+      ? [{ id: shop.id, label: shop.name, latitude: shop.latitude, longitude: shop.longitude, href: `/shops/${shop.id}` }]
+      : [],
+  );
+
+  return (
+    <div className="max-w-6xl mx-auto py-8 px-4">
+      <div className="flex items-center mb-6">
+        <Link href="/" className="text-zinc-600 mr-4 hover:text-zinc-900">
+          ← ホーム
+        </Link>
+        <h1 className="text-xl font-bold flex-1">お店</h1>
+        <Link
+          href="/shops/new"
+          className="px-3 py-2 rounded-md text-sm font-medium bg-amber-600 text-white hover:bg-amber-700"
+        >
+          お店を登録
+        </Link>
+      </div>
+
+      {shops.length === 0 ? (
+        <div className="text-center py-12 bg-white rounded-lg shadow-sm border">
+          <div className="text-zinc-500 mb-4">まだお店が登録されていません</div>
+          <div className="text-sm text-zinc-500">
+            お店で飲んだ記録を保存すると、店名からお店が自動で登録されます
+          </div>
+        </div>
+      ) : (
+        <>
+          {markers.length > 0 && (
+            <div className="mb-6">
+              <ShopMap markers={markers} height={360} />
+            </div>
+          )}
+
+          <ul className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+            {shops.map(shop => (
+              <li key={shop.id} className="bg-white rounded-lg shadow-sm border p-4 hover:shadow transition">
+                <Link href={`/shops/${shop.id}`} className="block">
+                  <div className="flex justify-between items-start gap-2">
+                    <h3 className="font-bold">{shop.name}</h3>
+                    {shop.rating !== null && (
+                      <span className="text-amber-600 text-sm whitespace-nowrap">{"★".repeat(shop.rating)}</span>
+                    )}
+                  </div>
+                  {shop.address && (
+                    <div className="text-sm text-zinc-500 mt-1">{shop.address}</div>
+                  )}
+                  <div className="text-xs text-zinc-500 mt-2">
+                    {shop.visit_count}回訪問
+                    {shop.avg_rating !== null && <>・平均 ★{shop.avg_rating.toFixed(1)}</>}
+                    {shop.last_visited_at && (
+                      <>・最終 {new Date(shop.last_visited_at).toLocaleDateString("ja-JP")}</>
+                    )}
+                  </div>
+                </Link>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,187 @@
+"use client";
+import { useState, useEffect, useCallback } from "react";
+import { supabase } from "@/lib/supabaseClient";
+import { repository } from "@/lib/repository";
+import { USERNAME_PATTERN } from "@/lib/constants";
+import type { ReactionCounts, TimelineEntry } from "@/lib/types";
+import { useRouter } from "next/navigation";
+import Link from "next/link";
+import PublicEntryCard from "@/components/entries/PublicEntryCard";
+
+interface ErrorWithMessage {
+  message: string;
+}
+
+function isErrorWithMessage(error: unknown): error is ErrorWithMessage {
+  return (
+    typeof error === "object" &&
+    error !== null &&
+    "message" in error &&
+    typeof (error as Record<string, unknown>).message === "string"
+  );
+}
+
+// 1回に読み込む記録の件数
+const PAGE_SIZE = 20;
+
+// フォローしているユーザーの記録（見られる範囲はDBのRLSで決まる）
+export default function TimelinePage() {
+  const router = useRouter();
+  const [userId, setUserId] = useState<string | null>(null);
+  const [entries, setEntries] = useState<TimelineEntry[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [username, setUsername] = useState("");
+  const [reactionCounts, setReactionCounts] = useState<Record<string, ReactionCounts>>({});
+
+  // いいね数・コメント数は記録の表示を待たせないよう後から取得する
+  const fetchReactionCounts = useCallback(async (entryIds: string[]) => {
+    try {
+      const counts = await repository.getReactionCounts(entryIds);
+      setReactionCounts(prev => ({ ...prev, ...counts }));
+    } catch (err) {
+      console.error("いいね数・コメント数の取得エラー:", err);
+    }
+  }, []);
+
+  useEffect(() => {
+    const fetchTimeline = async () => {
+      try {
+        // ユーザー確認
+        const { data: { user } } = await supabase.auth.getUser();
+        if (!user) {
+          router.push("/auth");
+          return;
+        }
+        setUserId(user.id);
+
+        const data = await repository.listTimeline(user.id, { limit: PAGE_SIZE });
+        setEntries(data);
+        setHasMore(data.length === PAGE_SIZE);
+        fetchReactionCounts(data.map(entry => entry.id));
+      } catch (err: unknown) {
+        if (isErrorWithMessage(err)) {
+          setError(err.message);
+        } else {
+          setError("未知のエラーが発生しました");
+        }
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchTimeline();
+  }, [router, fetchReactionCounts]);
+
+  // 表示している最後の記録より前の記録を読み込む
+  const loadMore = useCallback(async () => {
+    const last = entries[entries.length - 1];
+    if (!userId || !last) return;
+
+    setLoadingMore(true);
+    try {
+      const data = await repository.listTimeline(userId, { before: { createdAt: last.created_at, id: last.id }, limit: PAGE_SIZE });
+      setEntries(prev => [...prev, ...data]);
+      setHasMore(data.length === PAGE_SIZE);
+      fetchReactionCounts(data.map(entry => entry.id));
+    } catch (err: unknown) {
+      if (isErrorWithMessage(err)) {
+        setError(err.message);
+      } else {
+        setError("未知のエラーが発生しました");
+      }
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [userId, entries, fetchReactionCounts]);
+
+  const normalizedUsername = username.trim().replace(/^@/, "").toLowerCase();
+
+  const handleFindUser = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!USERNAME_PATTERN.test(normalizedUsername)) return;
+    router.push(`/u/${normalizedUsername}`);
+  };
+
+  if (loading) {
+    return <div className="max-w-xl mx-auto py-12 px-4 text-center">読み込み中...</div>;
+  }
+
+  if (error) {
+    return (
+      <div className="max-w-xl mx-auto py-12 px-4">
+        <div className="text-red-600 mb-4">{error}</div>
+        <Link href="/" className="text-blue-600 hover:underline">← ホームに戻る</Link>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-xl mx-auto py-8 px-4">
+      <div className="flex items-center mb-6">
+        <Link href="/" className="text-zinc-600 mr-4 hover:text-zinc-900">
+          ← ホーム
+        </Link>
+        <h1 className="text-xl font-bold flex-1">タイムライン</h1>
+      </div>
+
+      {/* ユーザー名から公開プロフィールを開く */}
+      <form onSubmit={handleFindUser} className="flex gap-2 mb-6">
+        <input
+          type="text"
+          className="flex-1 border rounded px-3 py-2"
+          value={username}
+          onChange={(e) => setUsername(e.target.value)}
+          placeholder="ユーザー名でさがす（例: coffee_lover）"
+          autoCapitalize="none"
+        />
+        <button
+          type="submit"
+          disabled={!USERNAME_PATTERN.test(normalizedUsername)}
+          className="px-3 py-2 border rounded text-sm hover:bg-zinc-100 transition disabled:opacity-50"
+        >
+          開く
+        </button>
+      </form>
+
+      {entries.length === 0 ? (
+        <div className="text-center py-12 bg-white rounded-lg shadow-sm border">
+          <div className="text-zinc-500 mb-2">まだ表示する記録がありません</div>
+          <div className="text-sm text-zinc-500">
+            ユーザーの公開プロフィールからフォローすると、その人の記録がここに表示されます
+          </div>
+        </div>
+      ) : (
+        <ul className="space-y-4">
+          {entries.map(entry => (
+            <li key={entry.id}>
+              <PublicEntryCard
+                entry={entry}
+                author={{
+                  nickname: entry.author_nickname,
+                  username: entry.author_username,
+                  avatarUrl: entry.author_avatar_url,
+                }}
+                counts={reactionCounts[entry.id]}
+              />
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {hasMore && (
+        <div className="text-center py-6">
+          <button
+            className="px-4 py-2 border rounded hover:bg-zinc-100 transition disabled:opacity-50"
+            onClick={loadMore}
+            disabled={loadingMore}
+          >
+            {loadingMore ? "読み込み中..." : "もっと見る"}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,309 @@
+"use client";
+import { useState, useEffect, useCallback } from "react";
+import { supabase } from "@/lib/supabaseClient";
+import { repository } from "@/lib/repository";
+import type { CoffeeEntry, FollowCounts, PublicEntryStats, ReactionCounts, UserProfile } from "@/lib/types";
+import { useParams } from "next/navigation";
+import Link from "next/link";
+import PublicEntryCard from "@/components/entries/PublicEntryCard";
+
+interface ErrorWithMessage {
+  message: string;
+}
+
+function isErrorWithMessage(error: unknown): error is ErrorWithMessage {
+  return (
+    typeof error === "object" &&
+    error !== null &&
+    "message" in error &&
+    typeof (error as Record<string, unknown>).message === "string"
+  );
+}
+
+// 1回に読み込む記録の件数
+const PAGE_SIZE = 24;
+
+// 公開プロフィール（ログインしていなくても見られる）
+export default function PublicProfilePage() {
+  const params = useParams();
+  const username = (params.username as string).toLowerCase();
+  const [profile, setProfile] = useState<UserProfile | null>(null);
+  const [stats, setStats] = useState<PublicEntryStats | null>(null);
+  const [entries, setEntries] = useState<CoffeeEntry[]>([]);
+  const [total, setTotal] = useState(0);
+  const [reactionCounts, setReactionCounts] = useState<Record<string, ReactionCounts>>({});
+  const [followCounts, setFollowCounts] = useState<FollowCounts>({ followers: 0, following: 0 });
+  // 見ている人（ログインしていなければ null）
+  const [viewerId, setViewerId] = useState<string | null>(null);
+  const [following, setFollowing] = useState(false);
+  const [blocking, setBlocking] = useState(false);
+  const [updating, setUpdating] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // 自分のプロフィールを見ている（非公開でも本人には表示する）
+  const isOwn = viewerId !== null && viewerId === profile?.id;
+
+  // いいね数・コメント数は記録の表示を待たせないよう後から取得する
+  const fetchReactionCounts = useCallback(async (entryIds: string[]) => {
+    try {
+      const counts = await repository.getReactionCounts(entryIds);
+      setReactionCounts(prev => ({ ...prev, ...counts }));
+    } catch (err) {
+      console.error("いいね数・コメント数の取得エラー:", err);
+    }
+  }, []);
+
+  const fetchProfile = useCallback(async () => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      setViewerId(user?.id ?? null);
+
+      const data = await repository.getProfileByUsername(username);
+      setProfile(data);
+      if (!data) return;
+
+      const [statsData, page, counts] = await Promise.all([
+        repository.getPublicEntryStats(data.id),
+        repository.listPublicEntries(data.id, { offset: 0, limit: PAGE_SIZE }),
+        repository.getFollowCounts(data.id),
+      ]);
+      setStats(statsData);
+      setEntries(page.entries);
+      setTotal(page.total);
+      setFollowCounts(counts);
+      fetchReactionCounts(page.entries.map(entry => entry.id));
+
+      if (user && user.id !== data.id) {
+        const [followingData, blockingData] = await Promise.all([
+          repository.isFollowing(user.id, data.id),
+          repository.isBlocking(user.id, data.id),
+        ]);
+        setFollowing(followingData);
+        setBlocking(blockingData);
+      }
+    } catch (err: unknown) {
+      if (isErrorWithMessage(err)) {
+        setError(err.message);
+      } else {
+        setError("未知のエラーが発生しました");
+      }
+    } finally {
+      setLoading(false);
+    }
+  }, [username, fetchReactionCounts]);
+
+  useEffect(() => {
+    fetchProfile();
+  }, [fetchProfile]);
+
+  const handleFollow = async () => {
+    if (!viewerId || !profile) return;
+    setUpdating(true);
+    try {
+      if (following) {
+        await repository.unfollow(viewerId, profile.id);
+      } else {
+        await repository.follow(viewerId, profile.id);
+      }
+      setFollowCounts(prev => ({ ...prev, followers: prev.followers + (following ? -1 : 1) }));
+      setFollowing(!following);
+    } catch (err: unknown) {
+      if (isErrorWithMessage(err)) {
+        setError(err.message);
+      } else {
+        setError("未知のエラーが発生しました");
+      }
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  // ブロックするとお互いのフォローが解除され、記録も見えなくなるので読み込み直す
+  const handleBlock = async () => {
+    if (!viewerId || !profile) return;
+    if (!blocking && !window.confirm(`${profile.nickname}さんをブロックしますか？お互いのフォローは解除されます。`)) return;
+
+    setUpdating(true);
+    try {
+      if (blocking) {
+        await repository.unblock(viewerId, profile.id);
+      } else {
+        await repository.block(viewerId, profile.id);
+      }
+      await fetchProfile();
+    } catch (err: unknown) {
+      if (isErrorWithMessage(err)) {
+        setError(err.message);
+      } else {
+        setError("未知のエラーが発生しました");
+      }
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  const loadMore = useCallback(async () => {
+    if (!profile) return;
+    setLoadingMore(true);
+    try {
+      const page = await repository.listPublicEntries(profile.id, { offset: entries.length, limit: PAGE_SIZE });
+      setEntries(prev => [...prev, ...page.entries]);
+      setTotal(page.total);
+      fetchReactionCounts(page.entries.map(entry => entry.id));
+    } catch (err: unknown) {
+      if (isErrorWithMessage(err)) {
+        setError(err.message);
+      } else {
+        setError("未知のエラーが発生しました");
+      }
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [profile, entries.length, fetchReactionCounts]);
+
+  if (loading) {
+    return <div className="max-w-4xl mx-auto py-12 px-4 text-center">読み込み中...</div>;
+  }
+
+  if (error || !profile) {
+    return (
+      <div className="max-w-4xl mx-auto py-12 px-4">
+        <div className="text-red-600 mb-4">{error || "ユーザーが見つからないか、プロフィールが公開されていません"}</div>
+        <Link href="/" className="text-blue-600 hover:underline">← ホームに戻る</Link>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-4xl mx-auto py-8 px-4">
+      {isOwn && !profile.is_public && (
+        <div className="mb-6 p-3 rounded border border-amber-300 bg-amber-50 text-sm text-amber-800">
+          このプロフィールは非公開です（あなたにだけ表示されています）。
+          <Link href="/profile" className="ml-1 underline">プロフィール設定で公開する</Link>
+        </div>
+      )}
+
+      {/* プロフィール */}
+      <div className="bg-white rounded-lg shadow-sm border p-5 mb-6">
+        <div className="flex items-center gap-4">
+          <div className="w-20 h-20 shrink-0 overflow-hidden rounded-full bg-zinc-200">
+            {profile.avatar_url ? (
+              <img src={profile.avatar_url} alt={profile.nickname} className="w-full h-full object-cover" />
+            ) : (
+              <div className="flex items-center justify-center w-full h-full text-2xl text-zinc-400">
+                {profile.nickname.slice(0, 1)}
+              </div>
+            )}
+          </div>
+          <div className="flex-1 min-w-0">
+            <h1 className="text-xl font-bold">{profile.nickname}</h1>
+            <div className="text-sm text-zinc-500">@{profile.username}</div>
+          </div>
+          {isOwn && (
+            <Link href="/profile" className="px-3 py-1 border rounded text-sm hover:bg-zinc-100 transition">
+              編集
+            </Link>
+          )}
+          {!isOwn && !viewerId && profile.is_public && (
+            <Link href="/auth" className="px-3 py-1 rounded text-sm bg-amber-600 text-white hover:bg-amber-700 transition">
+              ログインしてフォロー
+            </Link>
+          )}
+          {!isOwn && viewerId && !blocking && (following || profile.is_public) && (
+            <button
+              onClick={handleFollow}
+              disabled={updating}
+              className={`px-3 py-1 rounded text-sm transition disabled:opacity-50 ${
+                following ? "border hover:bg-zinc-100" : "bg-amber-600 text-white hover:bg-amber-700"
+              }`}
+            >
+              {following ? "フォロー中" : "フォローする"}
+            </button>
+          )}
+        </div>
+        <div className="mt-3 flex gap-4 text-sm text-zinc-600">
+          <span><span className="font-bold text-zinc-900">{followCounts.followers}</span> フォロワー</span>
+          <span><span className="font-bold text-zinc-900">{followCounts.following}</span> フォロー中</span>
+        </div>
+        {profile.bio && <p className="mt-4 whitespace-pre-wrap">{profile.bio}</p>}
+        {profile.favorite_types && profile.favorite_types.length > 0 && (
+          <div className="mt-3 flex flex-wrap gap-2">
+            {profile.favorite_types.map(type => (
+              <span key={type} className="text-xs px-2 py-1 bg-zinc-100 rounded-full">{type}</span>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {blocking && (
+        <div className="mb-6 p-3 rounded border bg-zinc-50 text-sm text-zinc-600">
+          このユーザーをブロックしています。お互いの記録は表示されません。
+        </div>
+      )}
+
+      {/* 公開の記録の集計 */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+        <div className="bg-white rounded-lg shadow-sm border p-4">
+          <div className="text-sm text-zinc-500">公開の記録</div>
+          <div className="text-2xl font-bold">{stats?.entry_count ?? 0}杯</div>
+        </div>
+        <div className="bg-white rounded-lg shadow-sm border p-4">
+          <div className="text-sm text-zinc-500">平均評価</div>
+          <div className="text-2xl font-bold text-amber-600">
+            {stats?.avg_rating != null ? `★ ${stats.avg_rating.toFixed(1)}` : "-"}
+          </div>
+        </div>
+        <div className="bg-white rounded-lg shadow-sm border p-4">
+          <div className="text-sm text-zinc-500">よく飲む産地</div>
+          <div className="text-lg font-bold truncate">{stats?.top_origin || "-"}</div>
+        </div>
+        <div className="bg-white rounded-lg shadow-sm border p-4">
+          <div className="text-sm text-zinc-500">よく使う抽出方法</div>
+          <div className="text-lg font-bold truncate">{stats?.top_brew_method || "-"}</div>
+        </div>
+      </div>
+
+      {/* 公開の記録 */}
+      <h2 className="text-lg font-semibold mb-3">記録</h2>
+      {entries.length === 0 ? (
+        <div className="text-center py-12 bg-white rounded-lg shadow-sm border text-zinc-500">
+          公開されている記録はまだありません
+        </div>
+      ) : (
+        <ul className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+          {entries.map(entry => (
+            <li key={entry.id}>
+              <PublicEntryCard entry={entry} counts={reactionCounts[entry.id]} />
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {entries.length < total && (
+        <div className="text-center py-6">
+          <button
+            className="px-4 py-2 border rounded hover:bg-zinc-100 transition disabled:opacity-50"
+            onClick={loadMore}
+            disabled={loadingMore}
+          >
+            {loadingMore ? "読み込み中..." : "もっと見る"}
+          </button>
+        </div>
+      )}
+
+      {!isOwn && viewerId && (
+        <div className="text-right mt-6">
+          <button
+            onClick={handleBlock}
+            disabled={updating}
+            className="text-sm text-zinc-500 hover:text-red-600 disabled:opacity-50"
+          >
+            {blocking ? "ブロックを解除" : "このユーザーをブロック"}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
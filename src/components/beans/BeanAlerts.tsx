@@ -0,0 +1,54 @@
+"use client";
+import Link from "next/link";
+import {
+  FRESHNESS_DAYS,
+  daysSinceRoast,
+  formatRemaining,
+  isLowStock,
+  isPastFreshness,
+} from "@/lib/beanStock";
+import type { BeanStock } from "@/lib/types";
+
+interface BeanAlertsProps {
+  beans: BeanStock[];
+}
+
+// 残りわずかの豆と、焙煎から日が経った豆を知らせる
+export default function BeanAlerts({ beans }: BeanAlertsProps) {
+  const lowStock = beans.filter(isLowStock);
+  const stale = beans.filter(bean => isPastFreshness(bean) && !isLowStock(bean));
+
+  if (lowStock.length === 0 && stale.length === 0) return null;
+
+  return (
+    <section className="mb-10">
+      <h2 className="text-lg font-semibold mb-2">豆の在庫</h2>
+      <ul className="space-y-2">
+        {lowStock.map(bean => (
+          <li key={bean.id} className="bg-amber-50 border border-amber-200 rounded-lg p-3">
+            <Link href={`/beans/${bean.id}`} className="flex justify-between items-center">
+              <div>
+                <div className="font-bold">{bean.name}</div>
+                <div className="text-sm text-amber-800">残りわずか・{formatRemaining(bean)}</div>
+              </div>
+              <span className="text-xs px-2 py-1 bg-amber-600 text-white rounded-full">買い足し</span>
+            </Link>
+          </li>
+        ))}
+        {stale.map(bean => (
+          <li key={bean.id} className="bg-zinc-100 border rounded-lg p-3">
+            <Link href={`/beans/${bean.id}`} className="flex justify-between items-center">
+              <div>
+                <div className="font-bold">{bean.name}</div>
+                <div className="text-sm text-zinc-600">
+                  焙煎から{daysSinceRoast(bean)}日経過（目安 {FRESHNESS_DAYS}日）・{formatRemaining(bean)}
+                </div>
+              </div>
+              <span className="text-xs px-2 py-1 bg-zinc-500 text-white rounded-full">鮮度注意</span>
+            </Link>
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+}
@@ -0,0 +1,261 @@
+"use client";
+import { useState, useEffect } from "react";
+import { supabase } from "@/lib/supabaseClient";
+import { repository } from "@/lib/repository";
+import { ROAST_LEVELS } from "@/lib/constants";
+import { parseNumber } from "@/lib/brewRecipe";
+import { normalizeFlavorNotes } from "@/lib/flavorWheel";
+import FlavorWheelPicker from "@/components/record/FlavorWheelPicker";
+import type { BeanInput } from "@/lib/types";
+import { useRouter } from "next/navigation";
+
+interface ErrorWithMessage {
+  message: string;
+}
+
+function isErrorWithMessage(error: unknown): error is ErrorWithMessage {
+  return (
+    typeof error === "object" &&
+    error !== null &&
+    "message" in error &&
+    typeof (error as Record<string, unknown>).message === "string"
+  );
+}
+
+interface BeanFormProps {
+  // 指定された場合は既存の豆の編集モードになる
+  beanId?: string;
+}
+
+export default function BeanForm({ beanId }: BeanFormProps) {
+  const router = useRouter();
+  const isEdit = Boolean(beanId);
+  const [loading, setLoading] = useState(false);
+  const [fetching, setFetching] = useState(isEdit);
+  const [error, setError] = useState<string | null>(null);
+
+  const [name, setName] = useState("");
+  const [roaster, setRoaster] = useState("");
+  const [origin, setOrigin] = useState("");
+  const [processMethod, setProcessMethod] = useState("");
+  const [variety, setVariety] = useState("");
+  const [altitude, setAltitude] = useState("");
+  const [roastLevel, setRoastLevel] = useState("");
+  const [roastDate, setRoastDate] = useState("");
+  const [purchaseDate, setPurchaseDate] = useState("");
+  const [price, setPrice] = useState("");
+  const [bagWeight, setBagWeight] = useState("");
+  const [wishlist, setWishlist] = useState(false);
+  const [flavorNotes, setFlavorNotes] = useState<string[]>([]);
+
+  // 編集モードでは既存の豆をフォームに読み込む
+  useEffect(() => {
+    if (!beanId) return;
+
+    const fetchBean = async () => {
+      try {
+        const data = await repository.getBean(beanId);
+
+        setName(data.name);
+        setRoaster(data.roaster || "");
+        setOrigin(data.origin || "");
+        setProcessMethod(data.process || "");
+        setVariety(data.variety || "");
+        setAltitude(data.altitude || "");
+        setRoastLevel(data.roast_level || "");
+        setRoastDate(data.roast_date || "");
+        setPurchaseDate(data.purchase_date || "");
+        setPrice(data.price?.toString() ?? "");
+        setBagWeight(data.bag_weight_g?.toString() ?? "");
+        setWishlist(data.wishlist);
+        setFlavorNotes(normalizeFlavorNotes(data.flavor_notes ?? []));
+      } catch (err: unknown) {
+        if (isErrorWithMessage(err)) {
+          setError(err.message);
+        } else {
+          setError("未知のエラーが発生しました");
+        }
+      } finally {
+        setFetching(false);
+      }
+    };
+
+    fetchBean();
+  }, [beanId]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setError(null);
+
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error("認証情報が見つかりません");
+
+      const values: BeanInput = {
+        name,
+        roaster: roaster || null,
+        origin: origin || null,
+        process: processMethod || null,
+        variety: variety || null,
+        altitude: altitude || null,
+        roast_level: roastLevel || null,
+        roast_date: roastDate || null,
+        purchase_date: purchaseDate || null,
+        price: parseNumber(price),
+        bag_weight_g: parseNumber(bagWeight),
+        wishlist,
+        flavor_notes: flavorNotes.length > 0 ? normalizeFlavorNotes(flavorNotes) : null,
+      };
+
+      const saved = beanId
+        ? await repository.updateBean(beanId, values)
+        : await repository.createBean(user.id, values);
+
+      router.push(`/beans/${saved.id}`);
+    } catch (err: unknown) {
+      if (isErrorWithMessage(err)) {
+        setError(err.message);
+      } else {
+        setError("未知のエラーが発生しました");
+      }
+      setLoading(false);
+    }
+  };
+
+  if (fetching) {
+    return (
+      <div className="max-w-lg mx-auto py-12 px-4 text-center">読み込み中...</div>
+    );
+  }
+
+  const textField = (
+    label: string,
+    value: string,
+    onChange: (value: string) => void,
+    placeholder?: string,
+  ) => (
+    <div>
+      <label className="block text-sm font-medium mb-1">{label}</label>
+      <input
+        type="text"
+        className="w-full border rounded px-3 py-2"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder={placeholder}
+      />
+    </div>
+  );
+
+  return (
+    <div className="max-w-lg mx-auto py-8 px-4">
+      <h1 className="text-xl font-bold mb-6">{isEdit ? "豆の編集" : "豆を登録"}</h1>
+
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div>
+          <label className="block text-sm font-medium mb-1">
+            豆の名前 <span className="text-red-500">*</span>
+          </label>
+          <input
+            type="text"
+            className="w-full border rounded px-3 py-2"
+            required
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+          />
+        </div>
+
+        <label className="flex items-center gap-2 text-sm">
+          <input
+            type="checkbox"
+            checked={wishlist}
+            onChange={(e) => setWishlist(e.target.checked)}
+          />
+          まだ購入していない（欲しい豆リストに入れる）
+        </label>
+
+        {textField("ロースター", roaster, setRoaster, "例: 〇〇珈琲")}
+        {textField("産地", origin, setOrigin, "例: エチオピア イルガチェフェ")}
+
+        <div className="grid grid-cols-2 gap-3">
+          {textField("精製方法", processMethod, setProcessMethod, "例: ウォッシュト")}
+          {textField("品種", variety, setVariety, "例: ゲイシャ")}
+        </div>
+
+        {textField("標高", altitude, setAltitude, "例: 1,900〜2,100m")}
+
+        <div>
+          <label className="block text-sm font-medium mb-1">焙煎度</label>
+          <div className="flex flex-wrap gap-2">
+            {ROAST_LEVELS.map(level => (
+              <button
+                key={level}
+                type="button"
+                className={`px-3 py-1 rounded-full border text-sm ${roastLevel === level ? "bg-zinc-700 text-white border-zinc-700" : "bg-zinc-100"}`}
+                onClick={() => setRoastLevel(roastLevel === level ? "" : level)}
+              >{level}</button>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium mb-1">フレーバー</label>
+          <div className="text-xs text-zinc-500 mb-2">ロースターの説明にあるフレーバー（おすすめの計算に使います）</div>
+          <FlavorWheelPicker value={flavorNotes} onChange={setFlavorNotes} />
+        </div>
+
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label className="block text-sm font-medium mb-1">焙煎日</label>
+            <input
+              type="date"
+              className="w-full border rounded px-3 py-2"
+              value={roastDate}
+              onChange={(e) => setRoastDate(e.target.value)}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium mb-1">購入日</label>
+            <input
+              type="date"
+              className="w-full border rounded px-3 py-2"
+              value={purchaseDate}
+              onChange={(e) => setPurchaseDate(e.target.value)}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium mb-1">価格 (円)</label>
+            <input
+              type="number"
+              min="0"
+              className="w-full border rounded px-3 py-2"
+              value={price}
+              onChange={(e) => setPrice(e.target.value)}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium mb-1">内容量 (g)</label>
+            <input
+              type="number"
+              min="0"
+              step="0.1"
+              className="w-full border rounded px-3 py-2"
+              value={bagWeight}
+              onChange={(e) => setBagWeight(e.target.value)}
+            />
+          </div>
+        </div>
+
+        {error && <div className="text-red-600 text-sm">{error}</div>}
+
+        <button
+          type="submit"
+          className="w-full bg-amber-600 text-white py-2 rounded hover:bg-amber-700 transition disabled:opacity-50"
+          disabled={loading}
+        >
+          {loading ? "保存中..." : isEdit ? "変更を保存" : "豆を登録"}
+        </button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,40 @@
+"use client";
+import {
+  CUPPING_CATEGORIES,
+  cuppingPenalty,
+  formatCuppingScore,
+} from "@/lib/cupping";
+import type { CuppingScores } from "@/lib/types";
+
+interface CuppingBreakdownProps {
+  scores: CuppingScores;
+  total: number | null;
+}
+
+// カッピングの項目ごとの点数と合計
+export default function CuppingBreakdown({ scores, total }: CuppingBreakdownProps) {
+  const penalty = cuppingPenalty(scores);
+
+  return (
+    <div>
+      <dl className="grid grid-cols-2 gap-x-6 text-sm">
+        {CUPPING_CATEGORIES.map(category => (
+          <div key={category.key} className="flex justify-between py-1 border-b border-zinc-100">
+            <dt className="text-zinc-600">{category.label}</dt>
+            <dd className="font-mono">{formatCuppingScore(scores[category.key])}</dd>
+          </div>
+        ))}
+        <div className="flex justify-between py-1 border-b border-zinc-100">
+          <dt className="text-zinc-600">欠点</dt>
+          <dd className={`font-mono ${penalty > 0 ? "text-red-600" : ""}`}>
+            {penalty > 0 ? `-${penalty}` : "0"}
+          </dd>
+        </div>
+      </dl>
+      <div className="flex justify-between items-baseline mt-3">
+        <span className="text-sm text-zinc-500">合計</span>
+        <span className="text-2xl font-bold text-amber-600">{formatCuppingScore(total)}</span>
+      </div>
+    </div>
+  );
+}
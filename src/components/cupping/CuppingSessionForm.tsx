@@ -0,0 +1,395 @@
+"use client";
+import { useState, useEffect, useRef } from "react";
+import { supabase } from "@/lib/supabaseClient";
+import { repository, type CuppingSampleInput } from "@/lib/repository";
+import { ROAST_LEVELS } from "@/lib/constants";
+import {
+  CUPPING_CATEGORIES,
+  CUPS_PER_SAMPLE,
+  DEFAULT_CUPPING_SCORES,
+  cuppingRating,
+  cuppingTotal,
+  formatCuppingScore,
+} from "@/lib/cupping";
+import { normalizeFlavorNotes } from "@/lib/flavorWheel";
+import type { Bean, CuppingScores } from "@/lib/types";
+import { useRouter } from "next/navigation";
+
+interface ErrorWithMessage {
+  message: string;
+}
+
+function isErrorWithMessage(error: unknown): error is ErrorWithMessage {
+  return (
+    typeof error === "object" &&
+    error !== null &&
+    "message" in error &&
+    typeof (error as Record<string, unknown>).message === "string"
+  );
+}
+
+// フォーム上のサンプル1件
+interface SampleDraft {
+  key: number;
+  beanId: string | null;
+  beanName: string;
+  beanOrigin: string;
+  roastLevel: string;
+  scores: CuppingScores;
+  flavors: string;
+  memo: string;
+}
+
+// 最初に表示するサンプル数
+const INITIAL_SAMPLE_COUNT = 3;
+
+// 今日の日付（ローカル時刻の YYYY-MM-DD）
+function today(): string {
+  const now = new Date();
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, "0")}-${String(now.getDate()).padStart(2, "0")}`;
+}
+
+// 採点が入力欄の範囲内か（範囲外の項目名を返す）
+function invalidCategories(scores: CuppingScores): string[] {
+  const invalid = CUPPING_CATEGORIES
+    .filter(({ key, min, max }) => !(scores[key] >= min && scores[key] <= max))
+    .map(({ label }) => label);
+  if (scores.taint_cups + scores.fault_cups > CUPS_PER_SAMPLE || scores.taint_cups < 0 || scores.fault_cups < 0) {
+    invalid.push("欠点");
+  }
+  return invalid;
+}
+
+function toSampleInput(sample: SampleDraft): CuppingSampleInput {
+  const flavors = normalizeFlavorNotes(sample.flavors.split(/[,、]/));
+  return {
+    bean_id: sample.beanId,
+    bean_name: sample.beanName,
+    bean_origin: sample.beanOrigin || null,
+    roast_level: sample.roastLevel || null,
+    shop_id: null,
+    shop: null,
+    brew_method: "カッピング",
+    made_by_user: true,
+    grind_size: null,
+    // 味わいの4軸はカッピングでは採点しないので既定値のまま（味わいの平均からは除く）
+    sourness: 3,
+    sweetness: 3,
+    bitterness: 3,
+    richness: 3,
+    flavor_notes: flavors.length > 0 ? flavors : null,
+    rating: cuppingRating(cuppingTotal(sample.scores)),
+    memo: sample.memo || null,
+    photos: null,
+    dose_g: null,
+    water_g: null,
+    water_temp_c: null,
+    brew_time_sec: null,
+    bloom_time_sec: null,
+    pour_steps: null,
+    visibility: "private",
+    cupping_scores: sample.scores,
+  };
+}
+
+export default function CuppingSessionForm() {
+  const router = useRouter();
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const [name, setName] = useState("");
+  const [heldOn, setHeldOn] = useState(today);
+  const [notes, setNotes] = useState("");
+  const [beans, setBeans] = useState<Bean[]>([]);
+
+  const nextKey = useRef(0);
+  const newSample = (): SampleDraft => ({
+    key: nextKey.current++,
+    beanId: null,
+    beanName: "",
+    beanOrigin: "",
+    roastLevel: "",
+    scores: { ...DEFAULT_CUPPING_SCORES },
+    flavors: "",
+    memo: "",
+  });
+  const [samples, setSamples] = useState<SampleDraft[]>(() =>
+    Array.from({ length: INITIAL_SAMPLE_COUNT }, newSample)
+  );
+
+  // 在庫の豆の一覧を取得
+  useEffect(() => {
+    const fetchBeans = async () => {
+      try {
+        const { data: { user } } = await supabase.auth.getUser();
+        if (!user) return;
+        setBeans(await repository.listBeans(user.id));
+      } catch (err) {
+        console.error("豆の取得エラー:", err);
+      }
+    };
+
+    fetchBeans();
+  }, []);
+
+  const updateSample = (key: number, changes: Partial<SampleDraft>) => {
+    setSamples(prev => prev.map(sample => (sample.key === key ? { ...sample, ...changes } : sample)));
+  };
+
+  const updateScore = (sample: SampleDraft, field: keyof CuppingScores, value: string) => {
+    updateSample(sample.key, { scores: { ...sample.scores, [field]: Number(value) } });
+  };
+
+  const applyBean = (sample: SampleDraft, bean: Bean | undefined) => {
+    updateSample(sample.key, {
+      beanId: bean?.id ?? null,
+      ...(bean && {
+        beanName: bean.name,
+        beanOrigin: bean.origin || "",
+        roastLevel: bean.roast_level || "",
+      }),
+    });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    for (const [index, sample] of samples.entries()) {
+      const invalid = invalidCategories(sample.scores);
+      if (invalid.length > 0) {
+        setError(`サンプル${index + 1}: ${invalid.join("・")}の点数が範囲外です`);
+        return;
+      }
+    }
+
+    setLoading(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error("認証情報が見つかりません");
+
+      const session = await repository.createCuppingSession(
+        user.id,
+        { name, held_on: heldOn, notes: notes || null },
+        samples.map(toSampleInput)
+      );
+      router.push(`/cupping/${session.id}`);
+    } catch (err: unknown) {
+      if (isErrorWithMessage(err)) {
+        setError(err.message);
+      } else {
+        setError("未知のエラーが発生しました");
+      }
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="max-w-3xl mx-auto py-8 px-4">
+      <h1 className="text-xl font-bold mb-6">カッピングセッション</h1>
+
+      <form onSubmit={handleSubmit} className="space-y-6">
+        {/* セッション情報 */}
+        <section className="space-y-4 bg-white rounded-lg shadow-sm border p-5">
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+            <div className="sm:col-span-2">
+              <label className="block text-sm font-medium mb-1">
+                セッション名 <span className="text-red-500">*</span>
+              </label>
+              <input
+                type="text"
+                className="w-full border rounded px-3 py-2"
+                required
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="例: 新入荷エチオピア比較"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium mb-1">開催日</label>
+              <input
+                type="date"
+                className="w-full border rounded px-3 py-2"
+                required
+                value={heldOn}
+                onChange={(e) => setHeldOn(e.target.value)}
+              />
+            </div>
+          </div>
+          <div>
+            <label className="block text-sm font-medium mb-1">メモ</label>
+            <textarea
+              className="w-full border rounded px-3 py-2"
+              rows={2}
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="抽出条件や一緒に参加した人など"
+            />
+          </div>
+        </section>
+
+        {/* サンプルごとの採点 */}
+        {samples.map((sample, index) => {
+          const total = cuppingTotal(sample.scores);
+          return (
+            <section key={sample.key} className="space-y-4 bg-white rounded-lg shadow-sm border p-5">
+              <div className="flex items-center justify-between">
+                <h2 className="text-lg font-semibold">サンプル {index + 1}</h2>
+                <div className="flex items-center gap-3">
+                  <span className="text-sm text-zinc-500">
+                    合計 <span className="text-xl font-bold text-amber-600">{formatCuppingScore(total)}</span>
+                  </span>
+                  {samples.length > 1 && (
+                    <button
+                      type="button"
+                      className="px-2 py-1 border border-red-300 text-red-600 rounded text-xs hover:bg-red-50"
+                      onClick={() => setSamples(prev => prev.filter(item => item.key !== sample.key))}
+                    >
+                      削除
+                    </button>
+                  )}
+                </div>
+              </div>
+
+              {beans.length > 0 && (
+                <div>
+                  <label className="block text-sm font-medium mb-1">在庫の豆から選ぶ</label>
+                  <select
+                    className="w-full border rounded px-3 py-2"
+                    value={sample.beanId ?? ""}
+                    onChange={(e) => applyBean(sample, beans.find(bean => bean.id === e.target.value))}
+                  >
+                    <option value="">選択しない（手入力）</option>
+                    {beans.map(bean => (
+                      <option key={bean.id} value={bean.id}>
+                        {bean.name}{bean.roaster ? `（${bean.roaster}）` : ""}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                <div>
+                  <label className="block text-sm font-medium mb-1">
+                    豆の名前 <span className="text-red-500">*</span>
+                  </label>
+                  <input
+                    type="text"
+                    className="w-full border rounded px-3 py-2"
+                    required
+                    value={sample.beanName}
+                    onChange={(e) => updateSample(sample.key, { beanName: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium mb-1">産地</label>
+                  <input
+                    type="text"
+                    className="w-full border rounded px-3 py-2"
+                    value={sample.beanOrigin}
+                    onChange={(e) => updateSample(sample.key, { beanOrigin: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium mb-1">焙煎度</label>
+                  <select
+                    className="w-full border rounded px-3 py-2"
+                    value={sample.roastLevel}
+                    onChange={(e) => updateSample(sample.key, { roastLevel: e.target.value })}
+                  >
+                    <option value="">未選択</option>
+                    {ROAST_LEVELS.map(level => (
+                      <option key={level} value={level}>{level}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 sm:grid-cols-5 gap-3">
+                {CUPPING_CATEGORIES.map(category => (
+                  <div key={category.key}>
+                    <label className="block text-xs font-medium mb-1 truncate">{category.label}</label>
+                    <input
+                      type="number"
+                      className="w-full border rounded px-2 py-1"
+                      min={category.min}
+                      max={category.max}
+                      step={category.step}
+                      value={sample.scores[category.key]}
+                      onChange={(e) => updateScore(sample, category.key, e.target.value)}
+                    />
+                  </div>
+                ))}
+              </div>
+
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-xs font-medium mb-1">テイントのカップ数（-2点/カップ）</label>
+                  <input
+                    type="number"
+                    className="w-full border rounded px-2 py-1"
+                    min={0}
+                    max={CUPS_PER_SAMPLE}
+                    value={sample.scores.taint_cups}
+                    onChange={(e) => updateScore(sample, "taint_cups", e.target.value)}
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-medium mb-1">フォルトのカップ数（-4点/カップ）</label>
+                  <input
+                    type="number"
+                    className="w-full border rounded px-2 py-1"
+                    min={0}
+                    max={CUPS_PER_SAMPLE}
+                    value={sample.scores.fault_cups}
+                    onChange={(e) => updateScore(sample, "fault_cups", e.target.value)}
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium mb-1">フレーバーノート（カンマ区切り）</label>
+                <input
+                  type="text"
+                  className="w-full border rounded px-3 py-2"
+                  value={sample.flavors}
+                  onChange={(e) => updateSample(sample.key, { flavors: e.target.value })}
+                  placeholder="例: ジャスミン, ピーチ"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium mb-1">メモ</label>
+                <textarea
+                  className="w-full border rounded px-3 py-2"
+                  rows={2}
+                  value={sample.memo}
+                  onChange={(e) => updateSample(sample.key, { memo: e.target.value })}
+                />
+              </div>
+            </section>
+          );
+        })}
+
+        <button
+          type="button"
+          className="w-full border border-dashed rounded py-2 text-sm text-zinc-600 hover:bg-zinc-50"
+          onClick={() => setSamples(prev => [...prev, newSample()])}
+        >
+          ＋ サンプルを追加
+        </button>
+
+        {error && <div className="text-red-600 text-sm">{error}</div>}
+
+        <button
+          type="submit"
+          className="w-full bg-amber-600 text-white py-2 rounded hover:bg-amber-700 transition disabled:opacity-50"
+          disabled={loading}
+        >
+          {loading ? "保存中..." : `${samples.length}件のサンプルを保存`}
+        </button>
+      </form>
+    </div>
+  );
+}
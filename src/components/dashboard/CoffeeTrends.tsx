@@ -13,6 +13,9 @@ import {
   type ChartTypeRegistry,
 } from "chart.js";
 import { Bar, Pie } from "react-chartjs-2";
+import type { CoffeeEntry } from "@/lib/types";
+import { averageTaste } from "@/lib/tasteProfile";
+import TasteRadar from "@/components/dashboard/TasteRadar";
 
 // Chart.jsの設定
 ChartJS.register(
@@ -28,25 +31,21 @@ ChartJS.register(
 // 日本語用設定
 ChartJS.defaults.font.family = "'Hiragino Sans', 'Hiragino Kaku Gothic ProN', 'Noto Sans JP', Meiryo, sans-serif";
 
-interface CoffeeEntry {
-  id: string;
-  bean_name: string;
-  bean_origin?: string;
-  roast_level?: string;
-  brew_method?: string;
-  rating: number;
-  sourness: number;
-  sweetness: number;
-  bitterness: number;
-  richness: number;
-  created_at: string;
-}
-
 interface CoffeeTrendsProps {
   entries: CoffeeEntry[];
+  // 月別記録数の最後の月と表示する月数（レポートでは対象期間に合わせる。1以下なら月別グラフは出さない）
+  endDate?: Date;
+  monthCount?: number;
+  // 印刷時に描画途中のグラフが出ないようアニメーションを切る
+  animate?: boolean;
 }
 
-export default function CoffeeTrends({ entries }: CoffeeTrendsProps) {
+export default function CoffeeTrends({
+  entries,
+  endDate,
+  monthCount = 6,
+  animate = true,
+}: CoffeeTrendsProps) {
   // 焙煎度の分布
   const roastLevelData = () => {
     const levels: Record<string, number> = {
@@ -120,12 +119,12 @@ export default function CoffeeTrends({ entries }: CoffeeTrendsProps) {
 
   // 月別記録数
   const monthlyData = () => {
-    // 過去6ヶ月分のデータを集計
+    // 過去の月ごとにデータを集計
     const months: Record<string, number> = {};
-    const now = new Date();
+    const now = endDate ?? new Date();
 
-    // 過去6ヶ月の月名を作成
-    for (let i = 5; i >= 0; i--) {
+    // 対象の月名を作成
+    for (let i = monthCount - 1; i >= 0; i--) {
       const d = new Date(now.getFullYear(), now.getMonth() - i, 1);
       const monthName = d.toLocaleDateString("ja-JP", { month: "short" });
       months[monthName] = 0;
@@ -136,7 +135,7 @@ export default function CoffeeTrends({ entries }: CoffeeTrendsProps) {
       const entryDate = new Date(entry.created_at);
       const monthName = entryDate.toLocaleDateString("ja-JP", { month: "short" });
 
-      // 過去6ヶ月のデータのみカウント
+      // 対象の月のデータのみカウント
       if (months[monthName] !== undefined) {
         months[monthName]++;
       }
@@ -156,41 +155,6 @@ export default function CoffeeTrends({ entries }: CoffeeTrendsProps) {
     };
   };
 
-  // 味の傾向（酸味・甘味・苦味・コク）の平均
-  const tasteProfileData = () => {
-    let sourness = 0;
-    let sweetness = 0;
-    let bitterness = 0;
-    let richness = 0;
-
-    for (const entry of entries) {
-      sourness += entry.sourness || 0;
-      sweetness += entry.sweetness || 0;
-      bitterness += entry.bitterness || 0;
-      richness += entry.richness || 0;
-    }
-
-    const count = entries.length || 1; // ゼロ除算回避
-
-    return {
-      labels: ["酸味", "甘味", "苦味", "コク"],
-      datasets: [
-        {
-          label: "味の傾向（平均）",
-          data: [
-            sourness / count,
-            sweetness / count,
-            bitterness / count,
-            richness / count,
-          ],
-          backgroundColor: "rgba(153, 102, 255, 0.6)",
-          borderColor: "rgba(153, 102, 255, 1)",
-          borderWidth: 1,
-        },
-      ],
-    };
-  };
-
   // 抽出方法の分布
   const brewMethodData = () => {
     const methods: Record<string, number> = {};
@@ -239,6 +203,7 @@ export default function CoffeeTrends({ entries }: CoffeeTrendsProps) {
   // グラフオプション
   const barOptions = {
     responsive: true,
+    animation: animate ? undefined : (false as const),
     plugins: {
       legend: {
         position: "top" as const,
@@ -261,6 +226,7 @@ export default function CoffeeTrends({ entries }: CoffeeTrendsProps) {
 
   const pieOptions = {
     responsive: true,
+    animation: animate ? undefined : (false as const),
     plugins: {
       legend: {
         position: "top" as const,
@@ -273,6 +239,9 @@ export default function CoffeeTrends({ entries }: CoffeeTrendsProps) {
     }
   };
 
+  // カッピングのサンプルは味の評価軸を入力しないため平均に含めない
+  const tasteAverage = averageTaste(entries.filter(entry => !entry.cupping_scores));
+
   // データが少ない場合のメッセージ
   if (entries.length < 3) {
     return (
@@ -300,27 +269,23 @@ export default function CoffeeTrends({ entries }: CoffeeTrendsProps) {
       </div>
 
       {/* 月別記録数 */}
-      <div className="p-4 bg-white rounded-lg shadow-sm border">
-        <h3 className="text-md font-semibold mb-3">月別記録数</h3>
-        <Bar data={monthlyData()} options={barOptions} />
-      </div>
+      {monthCount > 1 && (
+        <div className="p-4 bg-white rounded-lg shadow-sm border">
+          <h3 className="text-md font-semibold mb-3">月別記録数</h3>
+          <Bar data={monthlyData()} options={barOptions} />
+        </div>
+      )}
 
       {/* 味の傾向 */}
-      <div className="p-4 bg-white rounded-lg shadow-sm border">
-        <h3 className="text-md font-semibold mb-3">味の傾向（平均）</h3>
-        <Bar data={tasteProfileData()} options={{
-          ...barOptions,
-          scales: {
-            y: {
-              beginAtZero: true,
-              max: 5,
-              ticks: {
-                stepSize: 1
-              }
-            }
-          }
-        }} />
-      </div>
+      {tasteAverage && (
+        <div className="p-4 bg-white rounded-lg shadow-sm border">
+          <h3 className="text-md font-semibold mb-3">味の傾向（平均）</h3>
+          <TasteRadar
+            series={[{ label: "味の傾向（平均）", profile: tasteAverage }]}
+            animate={animate}
+          />
+        </div>
+      )}
 
       {/* 抽出方法の分布 */}
       {Object.keys(brewMethodData().labels).length > 0 && (
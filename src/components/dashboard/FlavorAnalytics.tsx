@@ -0,0 +1,230 @@
+"use client";
+import { useState } from "react";
+import {
+  Chart as ChartJS,
+  CategoryScale,
+  LinearScale,
+  BarElement,
+  Tooltip,
+  type TooltipItem,
+} from "chart.js";
+import { Bar } from "react-chartjs-2";
+import {
+  flavorHeatmap,
+  flavorPairs,
+  flavorStats,
+  type FlavorLevel,
+  type FlavorSample,
+} from "@/lib/flavorStats";
+
+ChartJS.register(CategoryScale, LinearScale, BarElement, Tooltip);
+
+// 平均評価のランキングに出すのに必要な記録数（1件だけのフレーバーは偶然の影響が大きいため）
+const MIN_COUNT_FOR_RATING = 2;
+// グラフ・一覧に出す件数
+const TOP_LIMIT = 10;
+
+interface FlavorAnalyticsProps {
+  entries: FlavorSample[];
+}
+
+// フレーバーノートの分析（よく出るフレーバー・評価との関係・組み合わせ・産地/焙煎度ごとの分布）
+export default function FlavorAnalytics({ entries }: FlavorAnalyticsProps) {
+  const [level, setLevel] = useState<FlavorLevel>("note");
+  const [heatmapKey, setHeatmapKey] = useState<"bean_origin" | "roast_level">("bean_origin");
+
+  const flavored = entries.filter(entry => (entry.flavor_notes?.length ?? 0) > 0);
+  if (flavored.length === 0) {
+    return (
+      <div className="p-6 bg-white rounded-lg shadow-sm border">
+        <h2 className="text-lg font-semibold mb-4">フレーバー分析</h2>
+        <div className="text-center py-8 text-zinc-500">
+          フレーバーノートを記録すると、よく感じるフレーバーや評価との関係が表示されます
+        </div>
+      </div>
+    );
+  }
+
+  const stats = flavorStats(flavored, level);
+  const topStats = stats.slice(0, TOP_LIMIT);
+  const overallRating = flavored.reduce((sum, entry) => sum + entry.rating, 0) / flavored.length;
+  const ratingRanking = stats
+    .filter(stat => stat.count >= MIN_COUNT_FOR_RATING)
+    .sort((a, b) => b.avgRating - a.avgRating || b.count - a.count)
+    .slice(0, TOP_LIMIT);
+  const pairs = flavorPairs(flavored, level, TOP_LIMIT);
+  const heatmap = flavorHeatmap(flavored, level, heatmapKey);
+
+  const frequencyData = {
+    labels: topStats.map(stat => stat.note),
+    datasets: [
+      {
+        label: "記録数",
+        data: topStats.map(stat => stat.count),
+        backgroundColor: "rgba(217, 119, 6, 0.6)",
+        borderColor: "rgba(217, 119, 6, 1)",
+        borderWidth: 1,
+      },
+    ],
+  };
+
+  const frequencyOptions = {
+    indexAxis: "y" as const,
+    responsive: true,
+    plugins: {
+      legend: { display: false },
+      tooltip: {
+        callbacks: {
+          label: (context: TooltipItem<"bar">) => `${context.parsed.x}件`,
+        },
+      },
+    },
+    scales: {
+      x: {
+        beginAtZero: true,
+        ticks: { precision: 0 },
+      },
+    },
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h2 className="text-lg font-semibold">フレーバー分析</h2>
+        <select
+          className="px-2 py-1 border rounded text-sm"
+          value={level}
+          onChange={e => setLevel(e.target.value as FlavorLevel)}
+        >
+          <option value="note">記録したフレーバーごと</option>
+          <option value="category">フレーバーホイールのカテゴリごと</option>
+        </select>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        {/* よく出るフレーバー */}
+        <div className="p-4 bg-white rounded-lg shadow-sm border">
+          <h3 className="text-md font-semibold mb-3">よく感じるフレーバー</h3>
+          <Bar data={frequencyData} options={frequencyOptions} />
+        </div>
+
+        {/* フレーバーごとの平均評価 */}
+        <div className="p-4 bg-white rounded-lg shadow-sm border">
+          <h3 className="text-md font-semibold mb-1">評価の高いフレーバー</h3>
+          <div className="text-xs text-zinc-500 mb-3">
+            {MIN_COUNT_FOR_RATING}件以上の記録があるもの。全体の平均は ★{overallRating.toFixed(1)}
+          </div>
+          {ratingRanking.length === 0 ? (
+            <div className="text-center py-8 text-zinc-500 text-sm">記録が増えると表示されます</div>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-zinc-500">
+                  <th className="py-1 font-normal">フレーバー</th>
+                  <th className="py-1 font-normal text-right">平均評価</th>
+                  <th className="py-1 font-normal text-right">全体比</th>
+                  <th className="py-1 font-normal text-right">★4以上</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y">
+                {ratingRanking.map(stat => {
+                  const diff = stat.avgRating - overallRating;
+                  return (
+                    <tr key={stat.note}>
+                      <td className="py-1">
+                        {stat.note}
+                        <span className="text-xs text-zinc-400 ml-1">({stat.count})</span>
+                      </td>
+                      <td className="py-1 text-right text-amber-600 font-medium">★{stat.avgRating.toFixed(1)}</td>
+                      <td className={`py-1 text-right ${diff > 0 ? "text-green-600" : diff < 0 ? "text-red-600" : "text-zinc-500"}`}>
+                        {diff > 0 ? "+" : ""}{diff.toFixed(1)}
+                      </td>
+                      <td className="py-1 text-right">{Math.round(stat.lovedRate * 100)}%</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        {/* 一緒に出てくるフレーバー */}
+        <div className="p-4 bg-white rounded-lg shadow-sm border">
+          <h3 className="text-md font-semibold mb-3">一緒に感じることが多いフレーバー</h3>
+          {pairs.length === 0 ? (
+            <div className="text-center py-8 text-zinc-500 text-sm">
+              1つの記録に複数のフレーバーを付けると表示されます
+            </div>
+          ) : (
+            <ul className="divide-y text-sm">
+              {pairs.map(pair => (
+                <li key={pair.notes.join("+")} className="flex justify-between items-center py-1">
+                  <span>
+                    <span className="px-2 py-0.5 bg-zinc-100 rounded-full">{pair.notes[0]}</span>
+                    <span className="mx-1 text-zinc-400">+</span>
+                    <span className="px-2 py-0.5 bg-zinc-100 rounded-full">{pair.notes[1]}</span>
+                  </span>
+                  <span className="text-zinc-500">{pair.count}件</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        {/* 産地・焙煎度ごとの分布 */}
+        <div className="p-4 bg-white rounded-lg shadow-sm border">
+          <div className="flex items-center justify-between mb-3">
+            <h3 className="text-md font-semibold">フレーバーの分布</h3>
+            <select
+              className="px-2 py-1 border rounded text-sm"
+              value={heatmapKey}
+              onChange={e => setHeatmapKey(e.target.value as "bean_origin" | "roast_level")}
+            >
+              <option value="bean_origin">産地別</option>
+              <option value="roast_level">焙煎度別</option>
+            </select>
+          </div>
+          {heatmap.groups.length === 0 ? (
+            <div className="text-center py-8 text-zinc-500 text-sm">
+              {heatmapKey === "bean_origin" ? "産地" : "焙煎度"}が入力された記録がありません
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="text-xs border-separate border-spacing-0.5">
+                <thead>
+                  <tr>
+                    <th />
+                    {heatmap.groups.map(group => (
+                      <th key={group} className="px-1 font-normal text-zinc-500 whitespace-nowrap">{group}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {heatmap.notes.map((note, noteIndex) => (
+                    <tr key={note}>
+                      <th className="pr-2 text-left font-normal whitespace-nowrap">{note}</th>
+                      {heatmap.groups.map((group, groupIndex) => {
+                        const count = heatmap.counts[noteIndex][groupIndex];
+                        const alpha = heatmap.max > 0 ? count / heatmap.max : 0;
+                        return (
+                          <td
+                            key={group}
+                            title={`${group} × ${note}: ${count}件`}
+                            className={`w-10 h-7 text-center rounded ${alpha > 0.6 ? "text-white" : "text-zinc-700"}`}
+                            style={{ backgroundColor: `rgba(217, 119, 6, ${count > 0 ? 0.1 + alpha * 0.9 : 0.04})` }}
+                          >
+                            {count > 0 ? count : ""}
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
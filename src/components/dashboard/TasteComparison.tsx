@@ -0,0 +1,97 @@
+"use client";
+import { useState } from "react";
+import type { TasteSample } from "@/lib/types";
+import {
+  groupTaste,
+  TASTE_GROUP_LABELS,
+  type TasteGroupKey,
+} from "@/lib/tasteProfile";
+import TasteRadar from "@/components/dashboard/TasteRadar";
+
+// 一度に重ねて表示できるグループ数
+const MAX_SELECTED_GROUPS = 5;
+
+interface TasteComparisonProps {
+  samples: TasteSample[];
+}
+
+// 産地・焙煎度・抽出方法ごとの味の平均をレーダーチャートで比較（例: エチオピア vs ブラジル）
+export default function TasteComparison({ samples }: TasteComparisonProps) {
+  const [groupKey, setGroupKey] = useState<TasteGroupKey>("bean_origin");
+  // 未選択（null）の間は記録数の多い2グループを比較する
+  const [selected, setSelected] = useState<string[] | null>(null);
+
+  const groups = groupTaste(samples, groupKey);
+  const selectedNames = selected ?? groups.slice(0, 2).map(group => group.name);
+  const selectedGroups = groups.filter(group => selectedNames.includes(group.name));
+
+  const toggleGroup = (name: string) => {
+    if (selectedNames.includes(name)) {
+      setSelected(selectedNames.filter(item => item !== name));
+    } else if (selectedNames.length < MAX_SELECTED_GROUPS) {
+      setSelected([...selectedNames, name]);
+    }
+  };
+
+  return (
+    <div className="p-4 bg-white rounded-lg shadow-sm border">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+        <h3 className="text-md font-semibold">味の比較</h3>
+        <select
+          className="px-2 py-1 border rounded text-sm"
+          value={groupKey}
+          onChange={e => {
+            setGroupKey(e.target.value as TasteGroupKey);
+            setSelected(null);
+          }}
+        >
+          {(Object.keys(TASTE_GROUP_LABELS) as TasteGroupKey[]).map(key => (
+            <option key={key} value={key}>{TASTE_GROUP_LABELS[key]}で比較</option>
+          ))}
+        </select>
+      </div>
+
+      {groups.length === 0 ? (
+        <div className="text-center py-8 text-zinc-500">
+          {TASTE_GROUP_LABELS[groupKey]}が入力された記録がありません
+        </div>
+      ) : (
+        <>
+          <div className="flex flex-wrap gap-2 mb-4">
+            {groups.map(group => {
+              const active = selectedNames.includes(group.name);
+              return (
+                <button
+                  key={group.name}
+                  type="button"
+                  onClick={() => toggleGroup(group.name)}
+                  disabled={!active && selectedNames.length >= MAX_SELECTED_GROUPS}
+                  className={`px-3 py-1 rounded-full border text-sm transition disabled:opacity-40 ${
+                    active ? "bg-amber-600 border-amber-600 text-white" : "text-zinc-700 hover:bg-zinc-100"
+                  }`}
+                >
+                  {group.name}（{group.count}）
+                </button>
+              );
+            })}
+          </div>
+
+          {selectedGroups.length === 0 ? (
+            <div className="text-center py-8 text-zinc-500">
+              比較する{TASTE_GROUP_LABELS[groupKey]}を選んでください（最大{MAX_SELECTED_GROUPS}つ）
+            </div>
+          ) : (
+            <div className="max-w-md mx-auto">
+              <TasteRadar
+                series={selectedGroups.map(group => ({
+                  label: `${group.name}（${group.count}件）`,
+                  profile: group.profile,
+                }))}
+              />
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
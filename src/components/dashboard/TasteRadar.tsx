@@ -0,0 +1,81 @@
+"use client";
+import {
+  Chart as ChartJS,
+  RadialLinearScale,
+  PointElement,
+  LineElement,
+  Filler,
+  Tooltip,
+  Legend,
+  type TooltipItem,
+} from "chart.js";
+import { Radar } from "react-chartjs-2";
+import { TASTE_AXES } from "@/lib/constants";
+import { tasteValues, type TasteProfile } from "@/lib/tasteProfile";
+
+ChartJS.register(RadialLinearScale, PointElement, LineElement, Filler, Tooltip, Legend);
+
+// 重ねて表示するときの色（順番に使う）
+const SERIES_COLORS = [
+  "217, 119, 6", // amber
+  "59, 130, 246", // blue
+  "16, 185, 129", // green
+  "168, 85, 247", // purple
+  "239, 68, 68", // red
+];
+
+export interface TasteSeries {
+  label: string;
+  profile: TasteProfile;
+  // 平均値などは破線で表示する
+  dashed?: boolean;
+}
+
+interface TasteRadarProps {
+  series: TasteSeries[];
+  animate?: boolean;
+}
+
+// 酸味・甘味・苦味・コクのレーダーチャート（複数の系列を重ねて比較できる）
+export default function TasteRadar({ series, animate = true }: TasteRadarProps) {
+  const data = {
+    labels: TASTE_AXES.map(axis => axis.label),
+    datasets: series.map((item, index) => {
+      const color = SERIES_COLORS[index % SERIES_COLORS.length];
+      return {
+        label: item.label,
+        data: tasteValues(item.profile),
+        backgroundColor: `rgba(${color}, ${item.dashed ? 0.05 : 0.2})`,
+        borderColor: `rgba(${color}, 1)`,
+        borderDash: item.dashed ? [5, 5] : [],
+        borderWidth: 2,
+        pointRadius: 3,
+      };
+    }),
+  };
+
+  const options = {
+    responsive: true,
+    animation: animate ? undefined : (false as const),
+    scales: {
+      r: {
+        min: 0,
+        max: 5,
+        ticks: { stepSize: 1 },
+      },
+    },
+    plugins: {
+      legend: {
+        position: "top" as const,
+      },
+      tooltip: {
+        callbacks: {
+          label: (context: TooltipItem<"radar">) =>
+            `${context.dataset.label}: ${Number(context.parsed.r).toFixed(1)}`,
+        },
+      },
+    },
+  };
+
+  return <Radar data={data} options={options} />;
+}
@@ -0,0 +1,265 @@
+"use client";
+import { useState, useEffect, useCallback } from "react";
+import Link from "next/link";
+import { repository } from "@/lib/repository";
+import type { EntryComment } from "@/lib/types";
+
+interface ErrorWithMessage {
+  message: string;
+}
+
+function isErrorWithMessage(error: unknown): error is ErrorWithMessage {
+  return (
+    typeof error === "object" &&
+    error !== null &&
+    "message" in error &&
+    typeof (error as Record<string, unknown>).message === "string"
+  );
+}
+
+// コメントの最大文字数（database_setup.sql の制約と同じ）
+const MAX_COMMENT_LENGTH = 1000;
+// これより深い返信は字下げしない（狭い画面で本文が細くなりすぎないように）
+const MAX_INDENT_DEPTH = 3;
+
+interface CommentNode extends EntryComment {
+  replies: CommentNode[];
+}
+
+// 返信を返信元の下にまとめる（返信元が見えない返信はスレッドの先頭として扱う）
+function buildThreads(comments: EntryComment[]): CommentNode[] {
+  const nodes = new Map<string, CommentNode>(
+    comments.map(comment => [comment.id, { ...comment, replies: [] }]),
+  );
+  const roots: CommentNode[] = [];
+  for (const node of nodes.values()) {
+    const parent = node.parent_id ? nodes.get(node.parent_id) : undefined;
+    if (parent) {
+      parent.replies.push(node);
+    } else {
+      roots.push(node);
+    }
+  }
+  return roots;
+}
+
+interface EntryCommentsProps {
+  entryId: string;
+  entryOwnerId: string;
+  // ログインしていなければ null（読むだけ）
+  viewerId: string | null;
+  commentsEnabled: boolean;
+}
+
+export default function EntryComments({
+  entryId,
+  entryOwnerId,
+  viewerId,
+  commentsEnabled,
+}: EntryCommentsProps) {
+  const [comments, setComments] = useState<EntryComment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [draft, setDraft] = useState("");
+  // 返信フォームを開いているコメント
+  const [replyTo, setReplyTo] = useState<string | null>(null);
+  const [replyDraft, setReplyDraft] = useState("");
+  const [posting, setPosting] = useState(false);
+
+  const fetchComments = useCallback(async () => {
+    try {
+      const data = await repository.listComments(entryId);
+      setComments(data);
+    } catch (err: unknown) {
+      if (isErrorWithMessage(err)) {
+        setError(err.message);
+      } else {
+        setError("未知のエラーが発生しました");
+      }
+    } finally {
+      setLoading(false);
+    }
+  }, [entryId]);
+
+  useEffect(() => {
+    fetchComments();
+  }, [fetchComments]);
+
+  const postComment = async (body: string, parentId: string | null) => {
+    if (!viewerId || !body.trim()) return;
+    setPosting(true);
+    setError(null);
+    try {
+      await repository.createComment(viewerId, { entryId, body: body.trim(), parentId });
+      if (parentId) {
+        setReplyTo(null);
+        setReplyDraft("");
+      } else {
+        setDraft("");
+      }
+      await fetchComments();
+    } catch (err: unknown) {
+      if (isErrorWithMessage(err)) {
+        setError(err.message);
+      } else {
+        setError("未知のエラーが発生しました");
+      }
+    } finally {
+      setPosting(false);
+    }
+  };
+
+  const handleDelete = async (comment: CommentNode) => {
+    const message = comment.replies.length > 0
+      ? "このコメントを削除しますか？返信もすべて削除されます。"
+      : "このコメントを削除しますか？";
+    if (!window.confirm(message)) return;
+
+    setError(null);
+    try {
+      await repository.deleteComment(comment.id);
+      await fetchComments();
+    } catch (err: unknown) {
+      if (isErrorWithMessage(err)) {
+        setError(err.message);
+      } else {
+        setError("未知のエラーが発生しました");
+      }
+    }
+  };
+
+  const canPost = viewerId !== null && commentsEnabled;
+
+  const renderComment = (comment: CommentNode, depth: number) => (
+    <li key={comment.id}>
+      <div className="py-2">
+        <div className="flex items-center gap-2 text-sm">
+          <div className="w-6 h-6 shrink-0 overflow-hidden rounded-full bg-zinc-200">
+            {comment.author_avatar_url ? (
+              <img src={comment.author_avatar_url} alt="" className="w-full h-full object-cover" />
+            ) : (
+              <div className="flex items-center justify-center w-full h-full text-xs text-zinc-400">
+                {(comment.author_nickname || "?").slice(0, 1)}
+              </div>
+            )}
+          </div>
+          {comment.author_username ? (
+            <Link href={`/u/${comment.author_username}`} className="font-medium hover:underline">
+              {comment.author_nickname}
+            </Link>
+          ) : (
+            <span className="font-medium">{comment.author_nickname || "退会したユーザー"}</span>
+          )}
+          {comment.user_id === entryOwnerId && (
+            <span className="text-xs px-1.5 py-0.5 bg-amber-50 text-amber-800 rounded">記録した人</span>
+          )}
+          <span className="text-xs text-zinc-400">{new Date(comment.created_at).toLocaleString("ja-JP")}</span>
+        </div>
+        <p className="mt-1 ml-8 text-sm whitespace-pre-wrap break-words">{comment.body}</p>
+        <div className="mt-1 ml-8 flex gap-3 text-xs text-zinc-500">
+          {canPost && (
+            <button
+              type="button"
+              className="hover:text-zinc-900"
+              onClick={() => {
+                setReplyTo(replyTo === comment.id ? null : comment.id);
+                setReplyDraft("");
+              }}
+            >
+              返信
+            </button>
+          )}
+          {viewerId !== null && (viewerId === comment.user_id || viewerId === entryOwnerId) && (
+            <button type="button" className="hover:text-red-600" onClick={() => handleDelete(comment)}>
+              削除
+            </button>
+          )}
+        </div>
+        {replyTo === comment.id && (
+          <form
+            className="mt-2 ml-8 flex gap-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              postComment(replyDraft, comment.id);
+            }}
+          >
+            <textarea
+              className="flex-1 border rounded px-3 py-2 text-sm"
+              rows={2}
+              maxLength={MAX_COMMENT_LENGTH}
+              value={replyDraft}
+              onChange={(e) => setReplyDraft(e.target.value)}
+              placeholder={`${comment.author_nickname || ""}さんに返信`}
+            />
+            <button
+              type="submit"
+              disabled={posting || !replyDraft.trim()}
+              className="self-end px-3 py-2 rounded text-sm bg-amber-600 text-white hover:bg-amber-700 disabled:opacity-50"
+            >
+              返信
+            </button>
+          </form>
+        )}
+      </div>
+      {comment.replies.length > 0 && (
+        <ul className={depth < MAX_INDENT_DEPTH ? "ml-3 pl-3 border-l" : ""}>
+          {comment.replies.map(reply => renderComment(reply, depth + 1))}
+        </ul>
+      )}
+    </li>
+  );
+
+  const threads = buildThreads(comments);
+
+  return (
+    <div>
+      {loading ? (
+        <div className="text-sm text-zinc-500">読み込み中...</div>
+      ) : threads.length === 0 ? (
+        <div className="text-sm text-zinc-500">まだコメントはありません</div>
+      ) : (
+        <ul className="divide-y">
+          {threads.map(thread => renderComment(thread, 0))}
+        </ul>
+      )}
+
+      {error && <div className="text-red-600 text-sm mt-2">{error}</div>}
+
+      {!commentsEnabled ? (
+        <div className="mt-4 text-sm text-zinc-500">この記録はコメントを受け付けていません</div>
+      ) : viewerId === null ? (
+        <div className="mt-4 text-sm">
+          <Link href="/auth" className="text-blue-600 hover:underline">ログイン</Link>
+          するとコメントできます
+        </div>
+      ) : (
+        <form
+          className="mt-4 space-y-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            postComment(draft, null);
+          }}
+        >
+          <textarea
+            className="w-full border rounded px-3 py-2 text-sm"
+            rows={3}
+            maxLength={MAX_COMMENT_LENGTH}
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            placeholder="コメントを書く"
+          />
+          <div className="flex justify-between items-center">
+            <span className="text-xs text-zinc-400">{draft.length}/{MAX_COMMENT_LENGTH}</span>
+            <button
+              type="submit"
+              disabled={posting || !draft.trim()}
+              className="px-4 py-2 rounded text-sm bg-amber-600 text-white hover:bg-amber-700 disabled:opacity-50"
+            >
+              {posting ? "送信中..." : "コメントする"}
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,73 @@
+"use client";
+import { useState, useEffect } from "react";
+import { Heart } from "lucide-react";
+import { repository } from "@/lib/repository";
+
+interface LikeButtonProps {
+  entryId: string;
+  // ログインしていなければ null（数だけ表示する）
+  viewerId: string | null;
+  initialCount: number;
+}
+
+export default function LikeButton({ entryId, viewerId, initialCount }: LikeButtonProps) {
+  const [liked, setLiked] = useState(false);
+  const [count, setCount] = useState(initialCount);
+  const [updating, setUpdating] = useState(false);
+
+  useEffect(() => {
+    setCount(initialCount);
+  }, [initialCount]);
+
+  useEffect(() => {
+    if (!viewerId) return;
+
+    const fetchLiked = async () => {
+      try {
+        setLiked(await repository.isLiked(viewerId, entryId));
+      } catch (err) {
+        console.error("いいねの取得エラー:", err);
+      }
+    };
+
+    fetchLiked();
+  }, [viewerId, entryId]);
+
+  // 先に表示を切り替え、保存に失敗したら元に戻す
+  const toggle = async () => {
+    if (!viewerId) return;
+    const next = !liked;
+    setUpdating(true);
+    setLiked(next);
+    setCount(prev => prev + (next ? 1 : -1));
+    try {
+      if (next) {
+        await repository.like(viewerId, entryId);
+      } else {
+        await repository.unlike(viewerId, entryId);
+      }
+    } catch (err) {
+      console.error("いいねの保存エラー:", err);
+      setLiked(!next);
+      setCount(prev => prev + (next ? -1 : 1));
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  return (
+    <button
+      type="button"
+      onClick={toggle}
+      disabled={!viewerId || updating}
+      className={`flex items-center gap-1 px-3 py-1 border rounded-full text-sm transition disabled:cursor-default ${
+        liked ? "border-amber-300 text-amber-700 bg-amber-50" : "text-zinc-600 hover:bg-zinc-100"
+      }`}
+      aria-pressed={liked}
+      aria-label={liked ? "いいねを取り消す" : "いいね"}
+    >
+      <Heart className={`w-4 h-4 ${liked ? "fill-amber-500 text-amber-500" : ""}`} />
+      {count}
+    </button>
+  );
+}
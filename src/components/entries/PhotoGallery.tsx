@@ -0,0 +1,130 @@
+"use client";
+import { useState, useEffect, useRef, useCallback } from "react";
+import { ChevronLeft, ChevronRight, X } from "lucide-react";
+import { getThumbnailUrl } from "@/lib/photoStorage";
+
+interface PhotoGalleryProps {
+  photos: string[];
+}
+
+// スワイプと判定する横方向の移動量(px)
+const SWIPE_THRESHOLD = 50;
+
+export default function PhotoGallery({ photos }: PhotoGalleryProps) {
+  const [openIndex, setOpenIndex] = useState<number | null>(null);
+  const touchStartX = useRef<number | null>(null);
+
+  const close = () => setOpenIndex(null);
+
+  const showPrev = useCallback(() => {
+    setOpenIndex(i => (i === null ? i : (i - 1 + photos.length) % photos.length));
+  }, [photos.length]);
+
+  const showNext = useCallback(() => {
+    setOpenIndex(i => (i === null ? i : (i + 1) % photos.length));
+  }, [photos.length]);
+
+  // キーボード操作（←/→/Esc）
+  useEffect(() => {
+    if (openIndex === null) return;
+
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key === "ArrowLeft") showPrev();
+      else if (e.key === "ArrowRight") showNext();
+      else if (e.key === "Escape") setOpenIndex(null);
+    };
+
+    window.addEventListener("keydown", handleKey);
+    return () => window.removeEventListener("keydown", handleKey);
+  }, [openIndex, showPrev, showNext]);
+
+  const handleTouchStart = (e: React.TouchEvent) => {
+    touchStartX.current = e.touches[0].clientX;
+  };
+
+  const handleTouchEnd = (e: React.TouchEvent) => {
+    if (touchStartX.current === null) return;
+    const deltaX = e.changedTouches[0].clientX - touchStartX.current;
+    touchStartX.current = null;
+
+    if (deltaX > SWIPE_THRESHOLD) showPrev();
+    else if (deltaX < -SWIPE_THRESHOLD) showNext();
+  };
+
+  return (
+    <>
+      <div className={`grid gap-2 ${photos.length === 1 ? "grid-cols-1" : "grid-cols-3"}`}>
+        {photos.map((photo, index) => (
+          <button
+            key={`photo-${photo}`}
+            type="button"
+            onClick={() => setOpenIndex(index)}
+            className={`relative rounded overflow-hidden ${photos.length === 1 ? "pb-[75%]" : "pb-[100%]"}`}
+          >
+            <img
+              src={photos.length === 1 ? photo : getThumbnailUrl(photo)}
+              alt={`コーヒー写真 ${index + 1}`}
+              className="absolute inset-0 w-full h-full object-cover"
+            />
+          </button>
+        ))}
+      </div>
+
+      {/* ライトボックス */}
+      {openIndex !== null && (
+        <div
+          className="fixed inset-0 z-50 bg-black/90 flex items-center justify-center"
+          onClick={close}
+          onTouchStart={handleTouchStart}
+          onTouchEnd={handleTouchEnd}
+        >
+          <img
+            src={photos[openIndex]}
+            alt={`コーヒー写真 ${openIndex + 1}`}
+            className="max-w-full max-h-full object-contain select-none"
+            onClick={(e) => e.stopPropagation()}
+          />
+
+          <button
+            type="button"
+            onClick={close}
+            className="absolute top-4 right-4 text-white p-2"
+            aria-label="閉じる"
+          >
+            <X className="w-6 h-6" />
+          </button>
+
+          {photos.length > 1 && (
+            <>
+              <button
+                type="button"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  showPrev();
+                }}
+                className="absolute left-2 text-white p-2"
+                aria-label="前の写真"
+              >
+                <ChevronLeft className="w-8 h-8" />
+              </button>
+              <button
+                type="button"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  showNext();
+                }}
+                className="absolute right-2 text-white p-2"
+                aria-label="次の写真"
+              >
+                <ChevronRight className="w-8 h-8" />
+              </button>
+              <div className="absolute bottom-4 text-white text-sm">
+                {openIndex + 1} / {photos.length}
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,82 @@
+import Link from "next/link";
+import { getThumbnailUrl } from "@/lib/photoStorage";
+import type { CoffeeEntry, ReactionCounts } from "@/lib/types";
+import ReactionSummary from "@/components/entries/ReactionSummary";
+
+export interface EntryAuthor {
+  nickname: string;
+  username: string | null;
+  avatarUrl: string | null;
+}
+
+interface PublicEntryCardProps {
+  entry: CoffeeEntry;
+  // タイムラインでは投稿者を表示する
+  author?: EntryAuthor;
+  counts?: ReactionCounts;
+}
+
+// 他のユーザーにも見せる記録のカード（写真・評価・フレーバー）
+export default function PublicEntryCard({ entry, author, counts }: PublicEntryCardProps) {
+  return (
+    <div className="bg-white rounded-lg shadow-sm border hover:shadow transition">
+      {author && (
+        <div className="flex items-center gap-2 px-4 pt-3 pb-2 text-sm">
+          <div className="w-7 h-7 shrink-0 overflow-hidden rounded-full bg-zinc-200">
+            {author.avatarUrl ? (
+              <img src={author.avatarUrl} alt={author.nickname} className="w-full h-full object-cover" />
+            ) : (
+              <div className="flex items-center justify-center w-full h-full text-zinc-400">
+                {author.nickname.slice(0, 1)}
+              </div>
+            )}
+          </div>
+          {author.username ? (
+            <Link href={`/u/${author.username}`} className="font-medium hover:underline">
+              {author.nickname}
+            </Link>
+          ) : (
+            <span className="font-medium">{author.nickname}</span>
+          )}
+        </div>
+      )}
+      <Link href={`/entries/${entry.id}`} className="block p-4">
+        {entry.photos && entry.photos.length > 0 && (
+          <div className={`relative pb-[56%] -mx-4 mb-3 ${author ? "" : "-mt-4"}`}>
+            <img
+              src={getThumbnailUrl(entry.photos[0])}
+              alt={entry.bean_name}
+              loading="lazy"
+              className={`absolute inset-0 w-full h-full object-cover ${author ? "" : "rounded-t-lg"}`}
+            />
+          </div>
+        )}
+        <div className="flex justify-between items-start gap-2">
+          <div>
+            <h3 className="font-bold">{entry.bean_name}</h3>
+            <div className="text-sm text-zinc-500 mt-1">
+              {new Date(entry.created_at).toLocaleDateString("ja-JP")}
+              {!entry.made_by_user && entry.shop && <>・{entry.shop}</>}
+            </div>
+          </div>
+          <div className="text-amber-600 whitespace-nowrap">{"★".repeat(entry.rating)}</div>
+        </div>
+        <div className="mt-3 flex flex-wrap gap-2">
+          {entry.bean_origin && (
+            <span className="text-xs px-2 py-1 bg-zinc-100 rounded-full">{entry.bean_origin}</span>
+          )}
+          {entry.roast_level && (
+            <span className="text-xs px-2 py-1 bg-zinc-100 rounded-full">{entry.roast_level}</span>
+          )}
+          {entry.brew_method && (
+            <span className="text-xs px-2 py-1 bg-zinc-100 rounded-full">{entry.brew_method}</span>
+          )}
+          {entry.flavor_notes?.map(note => (
+            <span key={note} className="text-xs px-2 py-1 bg-amber-50 text-amber-800 rounded-full">{note}</span>
+          ))}
+        </div>
+        <ReactionSummary counts={counts} />
+      </Link>
+    </div>
+  );
+}
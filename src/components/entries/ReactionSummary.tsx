@@ -0,0 +1,25 @@
+import { Heart, MessageCircle } from "lucide-react";
+import type { ReactionCounts } from "@/lib/types";
+
+interface ReactionSummaryProps {
+  // いいねもコメントもない記録は undefined
+  counts?: ReactionCounts;
+}
+
+// 記録カードに表示するいいね数・コメント数
+export default function ReactionSummary({ counts }: ReactionSummaryProps) {
+  if (!counts || (counts.like_count === 0 && counts.comment_count === 0)) return null;
+
+  return (
+    <div className="mt-3 flex gap-3 text-xs text-zinc-500">
+      <span className="flex items-center gap-1" title="いいね">
+        <Heart className="w-3.5 h-3.5" />
+        {counts.like_count}
+      </span>
+      <span className="flex items-center gap-1" title="コメント">
+        <MessageCircle className="w-3.5 h-3.5" />
+        {counts.comment_count}
+      </span>
+    </div>
+  );
+}
@@ -3,28 +3,22 @@ import { useState, useEffect } from "react";
 import Link from "next/link";
 import Image from "next/image";
 import { supabase } from "@/lib/supabaseClient";
-import { Menu, Coffee, BarChart, User, LogOut } from "lucide-react";
-
-interface UserProfile {
-  id: string;
-  nickname: string;
-  avatar_url: string | null;
-}
+import { repository } from "@/lib/repository";
+import { SAVED_SEARCHES_CHANGED_EVENT } from "@/lib/entryFilterParams";
+import type { SavedSearch, UserProfile } from "@/lib/types";
+import { Menu, Coffee, BarChart, User, LogOut, Pin } from "lucide-react";
 
 export default function Header() {
   const [isMenuOpen, setIsMenuOpen] = useState(false);
   const [isLoggedIn, setIsLoggedIn] = useState(false);
-  const [userProfile, setUserProfile] = useState<UserProfile | null>(null);
+  const [userProfile, setUserProfile] = useState<Pick<UserProfile, "id" | "nickname" | "avatar_url"> | null>(null);
   const [loading, setLoading] = useState(true);
+  const [pinnedSearches, setPinnedSearches] = useState<SavedSearch[]>([]);
 
   // プロフィール情報を取得する関数
   const fetchUserProfile = async (userId: string) => {
     try {
-      const { data } = await supabase
-        .from('users')
-        .select('id, nickname, avatar_url')
-        .eq('id', userId)
-        .single();
+      const data = await repository.getProfile(userId);
 
       if (data) {
         setUserProfile(data);
@@ -84,6 +78,30 @@ export default function Header() {
     };
   }, []);
 
+  // ピン留めした検索（記録一覧でピン留めが変わったら取得し直す）
+  useEffect(() => {
+    if (!isLoggedIn) {
+      setPinnedSearches([]);
+      return;
+    }
+
+    const fetchPinnedSearches = async () => {
+      try {
+        const { data: { user } } = await supabase.auth.getUser();
+        if (!user) return;
+        setPinnedSearches(await repository.listSavedSearches(user.id, { pinnedOnly: true }));
+      } catch (error) {
+        console.error('保存した検索の取得エラー:', error);
+      }
+    };
+
+    fetchPinnedSearches();
+    window.addEventListener(SAVED_SEARCHES_CHANGED_EVENT, fetchPinnedSearches);
+    return () => {
+      window.removeEventListener(SAVED_SEARCHES_CHANGED_EVENT, fetchPinnedSearches);
+    };
+  }, [isLoggedIn]);
+
   const handleLogout = async () => {
     try {
       await supabase.auth.signOut();
@@ -95,7 +113,7 @@ export default function Header() {
   };
 
   return (
-    <header className="bg-white border-b sticky top-0 z-10">
+    <header className="bg-white border-b sticky top-0 z-10 print:hidden">
       <div className="max-w-6xl mx-auto px-4">
         <div className="flex items-center justify-between h-16">
           {/* ロゴ */}
@@ -114,6 +132,21 @@ export default function Header() {
                 <Link href="/entries" className="px-3 py-2 rounded-md text-sm text-zinc-700 hover:bg-zinc-100">
                   記録一覧
                 </Link>
+                <Link href="/timeline" className="px-3 py-2 rounded-md text-sm text-zinc-700 hover:bg-zinc-100">
+                  タイムライン
+                </Link>
+                <Link href="/beans" className="px-3 py-2 rounded-md text-sm text-zinc-700 hover:bg-zinc-100">
+                  豆の在庫
+                </Link>
+                <Link href="/shops" className="px-3 py-2 rounded-md text-sm text-zinc-700 hover:bg-zinc-100">
+                  お店
+                </Link>
+                <Link href="/cupping" className="px-3 py-2 rounded-md text-sm text-zinc-700 hover:bg-zinc-100">
+                  カッピング
+                </Link>
+                <Link href="/recommendations" className="px-3 py-2 rounded-md text-sm text-zinc-700 hover:bg-zinc-100">
+                  おすすめ
+                </Link>
                 <Link href="/dashboard" className="px-3 py-2 rounded-md text-sm text-zinc-700 hover:bg-zinc-100">
                   ダッシュボード
                 </Link>
@@ -191,6 +224,22 @@ export default function Header() {
             </button>
           </div>
         </div>
+
+        {/* ピン留めした検索 */}
+        {isLoggedIn && pinnedSearches.length > 0 && (
+          <div className="hidden md:flex items-center gap-2 pb-2 -mt-1 overflow-x-auto">
+            {pinnedSearches.map(search => (
+              <Link
+                key={search.id}
+                href={search.query ? `/entries?${search.query}` : "/entries"}
+                className="flex items-center gap-1 px-2 py-0.5 rounded-full border text-xs text-zinc-600 whitespace-nowrap hover:bg-zinc-100"
+              >
+                <Pin className="w-3 h-3 text-amber-600" />
+                {search.name}
+              </Link>
+            ))}
+          </div>
+        )}
       </div>
 
       {/* モバイルメニュー（展開時） */}
@@ -213,6 +262,52 @@ export default function Header() {
                 >
                   記録一覧
                 </Link>
+                {pinnedSearches.map(search => (
+                  <Link
+                    key={search.id}
+                    href={search.query ? `/entries?${search.query}` : "/entries"}
+                    className="block pl-8 pr-3 py-2 rounded-md text-sm text-zinc-600 hover:bg-zinc-100"
+                    onClick={() => setIsMenuOpen(false)}
+                  >
+                    <Pin className="inline-block w-3 h-3 mr-2 text-amber-600" />
+                    {search.name}
+                  </Link>
+                ))}
+                <Link
+                  href="/timeline"
+                  className="block px-3 py-2 rounded-md text-base text-zinc-700 hover:bg-zinc-100"
+                  onClick={() => setIsMenuOpen(false)}
+                >
+                  タイムライン
+                </Link>
+                <Link
+                  href="/beans"
+                  className="block px-3 py-2 rounded-md text-base text-zinc-700 hover:bg-zinc-100"
+                  onClick={() => setIsMenuOpen(false)}
+                >
+                  豆の在庫
+                </Link>
+                <Link
+                  href="/shops"
+                  className="block px-3 py-2 rounded-md text-base text-zinc-700 hover:bg-zinc-100"
+                  onClick={() => setIsMenuOpen(false)}
+                >
+                  お店
+                </Link>
+                <Link
+                  href="/cupping"
+                  className="block px-3 py-2 rounded-md text-base text-zinc-700 hover:bg-zinc-100"
+                  onClick={() => setIsMenuOpen(false)}
+                >
+                  カッピング
+                </Link>
+                <Link
+                  href="/recommendations"
+                  className="block px-3 py-2 rounded-md text-base text-zinc-700 hover:bg-zinc-100"
+                  onClick={() => setIsMenuOpen(false)}
+                >
+                  おすすめ
+                </Link>
                 <Link
                   href="/dashboard"
                   className="block px-3 py-2 rounded-md text-base text-zinc-700 hover:bg-zinc-100"
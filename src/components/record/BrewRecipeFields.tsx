@@ -0,0 +1,154 @@
+"use client";
+import {
+  calcBrewRatio,
+  formatDuration,
+  formatRatio,
+  parseDuration,
+  parseNumber,
+} from "@/lib/brewRecipe";
+import type { CoffeeEntry } from "@/lib/types";
+
+// フォーム入力中の値（入力途中の文字列を保持するため文字列で持つ）
+export interface BrewRecipeValues {
+  doseG: string;
+  waterG: string;
+  waterTemp: string;
+  brewTime: string;
+  bloomTime: string;
+}
+
+export const EMPTY_BREW_RECIPE: BrewRecipeValues = {
+  doseG: "",
+  waterG: "",
+  waterTemp: "",
+  brewTime: "",
+  bloomTime: "",
+};
+
+type BrewRecipeColumns = Pick<
+  CoffeeEntry,
+  "dose_g" | "water_g" | "water_temp_c" | "brew_time_sec" | "bloom_time_sec"
+>;
+
+// 保存済みの記録からフォームの値へ
+export function toBrewRecipeValues(entry: BrewRecipeColumns): BrewRecipeValues {
+  return {
+    doseG: entry.dose_g?.toString() ?? "",
+    waterG: entry.water_g?.toString() ?? "",
+    waterTemp: entry.water_temp_c?.toString() ?? "",
+    brewTime: entry.brew_time_sec !== null ? formatDuration(entry.brew_time_sec) : "",
+    bloomTime: entry.bloom_time_sec !== null ? formatDuration(entry.bloom_time_sec) : "",
+  };
+}
+
+// フォームの値から保存用の列へ
+export function toBrewRecipeColumns(values: BrewRecipeValues): BrewRecipeColumns {
+  return {
+    dose_g: parseNumber(values.doseG),
+    water_g: parseNumber(values.waterG),
+    water_temp_c: parseNumber(values.waterTemp),
+    brew_time_sec: parseDuration(values.brewTime),
+    bloom_time_sec: parseDuration(values.bloomTime),
+  };
+}
+
+// 入力内容の確認（問題がなければ null）
+export function validateBrewRecipe(values: BrewRecipeValues): string | null {
+  if (values.brewTime.trim() !== "" && parseDuration(values.brewTime) === null) {
+    return "抽出時間は「2:30」または秒数で入力してください";
+  }
+  if (values.bloomTime.trim() !== "" && parseDuration(values.bloomTime) === null) {
+    return "蒸らし時間は「0:30」または秒数で入力してください";
+  }
+  const temp = parseNumber(values.waterTemp);
+  if (temp !== null && (temp < 0 || temp > 100)) {
+    return "湯温は0〜100℃の範囲で入力してください";
+  }
+  return null;
+}
+
+interface BrewRecipeFieldsProps {
+  values: BrewRecipeValues;
+  onChange: (values: BrewRecipeValues) => void;
+}
+
+export default function BrewRecipeFields({ values, onChange }: BrewRecipeFieldsProps) {
+  const update = (key: keyof BrewRecipeValues, value: string) => {
+    onChange({ ...values, [key]: value });
+  };
+
+  const ratio = calcBrewRatio(parseNumber(values.doseG), parseNumber(values.waterG));
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label className="block text-sm font-medium mb-1">豆の量 (g)</label>
+          <input
+            type="number"
+            min="0"
+            step="0.1"
+            inputMode="decimal"
+            className="w-full border rounded px-3 py-2"
+            value={values.doseG}
+            onChange={(e) => update("doseG", e.target.value)}
+            placeholder="例: 15"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium mb-1">湯量・抽出量 (g)</label>
+          <input
+            type="number"
+            min="0"
+            step="1"
+            inputMode="decimal"
+            className="w-full border rounded px-3 py-2"
+            value={values.waterG}
+            onChange={(e) => update("waterG", e.target.value)}
+            placeholder="例: 240"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium mb-1">湯温 (℃)</label>
+          <input
+            type="number"
+            min="0"
+            max="100"
+            step="0.5"
+            inputMode="decimal"
+            className="w-full border rounded px-3 py-2"
+            value={values.waterTemp}
+            onChange={(e) => update("waterTemp", e.target.value)}
+            placeholder="例: 92"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium mb-1">比率</label>
+          <div className="px-3 py-2 bg-zinc-100 rounded">{formatRatio(ratio)}</div>
+        </div>
+        <div>
+          <label className="block text-sm font-medium mb-1">抽出時間 (分:秒)</label>
+          <input
+            type="text"
+            inputMode="numeric"
+            className="w-full border rounded px-3 py-2"
+            value={values.brewTime}
+            onChange={(e) => update("brewTime", e.target.value)}
+            placeholder="例: 2:30"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium mb-1">蒸らし時間 (分:秒)</label>
+          <input
+            type="text"
+            inputMode="numeric"
+            className="w-full border rounded px-3 py-2"
+            value={values.bloomTime}
+            onChange={(e) => update("bloomTime", e.target.value)}
+            placeholder="例: 0:30"
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,254 @@
+"use client";
+import { useState, useEffect, useRef } from "react";
+import { formatDuration, parseDuration, parseNumber } from "@/lib/brewRecipe";
+import type { PourStep } from "@/lib/types";
+
+// 一般的なハンドドリップの注湯スケジュール
+const DEFAULT_SCHEDULE: PourStep[] = [
+  { label: "蒸らし", at_sec: 0, water_g: 40 },
+  { label: "1投目", at_sec: 30, water_g: 120 },
+  { label: "2投目", at_sec: 60, water_g: 200 },
+  { label: "3投目", at_sec: 90, water_g: 240 },
+];
+
+export interface BrewTimerResult {
+  totalSec: number;
+  steps: PourStep[];
+}
+
+interface BrewTimerProps {
+  onFinish: (result: BrewTimerResult) => void;
+}
+
+// ステップ切り替わりの合図音
+function beep() {
+  try {
+    const AudioCtx = window.AudioContext;
+    if (!AudioCtx) return;
+    const context = new AudioCtx();
+    const oscillator = context.createOscillator();
+    const gain = context.createGain();
+    oscillator.frequency.value = 880;
+    gain.gain.setValueAtTime(0.2, context.currentTime);
+    gain.gain.exponentialRampToValueAtTime(0.001, context.currentTime + 0.4);
+    oscillator.connect(gain).connect(context.destination);
+    oscillator.start();
+    oscillator.stop(context.currentTime + 0.4);
+    oscillator.onended = () => context.close();
+  } catch {
+    // 音が鳴らせない環境では何もしない
+  }
+  navigator.vibrate?.(200);
+}
+
+export default function BrewTimer({ onFinish }: BrewTimerProps) {
+  const [schedule, setSchedule] = useState<PourStep[]>(DEFAULT_SCHEDULE);
+  const [startedAt, setStartedAt] = useState<number | null>(null);
+  const [elapsed, setElapsed] = useState(0);
+  const [laps, setLaps] = useState<number[]>([]);
+  const [flash, setFlash] = useState(false);
+  // 合図済みのステップ番号
+  const announced = useRef(new Set<number>());
+
+  const running = startedAt !== null;
+  const elapsedSec = Math.floor(elapsed / 1000);
+
+  useEffect(() => {
+    if (startedAt === null) return;
+    const timer = window.setInterval(() => {
+      setElapsed(Date.now() - startedAt);
+    }, 200);
+    return () => window.clearInterval(timer);
+  }, [startedAt]);
+
+  // スケジュールの時刻になったら音と画面で知らせる
+  useEffect(() => {
+    if (!running) return;
+    schedule.forEach((step, index) => {
+      if (step.at_sec > 0 && elapsedSec >= step.at_sec && !announced.current.has(index)) {
+        announced.current.add(index);
+        beep();
+        setFlash(true);
+        window.setTimeout(() => setFlash(false), 600);
+      }
+    });
+  }, [running, elapsedSec, schedule]);
+
+  // 現在のステップ（経過時間を過ぎた最後のステップ）
+  const currentIndex = schedule.reduce(
+    (current, step, index) => (elapsedSec >= step.at_sec ? index : current),
+    -1,
+  );
+  const nextStep = schedule[currentIndex + 1];
+
+  const handleStart = () => {
+    announced.current = new Set([0]);
+    setLaps([]);
+    setElapsed(0);
+    setStartedAt(Date.now());
+    beep();
+  };
+
+  // 同じ秒に続けて押された場合（二度押し）は無視する
+  const handleLap = () => {
+    setLaps(prev => (prev[prev.length - 1] === elapsedSec ? prev : [...prev, elapsedSec]));
+  };
+
+  const handleStop = () => {
+    setStartedAt(null);
+
+    // ラップを押した場合は実際の時刻、押さなかった場合は予定どおりとして記録
+    const steps = laps.length > 0
+      ? [0, ...laps].map((at, index) => ({
+        label: schedule[index]?.label ?? `ステップ${index + 1}`,
+        at_sec: at,
+        water_g: schedule[index]?.water_g ?? null,
+      }))
+      : schedule.filter(step => step.at_sec <= elapsedSec);
+
+    onFinish({ totalSec: elapsedSec, steps });
+  };
+
+  // 開始時刻を変えた場合も時刻順に並ぶようにする
+  const updateStep = (index: number, key: "label" | "at_sec" | "water_g", value: string) => {
+    setSchedule(prev => prev
+      .map((step, i) => {
+        if (i !== index) return step;
+        if (key === "label") return { ...step, label: value };
+        if (key === "at_sec") return { ...step, at_sec: parseDuration(value) ?? step.at_sec };
+        return { ...step, water_g: parseNumber(value) };
+      })
+      .sort((a, b) => a.at_sec - b.at_sec));
+  };
+
+  const addStep = () => {
+    const last = schedule[schedule.length - 1];
+    setSchedule([
+      ...schedule,
+      { label: `${schedule.length}投目`, at_sec: (last?.at_sec ?? 0) + 30, water_g: null },
+    ]);
+  };
+
+  const removeStep = (index: number) => {
+    setSchedule(schedule.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className={`border rounded-lg p-4 transition-colors ${flash ? "bg-amber-100" : "bg-zinc-50"}`}>
+      <div className="text-center mb-3">
+        <div className="text-4xl font-mono font-bold">{formatDuration(elapsedSec)}</div>
+        {running && (
+          <div className="text-sm mt-1">
+            {currentIndex >= 0 && (
+              <span className="font-semibold text-amber-700">
+                {schedule[currentIndex].label}
+                {schedule[currentIndex].water_g !== null && `（〜${schedule[currentIndex].water_g}g）`}
+              </span>
+            )}
+            {nextStep && (
+              <span className="text-zinc-500 ml-2">
+                次: {nextStep.label}まで {nextStep.at_sec - elapsedSec}秒
+              </span>
+            )}
+          </div>
+        )}
+      </div>
+
+      <div className="flex gap-2 justify-center mb-4">
+        {!running ? (
+          <button
+            type="button"
+            onClick={handleStart}
+            className="px-4 py-2 bg-amber-600 text-white rounded hover:bg-amber-700 transition"
+          >
+            スタート
+          </button>
+        ) : (
+          <>
+            <button
+              type="button"
+              onClick={handleLap}
+              className="px-4 py-2 border rounded hover:bg-zinc-100 transition"
+            >
+              ラップ
+            </button>
+            <button
+              type="button"
+              onClick={handleStop}
+              className="px-4 py-2 bg-zinc-700 text-white rounded hover:bg-zinc-800 transition"
+            >
+              ストップ
+            </button>
+          </>
+        )}
+      </div>
+
+      {laps.length > 0 && (
+        <ol className="text-sm mb-4 space-y-1">
+          {laps.map((lap, index) => (
+            <li key={`lap-${lap}`} className="flex justify-between">
+              <span>{schedule[index + 1]?.label ?? `ステップ${index + 2}`}</span>
+              <span className="font-mono">{formatDuration(lap)}</span>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {/* 注湯スケジュール */}
+      <div>
+        <div className="text-sm font-medium mb-2">注湯スケジュール</div>
+        <div className="space-y-2">
+          {schedule.map((step, index) => (
+            <div
+              key={`step-${index}-${step.label}`}
+              className={`grid grid-cols-[1fr_5rem_5rem_auto] gap-2 items-center ${running && index === currentIndex ? "font-semibold" : ""}`}
+            >
+              <input
+                type="text"
+                className="border rounded px-2 py-1 text-sm"
+                defaultValue={step.label}
+                onBlur={(e) => updateStep(index, "label", e.target.value)}
+                disabled={running}
+              />
+              <input
+                type="text"
+                inputMode="numeric"
+                className="border rounded px-2 py-1 text-sm"
+                defaultValue={formatDuration(step.at_sec)}
+                onBlur={(e) => updateStep(index, "at_sec", e.target.value)}
+                disabled={running}
+                aria-label="開始時刻"
+              />
+              <input
+                type="number"
+                className="border rounded px-2 py-1 text-sm"
+                defaultValue={step.water_g ?? ""}
+                onBlur={(e) => updateStep(index, "water_g", e.target.value)}
+                disabled={running}
+                placeholder="g"
+                aria-label="累計湯量"
+              />
+              <button
+                type="button"
+                onClick={() => removeStep(index)}
+                disabled={running || schedule.length <= 1}
+                className="text-zinc-400 hover:text-red-600 text-sm disabled:opacity-30"
+              >
+                削除
+              </button>
+            </div>
+          ))}
+        </div>
+        {!running && (
+          <button
+            type="button"
+            onClick={addStep}
+            className="mt-2 text-sm text-blue-600 hover:underline"
+          >
+            + ステップを追加
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,602 @@
+"use client";
+import { useState, useEffect, useCallback } from "react";
+import { supabase } from "@/lib/supabaseClient";
+import { removePhotos, uploadPhoto } from "@/lib/photoStorage";
+import { repository } from "@/lib/repository";
+import { rememberEntries } from "@/lib/entryCache";
+import { ENTRY_VISIBILITIES, ROAST_LEVELS, type EntryVisibility } from "@/lib/constants";
+import type { Bean, CoffeeEntryInput, PourStep, Shop } from "@/lib/types";
+import { useRouter } from "next/navigation";
+import PhotoPicker, { type PhotoItem } from "@/components/record/PhotoPicker";
+import BrewRecipeFields, {
+  EMPTY_BREW_RECIPE,
+  toBrewRecipeColumns,
+  toBrewRecipeValues,
+  validateBrewRecipe,
+  type BrewRecipeValues,
+} from "@/components/record/BrewRecipeFields";
+import BrewTimer, { type BrewTimerResult } from "@/components/record/BrewTimer";
+import { formatDuration } from "@/lib/brewRecipe";
+import { flavorPath, normalizeFlavorNotes } from "@/lib/flavorWheel";
+import FlavorWheelPicker from "@/components/record/FlavorWheelPicker";
+
+interface ErrorWithMessage {
+  message: string;
+}
+
+function isErrorWithMessage(error: unknown): error is ErrorWithMessage {
+  return (
+    typeof error === "object" &&
+    error !== null &&
+    "message" in error &&
+    typeof (error as Record<string, unknown>).message === "string"
+  );
+}
+
+interface EntryFormProps {
+  // 指定された場合は既存記録の編集モードになる
+  entryId?: string;
+  // 新規作成時に最初から選択しておく豆
+  initialBeanId?: string;
+  // 新規作成時に最初から選択しておくお店（お店で飲んだ記録になる）
+  initialShopId?: string;
+}
+
+export default function EntryForm({ entryId, initialBeanId, initialShopId }: EntryFormProps) {
+  const router = useRouter();
+  const isEdit = Boolean(entryId);
+  const [loading, setLoading] = useState(false);
+  const [fetching, setFetching] = useState(isEdit);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState(false);
+
+  // 基本情報
+  const [beans, setBeans] = useState<Bean[]>([]);
+  const [beanId, setBeanId] = useState<string | null>(null);
+  const [beanName, setBeanName] = useState("");
+  const [beanOrigin, setBeanOrigin] = useState("");
+  const [roastLevel, setRoastLevel] = useState("");
+  const [shops, setShops] = useState<Shop[]>([]);
+  const [shopId, setShopId] = useState<string | null>(null);
+  const [shop, setShop] = useState("");
+  const [brewMethod, setBrewMethod] = useState("");
+  const [madeByUser, setMadeByUser] = useState(true);
+  const [grindSize, setGrindSize] = useState("");
+  const [brewRecipe, setBrewRecipe] = useState<BrewRecipeValues>(EMPTY_BREW_RECIPE);
+  const [pourSteps, setPourSteps] = useState<PourStep[]>([]);
+  const [showTimer, setShowTimer] = useState(false);
+
+  // 評価
+  const [sourness, setSourness] = useState(3);
+  const [sweetness, setSweetness] = useState(3);
+  const [bitterness, setBitterness] = useState(3);
+  const [richness, setRichness] = useState(3);
+  const [selectedFlavors, setSelectedFlavors] = useState<string[]>([]);
+  // 以前の記録で使った、フレーバーホイールにないフレーバー
+  const [customFlavors, setCustomFlavors] = useState<string[]>([]);
+  const [rating, setRating] = useState(3);
+
+  // メモ・写真
+  const [memo, setMemo] = useState("");
+  const [photos, setPhotos] = useState<PhotoItem[]>([]);
+  const [existingPhotos, setExistingPhotos] = useState<string[]>([]);
+  const [visibility, setVisibility] = useState<EntryVisibility>("private");
+
+  // 在庫の豆を選んだら豆の情報をフォームに反映する
+  const applyBean = useCallback((bean: Bean | undefined) => {
+    setBeanId(bean?.id ?? null);
+    if (!bean) return;
+    setBeanName(bean.name);
+    setBeanOrigin(bean.origin || "");
+    setRoastLevel(bean.roast_level || "");
+    setShop(prev => prev || bean.roaster || "");
+  }, []);
+
+  // 在庫の豆の一覧を取得
+  useEffect(() => {
+    const fetchBeans = async () => {
+      try {
+        const { data: { user } } = await supabase.auth.getUser();
+        if (!user) return;
+
+        const data = await repository.listBeans(user.id);
+        setBeans(data);
+        if (initialBeanId && !entryId) {
+          applyBean(data.find(bean => bean.id === initialBeanId));
+        }
+      } catch (err) {
+        console.error("豆の取得エラー:", err);
+      }
+    };
+
+    fetchBeans();
+  }, [initialBeanId, entryId, applyBean]);
+
+  // 登録済みのお店を候補に出す
+  useEffect(() => {
+    const fetchShops = async () => {
+      try {
+        const { data: { user } } = await supabase.auth.getUser();
+        if (!user) return;
+
+        const data = await repository.listShops(user.id);
+        setShops(data);
+        const initialShop = !entryId && data.find(item => item.id === initialShopId);
+        if (initialShop) {
+          setShopId(initialShop.id);
+          setShop(initialShop.name);
+          setMadeByUser(false);
+        }
+      } catch (err) {
+        console.error("お店の取得エラー:", err);
+      }
+    };
+
+    fetchShops();
+  }, [initialShopId, entryId]);
+
+  // 以前使ったフレーバーを候補に出す
+  useEffect(() => {
+    const fetchCustomFlavors = async () => {
+      try {
+        const { data: { user } } = await supabase.auth.getUser();
+        if (!user) return;
+
+        const { flavorNotes } = await repository.getEntryFilterOptions(user.id);
+        setCustomFlavors(normalizeFlavorNotes(flavorNotes).filter(note => !flavorPath(note)));
+      } catch (err) {
+        console.error("フレーバーの取得エラー:", err);
+      }
+    };
+
+    fetchCustomFlavors();
+  }, []);
+
+  // 編集モードでは既存の記録をフォームに読み込む
+  useEffect(() => {
+    if (!entryId) return;
+
+    const fetchEntry = async () => {
+      try {
+        const data = await repository.getEntry(entryId);
+
+        setBeanId(data.bean_id);
+        setBeanName(data.bean_name || "");
+        setBeanOrigin(data.bean_origin || "");
+        setRoastLevel(data.roast_level || "");
+        setShopId(data.shop_id);
+        setShop(data.shop || "");
+        setBrewMethod(data.brew_method || "");
+        setMadeByUser(data.made_by_user ?? true);
+        setGrindSize(data.grind_size || "");
+        setBrewRecipe(toBrewRecipeValues(data));
+        setPourSteps(data.pour_steps || []);
+        setSourness(data.sourness ?? 3);
+        setSweetness(data.sweetness ?? 3);
+        setBitterness(data.bitterness ?? 3);
+        setRichness(data.richness ?? 3);
+        setRating(data.rating ?? 3);
+        setMemo(data.memo || "");
+        setExistingPhotos(data.photos || []);
+        setPhotos((data.photos || []).map(url => ({ key: url, url })));
+        setVisibility(data.visibility ?? "private");
+
+        // 以前の選択肢の名前で保存された記録もフレーバーホイールの表記にそろえる
+        setSelectedFlavors(normalizeFlavorNotes(data.flavor_notes || []));
+      } catch (err: unknown) {
+        if (isErrorWithMessage(err)) {
+          setError(err.message);
+        } else {
+          setError("未知のエラーが発生しました");
+        }
+      } finally {
+        setFetching(false);
+      }
+    };
+
+    fetchEntry();
+  }, [entryId]);
+
+  // 店名が登録済みのお店と一致すればそのお店に紐付ける
+  const handleShopChange = (value: string) => {
+    setShop(value);
+    setShopId(shops.find(item => item.name === value.trim())?.id ?? null);
+  };
+
+  // タイマーの結果をレシピ欄に反映
+  const handleTimerFinish = ({ totalSec, steps }: BrewTimerResult) => {
+    const lastWater = [...steps].reverse().find(step => step.water_g !== null)?.water_g;
+    setPourSteps(steps);
+    setBrewRecipe(prev => ({
+      ...prev,
+      brewTime: formatDuration(totalSec),
+      // 2つ目のステップが始まるまでを蒸らし時間とみなす
+      bloomTime: steps.length > 1 ? formatDuration(steps[1].at_sec) : prev.bloomTime,
+      waterG: prev.waterG || (lastWater ? String(lastWater) : ""),
+    }));
+    setShowTimer(false);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setError(null);
+
+    try {
+      // ユーザー取得
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error("認証情報が見つかりません");
+
+      const recipeError = madeByUser ? validateBrewRecipe(brewRecipe) : null;
+      if (recipeError) throw new Error(recipeError);
+
+      // 写真アップロード処理（並び順を保ったまま新規分だけアップロード）
+      const photoUrls: string[] = [];
+      for (const photo of photos) {
+        photoUrls.push(photo.file ? await uploadPhoto(user.id, photo.file) : photo.url);
+      }
+
+      // フレーバーノートは表記をそろえて保存（ダッシュボードで集計できるように）
+      const flavors = normalizeFlavorNotes(selectedFlavors);
+
+      const values: CoffeeEntryInput = {
+        bean_id: beanId,
+        bean_name: beanName,
+        bean_origin: beanOrigin,
+        roast_level: roastLevel,
+        // お店で飲んだ記録は、未登録の店名なら保存時にDB側でお店が登録される
+        shop_id: madeByUser ? null : shopId,
+        shop,
+        brew_method: brewMethod,
+        made_by_user: madeByUser,
+        grind_size: grindSize,
+        sourness,
+        sweetness,
+        bitterness,
+        richness,
+        flavor_notes: flavors,
+        rating,
+        memo,
+        photos: photoUrls,
+        // レシピはお店で飲んだ場合は保存しない
+        ...toBrewRecipeColumns(madeByUser ? brewRecipe : EMPTY_BREW_RECIPE),
+        pour_steps: madeByUser && pourSteps.length > 0 ? pourSteps : null,
+        visibility,
+      };
+
+      if (entryId) {
+        const updated = await repository.updateEntry(entryId, values);
+        rememberEntries([updated]);
+
+        // フォームから外された写真はストレージからも削除
+        const removed = existingPhotos.filter(url => !photoUrls.includes(url));
+        if (removed.length > 0) {
+          await removePhotos(removed);
+        }
+      } else {
+        // データ保存
+        await repository.createEntry(user.id, values);
+      }
+
+      setSuccess(true);
+      // 成功したら編集時は詳細ページ、新規時はホームに戻る
+      setTimeout(() => {
+        router.push(entryId ? `/entries/${entryId}` : '/');
+      }, 2000);
+
+    } catch (err: unknown) {
+      if (isErrorWithMessage(err)) {
+        setError(err.message);
+      } else {
+        setError("未知のエラーが発生しました");
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // 評価のスライダーコンポーネント
+  const RatingSlider = ({
+    label,
+    value,
+    onChange
+  }: {
+    label: string;
+    value: number;
+    onChange: (value: number) => void;
+  }) => (
+    <div className="mb-3">
+      <label className="block text-sm font-medium mb-1">
+        {label}: <span className="font-bold">{value}</span>
+      </label>
+      <input
+        type="range"
+        min="1"
+        max="5"
+        value={value}
+        onChange={(e) => onChange(Number(e.target.value))}
+        className="w-full"
+      />
+      <div className="flex justify-between text-xs text-zinc-500">
+        <span>弱</span>
+        <span>強</span>
+      </div>
+    </div>
+  );
+
+  if (fetching) {
+    return (
+      <div className="max-w-lg mx-auto py-12 px-4 text-center">読み込み中...</div>
+    );
+  }
+
+  if (success) {
+    return (
+      <div className="max-w-lg mx-auto py-12 px-4 text-center">
+        <div className="text-green-600 mb-4 text-xl">
+          {isEdit ? "✓ 記録を更新しました！" : "✓ 記録を保存しました！"}
+        </div>
+        <p>{isEdit ? "記録の詳細に戻ります..." : "ホームに戻ります..."}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-lg mx-auto py-8 px-4">
+      <h1 className="text-xl font-bold mb-6">{isEdit ? "コーヒー記録の編集" : "コーヒー記録"}</h1>
+
+      <form onSubmit={handleSubmit} className="space-y-6">
+        {/* 基本情報セクション */}
+        <section className="space-y-4">
+          <h2 className="text-lg font-semibold">基本情報</h2>
+
+          {beans.length > 0 && (
+            <div>
+              <label className="block text-sm font-medium mb-1">在庫の豆から選ぶ</label>
+              <select
+                className="w-full border rounded px-3 py-2"
+                value={beanId ?? ""}
+                onChange={(e) => applyBean(beans.find(bean => bean.id === e.target.value))}
+              >
+                <option value="">選択しない（手入力）</option>
+                {beans.map(bean => (
+                  <option key={bean.id} value={bean.id}>
+                    {bean.name}{bean.roaster ? `（${bean.roaster}）` : ""}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium mb-1">
+              豆の名前 <span className="text-red-500">*</span>
+            </label>
+            <input
+              type="text"
+              className="w-full border rounded px-3 py-2"
+              required
+              value={beanName}
+              onChange={(e) => setBeanName(e.target.value)}
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium mb-1">産地</label>
+            <input
+              type="text"
+              className="w-full border rounded px-3 py-2"
+              value={beanOrigin}
+              onChange={(e) => setBeanOrigin(e.target.value)}
+              placeholder="例: エチオピア、コロンビアなど"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium mb-1">焙煎度</label>
+            <div className="flex flex-wrap gap-2">
+              {ROAST_LEVELS.map(level => (
+                <button
+                  key={level}
+                  type="button"
+                  className={`px-3 py-1 rounded-full border text-sm ${roastLevel === level ? "bg-zinc-700 text-white border-zinc-700" : "bg-zinc-100"}`}
+                  onClick={() => setRoastLevel(level)}
+                >{level}</button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium mb-1">カフェ/購入店</label>
+            <input
+              type="text"
+              className="w-full border rounded px-3 py-2"
+              value={shop}
+              onChange={(e) => handleShopChange(e.target.value)}
+              list={madeByUser ? undefined : "shop-options"}
+            />
+            {!madeByUser && (
+              <>
+                <datalist id="shop-options">
+                  {shops.map(item => (
+                    <option key={item.id} value={item.name} />
+                  ))}
+                </datalist>
+                <div className="text-xs text-zinc-500 mt-1">
+                  {shopId ? "登録済みのお店の訪問として記録します" : "新しい店名は保存時にお店として登録されます"}
+                </div>
+              </>
+            )}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium mb-1">抽出方法</label>
+            <input
+              type="text"
+              className="w-full border rounded px-3 py-2"
+              value={brewMethod}
+              onChange={(e) => setBrewMethod(e.target.value)}
+              placeholder="例: ハンドドリップ、エスプレッソなど"
+            />
+          </div>
+
+          <div>
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={madeByUser}
+                onChange={(e) => setMadeByUser(e.target.checked)}
+              />
+              <span className="text-sm font-medium">自分で淹れた</span>
+            </label>
+          </div>
+
+          {madeByUser && (
+            <>
+              <div>
+                <label className="block text-sm font-medium mb-1">挽き具合</label>
+                <input
+                  type="text"
+                  className="w-full border rounded px-3 py-2"
+                  value={grindSize}
+                  onChange={(e) => setGrindSize(e.target.value)}
+                  placeholder="例: 中細挽き、極細挽きなど"
+                />
+              </div>
+
+              <BrewRecipeFields values={brewRecipe} onChange={setBrewRecipe} />
+
+              <div>
+                <button
+                  type="button"
+                  onClick={() => setShowTimer(!showTimer)}
+                  className="text-sm text-blue-600 hover:underline"
+                >
+                  {showTimer ? "タイマーを閉じる" : "ブリュータイマーで計測する"}
+                </button>
+                {showTimer && (
+                  <div className="mt-2">
+                    <BrewTimer onFinish={handleTimerFinish} />
+                  </div>
+                )}
+              </div>
+
+              {pourSteps.length > 0 && (
+                <div>
+                  <div className="flex justify-between items-center mb-1">
+                    <span className="text-sm font-medium">記録した注湯ステップ</span>
+                    <button
+                      type="button"
+                      onClick={() => setPourSteps([])}
+                      className="text-xs text-zinc-500 hover:text-red-600"
+                    >
+                      クリア
+                    </button>
+                  </div>
+                  <ol className="text-sm bg-zinc-50 rounded border divide-y">
+                    {pourSteps.map((step, index) => (
+                      <li key={`pour-${index}-${step.label}`} className="flex justify-between px-3 py-1">
+                        <span>{step.label}</span>
+                        <span className="font-mono text-zinc-600">
+                          {formatDuration(step.at_sec)}
+                          {step.water_g !== null && ` / ${step.water_g}g`}
+                        </span>
+                      </li>
+                    ))}
+                  </ol>
+                </div>
+              )}
+            </>
+          )}
+        </section>
+
+        {/* 評価セクション */}
+        <section className="space-y-4">
+          <h2 className="text-lg font-semibold">評価</h2>
+
+          <RatingSlider label="酸味" value={sourness} onChange={setSourness} />
+          <RatingSlider label="甘味" value={sweetness} onChange={setSweetness} />
+          <RatingSlider label="苦味" value={bitterness} onChange={setBitterness} />
+          <RatingSlider label="コク" value={richness} onChange={setRichness} />
+
+          <div>
+            <label className="block text-sm font-medium mb-1">フレーバーノート (複数選択可)</label>
+            <FlavorWheelPicker
+              value={selectedFlavors}
+              onChange={setSelectedFlavors}
+              customNotes={customFlavors}
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium mb-1">
+              総合評価: <span className="font-bold">{rating}</span>
+            </label>
+            <input
+              type="range"
+              min="1"
+              max="5"
+              value={rating}
+              onChange={(e) => setRating(Number(e.target.value))}
+              className="w-full"
+            />
+            <div className="flex justify-between text-xs">
+              <span>1</span>
+              <span>2</span>
+              <span>3</span>
+              <span>4</span>
+              <span>5</span>
+            </div>
+          </div>
+        </section>
+
+        {/* メモ・写真セクション */}
+        <section className="space-y-4">
+          <h2 className="text-lg font-semibold">メモ・写真</h2>
+
+          <div>
+            <label className="block text-sm font-medium mb-1">メモ</label>
+            <textarea
+              className="w-full border rounded px-3 py-2"
+              rows={3}
+              value={memo}
+              onChange={(e) => setMemo(e.target.value)}
+              placeholder="気づいたことや感想など自由に記録できます"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium mb-1">写真 (複数選択可)</label>
+            <PhotoPicker photos={photos} onChange={setPhotos} />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium mb-1">公開範囲</label>
+            <select
+              className="w-full border rounded px-3 py-2"
+              value={visibility}
+              onChange={(e) => setVisibility(e.target.value as EntryVisibility)}
+            >
+              {ENTRY_VISIBILITIES.map(option => (
+                <option key={option.key} value={option.key}>{option.label}</option>
+              ))}
+            </select>
+            <div className="text-xs text-zinc-500 mt-1">
+              「公開」の記録は、プロフィールを公開している場合に公開プロフィールに表示されます
+            </div>
+          </div>
+        </section>
+
+        {error && <div className="text-red-600 text-sm">{error}</div>}
+
+        <button
+          type="submit"
+          className="w-full bg-amber-600 text-white py-2 rounded hover:bg-amber-700 transition disabled:opacity-50"
+          disabled={loading}
+        >
+          {loading ? "保存中..." : isEdit ? "変更を保存" : "記録を保存"}
+        </button>
+      </form>
+    </div>
+  );
+}
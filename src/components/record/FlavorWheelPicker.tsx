@@ -0,0 +1,196 @@
+"use client";
+import { useState } from "react";
+import { X } from "lucide-react";
+import {
+  FLAVOR_WHEEL,
+  flavorPath,
+  normalizeFlavorNote,
+  searchFlavors,
+} from "@/lib/flavorWheel";
+
+interface FlavorWheelPickerProps {
+  value: string[];
+  onChange: (notes: string[]) => void;
+  // 以前の記録で使った、分類にないフレーバー
+  customNotes?: string[];
+}
+
+// フレーバーホイールの階層から選ぶか、検索して選ぶ（分類にないフレーバーも追加できる）
+export default function FlavorWheelPicker({ value, onChange, customNotes = [] }: FlavorWheelPickerProps) {
+  const [query, setQuery] = useState("");
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [openCategory, setOpenCategory] = useState<string | null>(null);
+
+  const suggestions = searchFlavors(query, customNotes);
+  const typed = normalizeFlavorNote(query);
+  // 入力した文字列そのものを追加する候補（分類や過去のフレーバーに同じ名前がない場合）
+  const canAddTyped = typed !== null && !suggestions.some(suggestion => suggestion.name === typed);
+
+  const toggle = (note: string) => {
+    onChange(value.includes(note) ? value.filter(item => item !== note) : [...value, note]);
+  };
+
+  const add = (note: string | null) => {
+    if (note && !value.includes(note)) {
+      onChange([...value, note]);
+    }
+    setQuery("");
+    setActiveIndex(0);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "ArrowDown") {
+      e.preventDefault();
+      setActiveIndex(i => Math.min(i + 1, suggestions.length - 1));
+    } else if (e.key === "ArrowUp") {
+      e.preventDefault();
+      setActiveIndex(i => Math.max(i - 1, 0));
+    } else if (e.key === "Enter") {
+      // フォームの送信ではなく候補の追加にする
+      e.preventDefault();
+      add(suggestions[activeIndex]?.name ?? typed);
+    } else if (e.key === "Escape") {
+      setQuery("");
+    }
+  };
+
+  const chipClass = (selected: boolean) =>
+    `px-3 py-1 rounded-full border text-sm ${selected ? "bg-zinc-700 text-white border-zinc-700" : "bg-zinc-100"}`;
+
+  return (
+    <div className="space-y-3">
+      {/* 選択中のフレーバー */}
+      {value.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {value.map(note => (
+            <span
+              key={note}
+              title={flavorPath(note)?.join(" › ")}
+              className="flex items-center gap-1 pl-3 pr-1 py-1 rounded-full bg-amber-100 text-amber-900 text-sm"
+            >
+              {note}
+              <button
+                type="button"
+                onClick={() => toggle(note)}
+                className="p-0.5 rounded-full hover:bg-amber-200"
+                aria-label={`${note}を外す`}
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+
+      {/* 検索と候補 */}
+      <div className="relative">
+        <input
+          type="text"
+          className="w-full border rounded px-3 py-2"
+          value={query}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setActiveIndex(0);
+          }}
+          onKeyDown={handleKeyDown}
+          placeholder="フレーバーを検索（例: ベリー、jasmine）"
+        />
+        {query.trim() && (suggestions.length > 0 || canAddTyped) && (
+          <ul className="absolute z-20 left-0 right-0 mt-1 bg-white border rounded shadow-lg max-h-64 overflow-y-auto">
+            {suggestions.map((suggestion, index) => (
+              <li key={suggestion.name}>
+                <button
+                  type="button"
+                  onClick={() => add(suggestion.name)}
+                  onMouseEnter={() => setActiveIndex(index)}
+                  className={`w-full text-left px-3 py-2 text-sm ${index === activeIndex ? "bg-amber-50" : ""}`}
+                >
+                  <span className="font-medium">{suggestion.name}</span>
+                  {suggestion.path.length > 1 && (
+                    <span className="ml-2 text-xs text-zinc-500">
+                      {suggestion.path.slice(0, -1).join(" › ")}
+                    </span>
+                  )}
+                  {value.includes(suggestion.name) && (
+                    <span className="ml-2 text-xs text-amber-700">選択済み</span>
+                  )}
+                </button>
+              </li>
+            ))}
+            {canAddTyped && (
+              <li>
+                <button
+                  type="button"
+                  onClick={() => add(typed)}
+                  className="w-full text-left px-3 py-2 text-sm text-zinc-600 border-t hover:bg-zinc-50"
+                >
+                  「{typed}」を追加
+                </button>
+              </li>
+            )}
+          </ul>
+        )}
+      </div>
+
+      {/* フレーバーホイールの階層 */}
+      <div className="flex flex-wrap gap-2">
+        {FLAVOR_WHEEL.map(category => (
+          <button
+            key={category.name}
+            type="button"
+            className={`px-3 py-1 rounded border text-sm ${
+              openCategory === category.name ? "bg-amber-600 text-white border-amber-600" : "hover:bg-zinc-100"
+            }`}
+            onClick={() => setOpenCategory(openCategory === category.name ? null : category.name)}
+          >
+            {category.name}
+          </button>
+        ))}
+      </div>
+
+      {FLAVOR_WHEEL.filter(category => category.name === openCategory).map(category => (
+        <div key={category.name} className="border rounded p-3 space-y-3">
+          <button type="button" className={chipClass(value.includes(category.name))} onClick={() => toggle(category.name)}>
+            {category.name}全般
+          </button>
+          {category.children?.map(subcategory => (
+            <div key={subcategory.name} className="flex flex-wrap items-center gap-2">
+              <button
+                type="button"
+                className={`${chipClass(value.includes(subcategory.name))} font-medium`}
+                onClick={() => toggle(subcategory.name)}
+              >
+                {subcategory.name}
+              </button>
+              {subcategory.children && <span className="text-zinc-400 text-sm">›</span>}
+              {subcategory.children?.map(descriptor => (
+                <button
+                  key={descriptor.name}
+                  type="button"
+                  className={chipClass(value.includes(descriptor.name))}
+                  onClick={() => toggle(descriptor.name)}
+                >
+                  {descriptor.name}
+                </button>
+              ))}
+            </div>
+          ))}
+        </div>
+      ))}
+
+      {/* 以前使ったフレーバー */}
+      {customNotes.length > 0 && (
+        <div>
+          <div className="text-xs text-zinc-500 mb-1">以前使ったフレーバー</div>
+          <div className="flex flex-wrap gap-2">
+            {customNotes.map(note => (
+              <button key={note} type="button" className={chipClass(value.includes(note))} onClick={() => toggle(note)}>
+                {note}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,122 @@
+"use client";
+import { useState } from "react";
+import { ChevronLeft, X } from "lucide-react";
+
+// フォーム上の写真1枚分（登録済みの写真はurlのみ、新規はfileを持つ）
+export interface PhotoItem {
+  key: string;
+  url: string;
+  file?: File;
+}
+
+// 1記録あたりの写真の上限
+export const MAX_PHOTOS = 6;
+
+interface PhotoPickerProps {
+  photos: PhotoItem[];
+  onChange: (photos: PhotoItem[]) => void;
+}
+
+export default function PhotoPicker({ photos, onChange }: PhotoPickerProps) {
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+
+  const handleFiles = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (!e.target.files || e.target.files.length === 0) return;
+
+    const files = Array.from(e.target.files).slice(0, MAX_PHOTOS - photos.length);
+    const added = files.map(file => ({
+      key: `${file.name}-${file.lastModified}-${Math.random().toString(36).slice(2, 8)}`,
+      url: URL.createObjectURL(file),
+      file,
+    }));
+    onChange([...photos, ...added]);
+
+    // 同じファイルを選び直せるように入力をリセット
+    e.target.value = "";
+  };
+
+  const handleRemove = (index: number) => {
+    const removed = photos[index];
+    if (removed.file) {
+      URL.revokeObjectURL(removed.url);
+    }
+    onChange(photos.filter((_, i) => i !== index));
+  };
+
+  const move = (from: number, to: number) => {
+    const next = [...photos];
+    const [moved] = next.splice(from, 1);
+    next.splice(to, 0, moved);
+    onChange(next);
+  };
+
+  // ドラッグ＆ドロップで並び替え
+  const handleDrop = (index: number) => {
+    if (dragIndex !== null && dragIndex !== index) {
+      move(dragIndex, index);
+    }
+    setDragIndex(null);
+  };
+
+  return (
+    <div>
+      <input
+        type="file"
+        accept="image/*"
+        multiple
+        onChange={handleFiles}
+        disabled={photos.length >= MAX_PHOTOS}
+        className="w-full border rounded px-3 py-2"
+      />
+      <p className="text-xs text-zinc-500 mt-1">
+        最大{MAX_PHOTOS}枚まで。ドラッグで並び替えでき、先頭の写真が一覧に表示されます。
+      </p>
+
+      {photos.length > 0 && (
+        <ul className="mt-2 grid grid-cols-3 gap-2">
+          {photos.map((photo, index) => (
+            <li
+              key={photo.key}
+              draggable
+              onDragStart={() => setDragIndex(index)}
+              onDragOver={(e) => e.preventDefault()}
+              onDrop={() => handleDrop(index)}
+              onDragEnd={() => setDragIndex(null)}
+              className={`relative pb-[100%] rounded overflow-hidden border cursor-move ${dragIndex === index ? "opacity-50" : ""}`}
+            >
+              <img
+                src={photo.url}
+                alt={`写真 ${index + 1}`}
+                className="absolute inset-0 w-full h-full object-cover"
+              />
+              {index === 0 && (
+                <span className="absolute left-1 top-1 text-xs bg-amber-600 text-white px-1.5 rounded">
+                  メイン
+                </span>
+              )}
+              <button
+                type="button"
+                onClick={() => handleRemove(index)}
+                className="absolute right-1 top-1 bg-white/80 rounded-full p-0.5 hover:bg-white"
+                aria-label="写真を削除"
+              >
+                <X className="w-4 h-4" />
+              </button>
+              {/* タッチ端末ではドラッグできないためボタンでも移動できるようにする */}
+              {index > 0 && (
+                <button
+                  type="button"
+                  onClick={() => move(index, index - 1)}
+                  className="absolute left-1 bottom-1 bg-white/80 rounded-full p-0.5 hover:bg-white"
+                  aria-label="前へ移動"
+                >
+                  <ChevronLeft className="w-4 h-4" />
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
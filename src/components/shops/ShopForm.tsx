@@ -0,0 +1,266 @@
+"use client";
+import { useState, useEffect } from "react";
+import { supabase } from "@/lib/supabaseClient";
+import { repository } from "@/lib/repository";
+import { parseNumber } from "@/lib/brewRecipe";
+import type { ShopInput } from "@/lib/types";
+import { useRouter } from "next/navigation";
+import { LocateFixed } from "lucide-react";
+import ShopMap from "@/components/shops/ShopMap";
+
+interface ErrorWithMessage {
+  message: string;
+}
+
+function isErrorWithMessage(error: unknown): error is ErrorWithMessage {
+  return (
+    typeof error === "object" &&
+    error !== null &&
+    "message" in error &&
+    typeof (error as Record<string, unknown>).message === "string"
+  );
+}
+
+// 同じ名前のお店がすでにある場合のPostgreSQLエラーコード（一意制約違反）
+const DUPLICATE_NAME_CODE = "23505";
+
+interface ShopFormProps {
+  // 指定された場合は既存のお店の編集モードになる
+  shopId?: string;
+}
+
+export default function ShopForm({ shopId }: ShopFormProps) {
+  const router = useRouter();
+  const isEdit = Boolean(shopId);
+  const [loading, setLoading] = useState(false);
+  const [fetching, setFetching] = useState(isEdit);
+  const [error, setError] = useState<string | null>(null);
+
+  const [name, setName] = useState("");
+  const [address, setAddress] = useState("");
+  const [latitude, setLatitude] = useState("");
+  const [longitude, setLongitude] = useState("");
+  const [openingNotes, setOpeningNotes] = useState("");
+  const [rating, setRating] = useState<number | null>(null);
+  const [locating, setLocating] = useState(false);
+  const [locationError, setLocationError] = useState<string | null>(null);
+
+  // 編集モードでは既存のお店をフォームに読み込む
+  useEffect(() => {
+    if (!shopId) return;
+
+    const fetchShop = async () => {
+      try {
+        const data = await repository.getShop(shopId);
+
+        setName(data.name);
+        setAddress(data.address || "");
+        setLatitude(data.latitude?.toString() ?? "");
+        setLongitude(data.longitude?.toString() ?? "");
+        setOpeningNotes(data.opening_notes || "");
+        setRating(data.rating);
+      } catch (err: unknown) {
+        if (isErrorWithMessage(err)) {
+          setError(err.message);
+        } else {
+          setError("未知のエラーが発生しました");
+        }
+      } finally {
+        setFetching(false);
+      }
+    };
+
+    fetchShop();
+  }, [shopId]);
+
+  const setPosition = (lat: number, lng: number) => {
+    setLatitude(lat.toFixed(6));
+    setLongitude(lng.toFixed(6));
+  };
+
+  // ブラウザの位置情報から現在地を入力する
+  const captureLocation = () => {
+    if (!navigator.geolocation) {
+      setLocationError("このブラウザでは位置情報を取得できません");
+      return;
+    }
+
+    setLocating(true);
+    setLocationError(null);
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        setPosition(position.coords.latitude, position.coords.longitude);
+        setLocating(false);
+      },
+      () => {
+        setLocationError("現在地を取得できませんでした。ブラウザの位置情報の許可を確認してください");
+        setLocating(false);
+      },
+      { enableHighAccuracy: true, timeout: 10000 },
+    );
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setError(null);
+
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error("認証情報が見つかりません");
+
+      const lat = parseNumber(latitude);
+      const lng = parseNumber(longitude);
+      if ((lat === null) !== (lng === null)) {
+        throw new Error("緯度と経度は両方入力してください");
+      }
+      if (lat !== null && (lat < -90 || lat > 90)) throw new Error("緯度は -90〜90 で入力してください");
+      if (lng !== null && (lng < -180 || lng > 180)) throw new Error("経度は -180〜180 で入力してください");
+
+      const values: ShopInput = {
+        name: name.trim(),
+        address: address || null,
+        latitude: lat,
+        longitude: lng,
+        opening_notes: openingNotes || null,
+        rating,
+      };
+
+      const saved = shopId
+        ? await repository.updateShop(shopId, values)
+        : await repository.createShop(user.id, values);
+
+      router.push(`/shops/${saved.id}`);
+    } catch (err: unknown) {
+      if ((err as { code?: string }).code === DUPLICATE_NAME_CODE) {
+        setError("同じ名前のお店がすでに登録されています");
+      } else if (isErrorWithMessage(err)) {
+        setError(err.message);
+      } else {
+        setError("未知のエラーが発生しました");
+      }
+      setLoading(false);
+    }
+  };
+
+  if (fetching) {
+    return (
+      <div className="max-w-lg mx-auto py-12 px-4 text-center">読み込み中...</div>
+    );
+  }
+
+  const lat = parseNumber(latitude);
+  const lng = parseNumber(longitude);
+  const marker = lat !== null && lng !== null
+    ? [{ id: "shop", label: name || "お店の位置", latitude: lat, longitude: lng }]
+    : [];
+
+  return (
+    <div className="max-w-lg mx-auto py-8 px-4">
+      <h1 className="text-xl font-bold mb-6">{isEdit ? "お店の編集" : "お店を登録"}</h1>
+
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div>
+          <label className="block text-sm font-medium mb-1">
+            店名 <span className="text-red-500">*</span>
+          </label>
+          <input
+            type="text"
+            className="w-full border rounded px-3 py-2"
+            required
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+          />
+          {isEdit && (
+            <div className="text-xs text-zinc-500 mt-1">店名を変えると、このお店の記録の店名も変わります</div>
+          )}
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium mb-1">住所</label>
+          <input
+            type="text"
+            className="w-full border rounded px-3 py-2"
+            value={address}
+            onChange={(e) => setAddress(e.target.value)}
+          />
+        </div>
+
+        <div>
+          <div className="flex justify-between items-center mb-1">
+            <label className="block text-sm font-medium">位置</label>
+            <button
+              type="button"
+              onClick={captureLocation}
+              disabled={locating}
+              className="flex items-center gap-1 px-2 py-1 border rounded text-sm hover:bg-zinc-100 disabled:opacity-50"
+            >
+              <LocateFixed className="w-4 h-4" />
+              {locating ? "取得中..." : "現在地を使う"}
+            </button>
+          </div>
+          <div className="grid grid-cols-2 gap-3 mb-2">
+            <input
+              type="number"
+              step="any"
+              className="w-full border rounded px-3 py-2"
+              value={latitude}
+              onChange={(e) => setLatitude(e.target.value)}
+              placeholder="緯度 例: 35.681236"
+            />
+            <input
+              type="number"
+              step="any"
+              className="w-full border rounded px-3 py-2"
+              value={longitude}
+              onChange={(e) => setLongitude(e.target.value)}
+              placeholder="経度 例: 139.767125"
+            />
+          </div>
+          {locationError && <div className="text-red-600 text-sm mb-2">{locationError}</div>}
+          <ShopMap markers={marker} onPick={({ latitude, longitude }) => setPosition(latitude, longitude)} height={240} />
+          <div className="text-xs text-zinc-500 mt-1">地図をクリックしても位置を指定できます</div>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium mb-1">営業時間・メモ</label>
+          <textarea
+            className="w-full border rounded px-3 py-2"
+            rows={3}
+            value={openingNotes}
+            onChange={(e) => setOpeningNotes(e.target.value)}
+            placeholder="例: 8:00〜18:00、水曜定休"
+          />
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium mb-1">お店の評価</label>
+          <div className="flex items-center gap-1">
+            {[1, 2, 3, 4, 5].map(value => (
+              <button
+                key={value}
+                type="button"
+                className={`text-2xl ${rating !== null && value <= rating ? "text-amber-500" : "text-zinc-300"}`}
+                onClick={() => setRating(rating === value ? null : value)}
+                aria-label={`${value}つ星`}
+              >
+                ★
+              </button>
+            ))}
+            <span className="ml-2 text-sm text-zinc-500">{rating === null ? "未評価" : `${rating} / 5`}</span>
+          </div>
+        </div>
+
+        {error && <div className="text-red-600 text-sm">{error}</div>}
+
+        <button
+          type="submit"
+          className="w-full bg-amber-600 text-white py-2 rounded hover:bg-amber-700 transition disabled:opacity-50"
+          disabled={loading}
+        >
+          {loading ? "保存中..." : isEdit ? "変更を保存" : "お店を登録"}
+        </button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,199 @@
+"use client";
+import { useEffect, useRef, useState } from "react";
+import Link from "next/link";
+import { MapPin, Minus, Plus } from "lucide-react";
+import {
+  defaultTileSource,
+  fitView,
+  project,
+  tileUrl,
+  unproject,
+  type LatLng,
+  type Point,
+  type TileSource,
+} from "@/lib/mapTiles";
+
+export interface MapMarker extends LatLng {
+  id: string;
+  label: string;
+  href?: string;
+}
+
+interface ShopMapProps {
+  markers: MapMarker[];
+  // 省略時は環境変数で指定された取得元（未設定なら OpenStreetMap）
+  tileSource?: TileSource;
+  // 地図をクリックした位置を受け取る（お店の位置の入力用）
+  onPick?: (position: LatLng) => void;
+  height?: number;
+}
+
+interface MapView {
+  // どの地点の組み合わせに対して表示しているか（地点が入れ替わったら全体が収まるように表示し直す）
+  key: string;
+  center: LatLng;
+  zoom: number;
+}
+
+// 地点がないときは東京駅周辺を表示する
+const DEFAULT_CENTER: LatLng = { latitude: 35.681236, longitude: 139.767125 };
+const DEFAULT_ZOOM = 11;
+// この距離（px）以上動いたらクリックではなくドラッグとみなす
+const DRAG_THRESHOLD = 4;
+
+// タイル画像を並べて表示する地図（ドラッグで移動、ボタンで拡大・縮小）
+export default function ShopMap({ markers, tileSource, onPick, height = 320 }: ShopMapProps) {
+  const source = tileSource ?? defaultTileSource();
+  const containerRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ start: Point; origin: Point; moved: boolean } | null>(null);
+  const [width, setWidth] = useState(0);
+  const [userView, setUserView] = useState<MapView | null>(null);
+
+  // 地図の幅に合わせてタイルを並べる
+  useEffect(() => {
+    const element = containerRef.current;
+    if (!element) return;
+    const observer = new ResizeObserver(([entry]) => setWidth(entry.contentRect.width));
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
+  const markerKey = markers.map(marker => marker.id).join("|");
+  const fitted = fitView(markers, width, height, source);
+  const view: MapView = userView?.key === markerKey
+    ? userView
+    : { key: markerKey, center: fitted?.center ?? DEFAULT_CENTER, zoom: fitted?.zoom ?? DEFAULT_ZOOM };
+
+  const { tileSize } = source;
+  const centerPoint = project(view.center, view.zoom, tileSize);
+  const left = centerPoint.x - width / 2;
+  const top = centerPoint.y - height / 2;
+
+  // 表示範囲にかかるタイル（経度方向は世界を繰り返す）
+  const tileCount = 2 ** view.zoom;
+  const tiles: { key: string; url: string; x: number; y: number }[] = [];
+  if (width > 0) {
+    for (let ty = Math.floor(top / tileSize); ty <= Math.floor((top + height) / tileSize); ty++) {
+      if (ty < 0 || ty >= tileCount) continue;
+      for (let tx = Math.floor(left / tileSize); tx <= Math.floor((left + width) / tileSize); tx++) {
+        const wrapped = ((tx % tileCount) + tileCount) % tileCount;
+        tiles.push({
+          key: `${view.zoom}/${tx}/${ty}`,
+          url: tileUrl(source, view.zoom, wrapped, ty),
+          x: tx * tileSize - left,
+          y: ty * tileSize - top,
+        });
+      }
+    }
+  }
+
+  const setZoom = (zoom: number) => {
+    setUserView({ ...view, zoom: Math.max(source.minZoom, Math.min(source.maxZoom, zoom)) });
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    // マーカーのリンクやボタンの操作はドラッグにしない
+    if ((e.target as HTMLElement).closest("a, button")) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { start: { x: e.clientX, y: e.clientY }, origin: centerPoint, moved: false };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const dx = e.clientX - drag.start.x;
+    const dy = e.clientY - drag.start.y;
+    if (!drag.moved && Math.hypot(dx, dy) < DRAG_THRESHOLD) return;
+    drag.moved = true;
+    setUserView({
+      ...view,
+      center: unproject({ x: drag.origin.x - dx, y: drag.origin.y - dy }, view.zoom, tileSize),
+    });
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    dragRef.current = null;
+    if (!drag || drag.moved || !onPick) return;
+
+    const rect = e.currentTarget.getBoundingClientRect();
+    onPick(unproject({ x: left + e.clientX - rect.left, y: top + e.clientY - rect.top }, view.zoom, tileSize));
+  };
+
+  return (
+    <div
+      ref={containerRef}
+      className={`relative overflow-hidden rounded-lg border bg-zinc-100 touch-none select-none ${onPick ? "cursor-crosshair" : "cursor-grab"}`}
+      style={{ height }}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={() => {
+        dragRef.current = null;
+      }}
+    >
+      {tiles.map(tile => (
+        <img
+          key={tile.key}
+          src={tile.url}
+          alt=""
+          draggable={false}
+          className="absolute max-w-none pointer-events-none"
+          style={{ left: tile.x, top: tile.y, width: tileSize, height: tileSize }}
+        />
+      ))}
+
+      {width > 0 && markers.map(marker => {
+        const point = project(marker, view.zoom, tileSize);
+        const x = point.x - left;
+        const y = point.y - top;
+        if (x < -24 || x > width + 24 || y < -24 || y > height + 24) return null;
+
+        const pin = <MapPin className="w-7 h-7 text-amber-600 fill-white drop-shadow" />;
+        return (
+          <div
+            key={marker.id}
+            className="absolute -translate-x-1/2 -translate-y-full"
+            style={{ left: x, top: y }}
+            title={marker.label}
+          >
+            {marker.href ? (
+              <Link href={marker.href} aria-label={marker.label}>
+                {pin}
+              </Link>
+            ) : (
+              pin
+            )}
+          </div>
+        );
+      })}
+
+      <div className="absolute top-2 right-2 flex flex-col bg-white rounded shadow border">
+        <button
+          type="button"
+          onClick={() => setZoom(view.zoom + 1)}
+          disabled={view.zoom >= source.maxZoom}
+          className="p-1.5 hover:bg-zinc-100 disabled:opacity-40"
+          aria-label="拡大"
+        >
+          <Plus className="w-4 h-4" />
+        </button>
+        <button
+          type="button"
+          onClick={() => setZoom(view.zoom - 1)}
+          disabled={view.zoom <= source.minZoom}
+          className="p-1.5 border-t hover:bg-zinc-100 disabled:opacity-40"
+          aria-label="縮小"
+        >
+          <Minus className="w-4 h-4" />
+        </button>
+      </div>
+
+      {source.attribution && (
+        <div className="absolute bottom-0 right-0 px-1 text-[10px] bg-white/80 text-zinc-600">
+          {source.attribution}
+        </div>
+      )}
+    </div>
+  );
+}
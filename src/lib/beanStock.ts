@@ -0,0 +1,37 @@
+import type { BeanStock } from "@/lib/types";
+
+// 残量がこれ以下（g）、または内容量のこの割合以下になったら「残りわずか」
+export const LOW_STOCK_GRAMS = 50;
+export const LOW_STOCK_RATIO = 0.2;
+
+// 焙煎日からこの日数を過ぎたら「鮮度注意」
+export const FRESHNESS_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function isLowStock(bean: BeanStock): boolean {
+  if (bean.remaining_g === null || bean.bag_weight_g === null) return false;
+  return (
+    bean.remaining_g <= LOW_STOCK_GRAMS ||
+    bean.remaining_g <= bean.bag_weight_g * LOW_STOCK_RATIO
+  );
+}
+
+// 焙煎日からの経過日数（焙煎日が未入力なら null）
+export function daysSinceRoast(bean: Pick<BeanStock, "roast_date">, now = new Date()): number | null {
+  if (!bean.roast_date) return null;
+  return Math.floor((now.getTime() - new Date(bean.roast_date).getTime()) / DAY_MS);
+}
+
+export function isPastFreshness(bean: BeanStock, now = new Date()): boolean {
+  const days = daysSinceRoast(bean, now);
+  return days !== null && days > FRESHNESS_DAYS;
+}
+
+// 残量を「120g / 200g」の形式で表示
+export function formatRemaining(bean: BeanStock): string {
+  if (bean.remaining_g === null || bean.bag_weight_g === null) {
+    return `${bean.used_g}g 使用`;
+  }
+  return `残り ${Math.max(0, bean.remaining_g)}g / ${bean.bag_weight_g}g`;
+}
@@ -0,0 +1,39 @@
+// 抽出レシピの計算・表示用ユーティリティ
+
+// 湯量 ÷ 豆量（どちらかが未入力なら null）
+export function calcBrewRatio(doseG: number | null, waterG: number | null): number | null {
+  if (!doseG || !waterG) return null;
+  return Math.round((waterG / doseG) * 100) / 100;
+}
+
+// 比率を「1:15.0」の形式で表示
+export function formatRatio(ratio: number | null): string {
+  return ratio ? `1:${ratio.toFixed(1)}` : "-";
+}
+
+// 秒数を「2:30」の形式で表示
+export function formatDuration(seconds: number | null): string {
+  if (seconds === null || seconds === undefined) return "-";
+  const m = Math.floor(seconds / 60);
+  const s = seconds % 60;
+  return `${m}:${String(s).padStart(2, "0")}`;
+}
+
+// 「2:30」「150」のどちらの入力も秒数に変換（空欄や不正な値は null）
+export function parseDuration(value: string): number | null {
+  const trimmed = value.trim();
+  if (trimmed === "") return null;
+
+  const match = trimmed.match(/^(\d+):([0-5]?\d)$/);
+  if (match) return Number(match[1]) * 60 + Number(match[2]);
+
+  const seconds = Number(trimmed);
+  return Number.isInteger(seconds) && seconds >= 0 ? seconds : null;
+}
+
+// 数値入力欄の値を変換（空欄や不正な値は null）
+export function parseNumber(value: string): number | null {
+  if (value.trim() === "") return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
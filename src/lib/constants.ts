@@ -0,0 +1,28 @@
+// 焙煎度選択肢
+export const ROAST_LEVELS = ["浅煎り", "中浅煎り", "中煎り", "中深煎り", "深煎り"];
+
+// 味わいの評価軸（1〜5）
+export const TASTE_AXES = [
+  { key: "sourness", label: "酸味" },
+  { key: "sweetness", label: "甘味" },
+  { key: "bitterness", label: "苦味" },
+  { key: "richness", label: "コク" },
+] as const;
+
+export type TasteAxis = (typeof TASTE_AXES)[number]["key"];
+
+// 比較画面で並べられる記録の数
+export const MIN_COMPARE_ENTRIES = 2;
+export const MAX_COMPARE_ENTRIES = 4;
+
+// 記録の公開範囲
+export const ENTRY_VISIBILITIES = [
+  { key: "private", label: "非公開" },
+  { key: "followers", label: "フォロワーのみ" },
+  { key: "public", label: "公開" },
+] as const;
+
+export type EntryVisibility = (typeof ENTRY_VISIBILITIES)[number]["key"];
+
+// 公開プロフィールの URL（/u/<username>）に使うユーザー名（database_setup.sql の制約と同じ）
+export const USERNAME_PATTERN = /^[a-z0-9_]{3,20}$/;
@@ -0,0 +1,92 @@
+// コーヒー記録の CSV エクスポート
+//
+// - 文字コードは UTF-8 (BOM 付き)。Excel で開いても日本語が化けないようにするため
+// - 列は coffee_entries テーブルの全カラムをスキーマと同じ名前・順序で出力する
+// - 配列・オブジェクトの列 (flavor_notes, photos, pour_steps) は JSON 文字列で出力する
+//   例: flavor_notes → ["ベリー","チョコレート"]
+// - null は空欄、真偽値は true / false
+// - =, +, -, @, タブ, CR で始まる文字列は先頭に ' を付ける。表計算ソフトで数式として実行されないようにするため
+// - カッピングの採点 (cupping_scores) は JSON ではなく項目ごとの列 (cupping_flavor など) に展開して末尾に出力する
+import { CUPPING_CATEGORIES } from "@/lib/cupping";
+import type { CoffeeEntry, CuppingScores } from "@/lib/types";
+
+export const ENTRY_CSV_COLUMNS = [
+  "id",
+  "user_id",
+  "bean_id",
+  "bean_name",
+  "bean_origin",
+  "roast_level",
+  "shop_id",
+  "shop",
+  "brew_method",
+  "made_by_user",
+  "grind_size",
+  "sourness",
+  "sweetness",
+  "bitterness",
+  "richness",
+  "flavor_notes",
+  "rating",
+  "memo",
+  "photos",
+  "dose_g",
+  "water_g",
+  "water_temp_c",
+  "brew_time_sec",
+  "bloom_time_sec",
+  "pour_steps",
+  "brew_ratio",
+  "cupping_session_id",
+  "cupping_total",
+  "visibility",
+  "comments_enabled",
+  "created_at",
+  "updated_at",
+] as const satisfies readonly (keyof CoffeeEntry)[];
+
+const CUPPING_SCORE_FIELDS: (keyof CuppingScores)[] = [
+  ...CUPPING_CATEGORIES.map(category => category.key),
+  "taint_cups",
+  "fault_cups",
+];
+
+const BOM = "\uFEFF";
+
+// 1つのセルを CSV 用にエスケープ
+function toCsvCell(value: unknown): string {
+  if (value === null || value === undefined) return "";
+
+  const raw = typeof value === "object" ? JSON.stringify(value) : String(value);
+  // 数値の負数はそのまま、文字列だけを数式と見なさせないようにする
+  const text = typeof value === "string" && /^[=+\-@\t\r]/.test(raw) ? `'${raw}` : raw;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// 記録の一覧を BOM 付き CSV 文字列に変換
+export function entriesToCsv(entries: CoffeeEntry[]): string {
+  const header = [...ENTRY_CSV_COLUMNS, ...CUPPING_SCORE_FIELDS.map(field => `cupping_${field}`)];
+  const lines = [
+    header.join(","),
+    ...entries.map(entry =>
+      [
+        ...ENTRY_CSV_COLUMNS.map(column => entry[column]),
+        ...CUPPING_SCORE_FIELDS.map(field => entry.cupping_scores?.[field]),
+      ].map(toCsvCell).join(",")
+    ),
+  ];
+  return `${BOM}${lines.join("\r\n")}\r\n`;
+}
+
+// CSV をファイルとしてダウンロードさせる
+export function downloadCsv(csv: string, filename: string) {
+  const blob = new Blob([csv], { type: "text/csv;charset=utf-8" });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
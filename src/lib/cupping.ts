@@ -0,0 +1,70 @@
+// SCA 方式のカッピングの採点項目と合計点の計算
+import type { CuppingScores } from "@/lib/types";
+
+export type CuppingCategory = Exclude<keyof CuppingScores, "taint_cups" | "fault_cups">;
+
+// 採点項目（表示順）。min / max / step は入力欄の範囲
+export const CUPPING_CATEGORIES: {
+  key: CuppingCategory;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+}[] = [
+  { key: "fragrance_aroma", label: "フレグランス/アロマ", min: 6, max: 10, step: 0.25 },
+  { key: "flavor", label: "フレーバー", min: 6, max: 10, step: 0.25 },
+  { key: "aftertaste", label: "アフターテイスト", min: 6, max: 10, step: 0.25 },
+  { key: "acidity", label: "アシディティ", min: 6, max: 10, step: 0.25 },
+  { key: "body", label: "ボディ", min: 6, max: 10, step: 0.25 },
+  { key: "balance", label: "バランス", min: 6, max: 10, step: 0.25 },
+  // 5カップそれぞれ問題がなければ 2 点
+  { key: "uniformity", label: "ユニフォミティ", min: 0, max: 10, step: 2 },
+  { key: "clean_cup", label: "クリーンカップ", min: 0, max: 10, step: 2 },
+  { key: "sweetness", label: "スウィートネス", min: 0, max: 10, step: 2 },
+  { key: "overall", label: "オーバーオール", min: 6, max: 10, step: 0.25 },
+];
+
+// 欠点1カップあたりの減点
+const TAINT_PENALTY = 2;
+const FAULT_PENALTY = 4;
+// 1サンプルあたりのカップ数
+export const CUPS_PER_SAMPLE = 5;
+
+export const DEFAULT_CUPPING_SCORES: CuppingScores = {
+  fragrance_aroma: 7.5,
+  flavor: 7.5,
+  aftertaste: 7.5,
+  acidity: 7.5,
+  body: 7.5,
+  balance: 7.5,
+  uniformity: 10,
+  clean_cup: 10,
+  sweetness: 10,
+  overall: 7.5,
+  taint_cups: 0,
+  fault_cups: 0,
+};
+
+// 欠点による減点
+export function cuppingPenalty(scores: CuppingScores): number {
+  return TAINT_PENALTY * scores.taint_cups + FAULT_PENALTY * scores.fault_cups;
+}
+
+// 合計点（DB の cupping_total と同じ計算）
+export function cuppingTotal(scores: CuppingScores): number {
+  const sum = CUPPING_CATEGORIES.reduce((total, { key }) => total + scores[key], 0);
+  return sum - cuppingPenalty(scores);
+}
+
+// 合計点から記録の総合評価（1〜5）を決める（80点以上がスペシャルティ）
+export function cuppingRating(total: number): number {
+  if (total >= 90) return 5;
+  if (total >= 85) return 4;
+  if (total >= 80) return 3;
+  if (total >= 70) return 2;
+  return 1;
+}
+
+export function formatCuppingScore(score: number | null): string {
+  return score === null ? "-" : score.toFixed(2);
+}
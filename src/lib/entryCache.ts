@@ -0,0 +1,19 @@
+// 一覧・詳細ページで読み込んだ記録を画面遷移の間だけ保持する（比較画面で再取得しないため）
+import type { CoffeeEntry } from "@/lib/types";
+
+const cachedEntries = new Map<string, CoffeeEntry>();
+
+export function rememberEntries(entries: CoffeeEntry[]) {
+  for (const entry of entries) {
+    cachedEntries.set(entry.id, entry);
+  }
+}
+
+export function getCachedEntry(id: string): CoffeeEntry | undefined {
+  return cachedEntries.get(id);
+}
+
+// 削除した記録を比較画面に出さないようにする
+export function forgetEntry(id: string) {
+  cachedEntries.delete(id);
+}
@@ -0,0 +1,156 @@
+// 記録一覧の絞り込み条件と URL のクエリ文字列の相互変換
+// 再読み込み・共有・ブラウザの戻る/進む、保存した検索で同じ条件を復元するために使う
+import { parseNumber } from "@/lib/brewRecipe";
+import { TASTE_AXES, type TasteAxis } from "@/lib/constants";
+import type { EntryFilters } from "@/lib/repository";
+
+export type SortOption = NonNullable<EntryFilters["sortBy"]>;
+
+// 味の評価ごとの [下限, 上限]
+export type TasteRanges = Record<TasteAxis, [number, number]>;
+
+export const FULL_TASTE_RANGES: TasteRanges = {
+  sourness: [1, 5],
+  sweetness: [1, 5],
+  bitterness: [1, 5],
+  richness: [1, 5],
+};
+
+// 画面の入力欄の値（数値欄も入力途中の文字列のまま持つ）
+export interface EntryFilterState {
+  searchTerm: string;
+  originFilter: string;
+  roastFilter: string;
+  brewMethodFilter: string;
+  ratingFilter: number;
+  sortBy: SortOption;
+  recipeOnly: boolean;
+  ratioMin: string;
+  ratioMax: string;
+  tempMin: string;
+  tempMax: string;
+  // YYYY-MM-DD（両端を含む）
+  dateFrom: string;
+  dateTo: string;
+  tasteRanges: TasteRanges;
+  flavorNotes: string[];
+  flavorMatch: "any" | "all";
+  shopFilter: string;
+  // home: 自分で淹れた / cafe: お店で飲んだ
+  madeByFilter: "" | "home" | "cafe";
+}
+
+const SORT_OPTIONS: SortOption[] = ["date", "rating", "relevance", ...TASTE_AXES.map(axis => axis.key)];
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// 画面の状態 → クエリ文字列（初期値の項目は省く）
+export function filterStateToQuery(state: EntryFilterState): string {
+  const params = new URLSearchParams();
+  if (state.searchTerm.trim()) params.set("q", state.searchTerm.trim());
+  if (state.originFilter) params.set("origin", state.originFilter);
+  if (state.roastFilter) params.set("roast", state.roastFilter);
+  if (state.brewMethodFilter) params.set("method", state.brewMethodFilter);
+  if (state.ratingFilter > 0) params.set("rating", String(state.ratingFilter));
+  if (state.sortBy !== "date") params.set("sort", state.sortBy);
+  if (state.recipeOnly) params.set("recipe", "1");
+  if (state.ratioMin) params.set("ratio_min", state.ratioMin);
+  if (state.ratioMax) params.set("ratio_max", state.ratioMax);
+  if (state.tempMin) params.set("temp_min", state.tempMin);
+  if (state.tempMax) params.set("temp_max", state.tempMax);
+  if (state.dateFrom) params.set("from", state.dateFrom);
+  if (state.dateTo) params.set("to", state.dateTo);
+  for (const { key } of TASTE_AXES) {
+    const [min, max] = state.tasteRanges[key];
+    if (min > 1 || max < 5) params.set(key, `${min}-${max}`);
+  }
+  for (const note of state.flavorNotes) params.append("flavor", note);
+  if (state.flavorNotes.length > 0 && state.flavorMatch === "all") params.set("flavor_match", "all");
+  if (state.shopFilter) params.set("shop", state.shopFilter);
+  if (state.madeByFilter) params.set("made", state.madeByFilter);
+  return params.toString();
+}
+
+// クエリ文字列 → 画面の状態（不正な値は初期値にする）
+export function queryToFilterState(params: URLSearchParams): EntryFilterState {
+  const rating = Number(params.get("rating"));
+  const sort = params.get("sort") as SortOption | null;
+  const numeric = (key: string) => {
+    const value = params.get(key) ?? "";
+    return parseNumber(value) === null ? "" : value;
+  };
+  const date = (key: string) => {
+    const value = params.get(key) ?? "";
+    return DATE_PATTERN.test(value) ? value : "";
+  };
+  const made = params.get("made");
+
+  const tasteRanges = { ...FULL_TASTE_RANGES };
+  for (const { key } of TASTE_AXES) {
+    const match = params.get(key)?.match(/^([1-5])-([1-5])$/);
+    if (match && Number(match[1]) <= Number(match[2])) {
+      tasteRanges[key] = [Number(match[1]), Number(match[2])];
+    }
+  }
+
+  return {
+    searchTerm: params.get("q") ?? "",
+    originFilter: params.get("origin") ?? "",
+    roastFilter: params.get("roast") ?? "",
+    brewMethodFilter: params.get("method") ?? "",
+    ratingFilter: Number.isInteger(rating) && rating >= 1 && rating <= 5 ? rating : 0,
+    sortBy: sort && SORT_OPTIONS.includes(sort) ? sort : "date",
+    recipeOnly: params.get("recipe") === "1",
+    ratioMin: numeric("ratio_min"),
+    ratioMax: numeric("ratio_max"),
+    tempMin: numeric("temp_min"),
+    tempMax: numeric("temp_max"),
+    dateFrom: date("from"),
+    dateTo: date("to"),
+    tasteRanges,
+    flavorNotes: params.getAll("flavor").filter(Boolean),
+    flavorMatch: params.get("flavor_match") === "all" ? "all" : "any",
+    shopFilter: params.get("shop") ?? "",
+    madeByFilter: made === "home" || made === "cafe" ? made : "",
+  };
+}
+
+// YYYY-MM-DD をその日の 0 時（ローカル時刻）の ISO 形式に変換（days 日ずらす）
+function localDateToIso(value: string, days = 0): string | null {
+  if (!value) return null;
+  const [year, month, day] = value.split("-").map(Number);
+  return new Date(year, month - 1, day + days).toISOString();
+}
+
+// 画面の状態 → リポジトリに渡す検索条件
+export function filterStateToFilters(state: EntryFilterState): EntryFilters {
+  return {
+    searchTerm: state.searchTerm,
+    origin: state.originFilter,
+    roastLevel: state.roastFilter,
+    brewMethod: state.brewMethodFilter,
+    minRating: state.ratingFilter,
+    recipeOnly: state.recipeOnly,
+    ratioMin: parseNumber(state.ratioMin),
+    ratioMax: parseNumber(state.ratioMax),
+    tempMin: parseNumber(state.tempMin),
+    tempMax: parseNumber(state.tempMax),
+    createdFrom: localDateToIso(state.dateFrom),
+    // 終了日はその日の終わりまで含める
+    createdTo: localDateToIso(state.dateTo, 1),
+    taste: Object.fromEntries(
+      TASTE_AXES.map(({ key }) => [key, { min: state.tasteRanges[key][0], max: state.tasteRanges[key][1] }])
+    ),
+    flavorNotes: state.flavorNotes,
+    flavorMatch: state.flavorMatch,
+    shop: state.shopFilter,
+    madeByUser: state.madeByFilter === "" ? null : state.madeByFilter === "home",
+    sortBy: state.sortBy,
+  };
+}
+
+// 保存した検索を追加・変更したときに発火するイベント（ヘッダーのピン留め表示を更新する）
+export const SAVED_SEARCHES_CHANGED_EVENT = "saved-searches-changed";
+
+export function notifySavedSearchesChanged() {
+  window.dispatchEvent(new Event(SAVED_SEARCHES_CHANGED_EVENT));
+}
@@ -0,0 +1,343 @@
+// コーヒー記録の CSV / JSON インポート
+//
+// 1. parseImportFile でファイルを「列名 → 値」の行の配列に変換
+// 2. guessMapping で列名から coffee_entries のカラムへの対応を推測（画面で変更可能）
+// 3. buildImportRows で各行を検証し、既存の記録との重複を判定
+//
+// 値の形式は CSV エクスポート (csvExport.ts) と同じものを受け付ける。
+// 配列の列は JSON 文字列のほか「、」「,」「|」区切りの文字列も可。
+import { parseNumber } from "@/lib/brewRecipe";
+import { normalizeFlavorNotes } from "@/lib/flavorWheel";
+import type { CoffeeEntry, CoffeeEntryInput, EntryKey, PourStep } from "@/lib/types";
+
+export interface ParsedTable {
+  headers: string[];
+  rows: Record<string, unknown>[];
+}
+
+type ImportFieldType = "text" | "number" | "integer" | "boolean" | "list" | "pour_steps" | "timestamp";
+
+interface ImportField {
+  key: keyof CoffeeEntryInput | "created_at";
+  label: string;
+  type: ImportFieldType;
+  required?: boolean;
+  min?: number;
+  max?: number;
+  // 列名の推測に使う別名（小文字で比較）
+  aliases?: string[];
+}
+
+// インポート先として選べるカラム（id や集計用の列は除く）
+export const IMPORT_FIELDS: ImportField[] = [
+  { key: "bean_name", label: "豆の名前", type: "text", required: true, aliases: ["name", "bean", "豆", "銘柄"] },
+  { key: "bean_origin", label: "産地", type: "text", aliases: ["origin", "country"] },
+  { key: "roast_level", label: "焙煎度", type: "text", aliases: ["roast"] },
+  { key: "shop", label: "購入店・カフェ", type: "text", aliases: ["store", "cafe", "店", "店名"] },
+  { key: "brew_method", label: "抽出方法", type: "text", aliases: ["method", "brew"] },
+  { key: "made_by_user", label: "自分で淹れた", type: "boolean" },
+  { key: "grind_size", label: "挽き目", type: "text", aliases: ["grind"] },
+  { key: "sourness", label: "酸味", type: "integer", min: 1, max: 5, aliases: ["acidity"] },
+  { key: "sweetness", label: "甘み", type: "integer", min: 1, max: 5, aliases: ["甘味"] },
+  { key: "bitterness", label: "苦味", type: "integer", min: 1, max: 5, aliases: ["苦み"] },
+  { key: "richness", label: "コク", type: "integer", min: 1, max: 5, aliases: ["body"] },
+  { key: "flavor_notes", label: "フレーバー", type: "list", aliases: ["flavors", "notes", "フレーバーノート"] },
+  { key: "rating", label: "評価", type: "integer", required: true, min: 1, max: 5, aliases: ["score", "stars"] },
+  { key: "memo", label: "メモ", type: "text", aliases: ["note", "comment", "comments"] },
+  { key: "photos", label: "写真URL", type: "list", aliases: ["photo", "写真"] },
+  { key: "dose_g", label: "豆量 (g)", type: "number", min: 0.1, aliases: ["dose", "豆量"] },
+  { key: "water_g", label: "湯量 (g)", type: "number", min: 0.1, aliases: ["water", "湯量"] },
+  { key: "water_temp_c", label: "湯温 (℃)", type: "number", min: 0, max: 100, aliases: ["temp", "temperature", "湯温"] },
+  { key: "brew_time_sec", label: "抽出時間 (秒)", type: "integer", min: 0, aliases: ["brew_time", "抽出時間"] },
+  { key: "bloom_time_sec", label: "蒸らし時間 (秒)", type: "integer", min: 0, aliases: ["bloom_time", "蒸らし"] },
+  { key: "pour_steps", label: "注湯スケジュール", type: "pour_steps" },
+  { key: "created_at", label: "記録日時", type: "timestamp", aliases: ["date", "datetime", "日付", "日時"] },
+];
+
+// 列名 → インポート先カラム（空文字は取り込まない）
+export type ImportMapping = Record<string, ImportField["key"] | "">;
+
+export type ImportedEntry = CoffeeEntryInput & { created_at?: string };
+
+export interface ImportRow {
+  // ファイル上の行番号（見出し行を除いて 1 始まり）
+  line: number;
+  entry: ImportedEntry | null;
+  errors: string[];
+  duplicate: boolean;
+}
+
+// RFC 4180 形式の CSV を2次元配列に変換（BOM・引用符内の改行に対応）
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+  const source = text.replace(/^\uFEFF/, "");
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+
+    if (inQuotes) {
+      if (char === '"' && source[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && source[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== "" || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  // 空行は除く
+  return rows.filter(r => r.some(value => value.trim() !== ""));
+}
+
+// ファイルの中身を行の配列に変換（拡張子か先頭の文字で CSV / JSON を判定）
+export function parseImportFile(text: string, filename: string): ParsedTable {
+  const trimmed = text.replace(/^\uFEFF/, "").trim();
+  const isJson = filename.toLowerCase().endsWith(".json") || trimmed.startsWith("[") || trimmed.startsWith("{");
+
+  if (isJson) {
+    const parsed: unknown = JSON.parse(trimmed);
+    // 配列そのもの、または { entries: [...] } の形式を受け付ける
+    const list = Array.isArray(parsed)
+      ? parsed
+      : typeof parsed === "object" && parsed !== null
+        ? (parsed as { entries?: unknown }).entries
+        : undefined;
+    if (!Array.isArray(list)) {
+      throw new Error("JSONは記録の配列である必要があります");
+    }
+
+    const rows = list.filter(
+      (item): item is Record<string, unknown> => typeof item === "object" && item !== null && !Array.isArray(item)
+    );
+    const headers = Array.from(new Set(rows.flatMap(row => Object.keys(row))));
+    return { headers, rows };
+  }
+
+  const [headerRow, ...dataRows] = parseCsv(trimmed);
+  if (!headerRow) throw new Error("ファイルが空です");
+
+  const headers = headerRow.map(header => header.trim());
+  const rows = dataRows.map(values =>
+    Object.fromEntries(headers.map((header, index) => [header, values[index] ?? ""]))
+  );
+  return { headers, rows };
+}
+
+// 列名からインポート先カラムを推測
+export function guessMapping(headers: string[]): ImportMapping {
+  const mapping: ImportMapping = {};
+  const used = new Set<string>();
+
+  for (const header of headers) {
+    const normalized = header.trim().toLowerCase();
+    const field = IMPORT_FIELDS.find(
+      f =>
+        !used.has(f.key) &&
+        (f.key === normalized ||
+          f.label.toLowerCase() === normalized ||
+          f.aliases?.includes(normalized))
+    );
+    mapping[header] = field ? field.key : "";
+    if (field) used.add(field.key);
+  }
+
+  return mapping;
+}
+
+function isBlank(value: unknown): boolean {
+  return value === null || value === undefined || (typeof value === "string" && value.trim() === "");
+}
+
+function parseBoolean(value: unknown): boolean | null {
+  if (typeof value === "boolean") return value;
+  const normalized = String(value).trim().toLowerCase();
+  if (["true", "1", "yes", "y", "はい", "○"].includes(normalized)) return true;
+  if (["false", "0", "no", "n", "いいえ", "×"].includes(normalized)) return false;
+  return null;
+}
+
+function parseList(value: unknown): string[] | null {
+  if (Array.isArray(value)) return value.map(String);
+
+  const text = String(value).trim();
+  if (text.startsWith("[")) {
+    try {
+      const parsed: unknown = JSON.parse(text);
+      if (Array.isArray(parsed)) return parsed.map(String);
+    } catch {
+      // JSON でなければ区切り文字で分割する
+    }
+  }
+  return text.split(/[、,|]/).map(item => item.trim()).filter(Boolean);
+}
+
+function parsePourSteps(value: unknown): PourStep[] | null {
+  let parsed: unknown = value;
+  if (typeof value === "string") {
+    try {
+      parsed = JSON.parse(value);
+    } catch {
+      return null;
+    }
+  }
+  if (!Array.isArray(parsed)) return null;
+
+  const steps = parsed.map(item => {
+    const step = item as Partial<PourStep>;
+    return {
+      label: String(step.label ?? ""),
+      at_sec: Number(step.at_sec),
+      water_g: step.water_g === null || step.water_g === undefined ? null : Number(step.water_g),
+    };
+  });
+  return steps.every(step => Number.isFinite(step.at_sec)) ? (steps as PourStep[]) : null;
+}
+
+// 1つの値をカラムの型に変換（変換できなければエラーメッセージを返す）
+function convertValue(field: ImportField, value: unknown): { value: unknown } | { error: string } {
+  switch (field.type) {
+    case "text":
+      // エクスポート時に数式よけで付けた先頭の ' を外す
+      return { value: String(value).trim().replace(/^'(?=[=+\-@\t\r])/, "").trim() };
+    case "number":
+    case "integer": {
+      const parsed = typeof value === "number" ? value : parseNumber(String(value));
+      if (parsed === null) return { error: `${field.label}が数値ではありません` };
+      if (field.type === "integer" && !Number.isInteger(parsed)) {
+        return { error: `${field.label}は整数で入力してください` };
+      }
+      if ((field.min !== undefined && parsed < field.min) || (field.max !== undefined && parsed > field.max)) {
+        const range = field.max !== undefined ? `${field.min}〜${field.max}` : `${field.min}以上`;
+        return { error: `${field.label}は${range}の範囲で入力してください` };
+      }
+      return { value: parsed };
+    }
+    case "boolean": {
+      const parsed = parseBoolean(value);
+      return parsed === null ? { error: `${field.label}は true / false で入力してください` } : { value: parsed };
+    }
+    case "list": {
+      const list = parseList(value);
+      // フレーバーは記録フォームと同じ表記にそろえる
+      return { value: list && field.key === "flavor_notes" ? normalizeFlavorNotes(list) : list };
+    }
+    case "pour_steps": {
+      const parsed = parsePourSteps(value);
+      return parsed === null ? { error: `${field.label}の形式が正しくありません` } : { value: parsed };
+    }
+    case "timestamp": {
+      const date = new Date(String(value).trim());
+      return Number.isNaN(date.getTime())
+        ? { error: `${field.label}を日時として読み取れません` }
+        : { value: date.toISOString() };
+    }
+  }
+}
+
+// 同じ豆の名前・同じ記録日時のものを重複とみなす
+function duplicateKey(beanName: string, createdAt: string): string {
+  return `${beanName.trim().toLowerCase()}|${new Date(createdAt).getTime()}`;
+}
+
+// 行を検証して記録の入力値に変換し、既存の記録やファイル内の行との重複を判定
+export function buildImportRows(
+  table: ParsedTable,
+  mapping: ImportMapping,
+  existingEntries: EntryKey[],
+): ImportRow[] {
+  const seen = new Set(existingEntries.map(entry => duplicateKey(entry.bean_name, entry.created_at)));
+
+  return table.rows.map((row, index) => {
+    const errors: string[] = [];
+    const values: Record<string, unknown> = {};
+    const invalid = new Set<string>();
+
+    for (const [header, key] of Object.entries(mapping)) {
+      if (!key) continue;
+      const field = IMPORT_FIELDS.find(f => f.key === key);
+      const raw = row[header];
+      if (!field || isBlank(raw)) continue;
+
+      const result = convertValue(field, raw);
+      if ("error" in result) {
+        errors.push(result.error);
+        invalid.add(key);
+      } else {
+        values[key] = result.value;
+      }
+    }
+
+    for (const field of IMPORT_FIELDS) {
+      if (field.required && values[field.key] === undefined && !invalid.has(field.key)) {
+        errors.push(`${field.label}は必須です`);
+      }
+    }
+
+    if (errors.length > 0) {
+      return { line: index + 1, entry: null, errors, duplicate: false };
+    }
+
+    const entry: ImportedEntry = {
+      bean_id: null,
+      bean_name: values.bean_name as string,
+      bean_origin: (values.bean_origin as string) ?? null,
+      roast_level: (values.roast_level as string) ?? null,
+      // お店で飲んだ記録は保存時に店名からお店に紐付く
+      shop_id: null,
+      shop: (values.shop as string) ?? null,
+      brew_method: (values.brew_method as string) ?? null,
+      made_by_user: (values.made_by_user as boolean) ?? true,
+      grind_size: (values.grind_size as string) ?? null,
+      sourness: (values.sourness as number) ?? 3,
+      sweetness: (values.sweetness as number) ?? 3,
+      bitterness: (values.bitterness as number) ?? 3,
+      richness: (values.richness as number) ?? 3,
+      flavor_notes: (values.flavor_notes as string[]) ?? null,
+      rating: values.rating as number,
+      memo: (values.memo as string) ?? null,
+      photos: (values.photos as string[]) ?? null,
+      dose_g: (values.dose_g as number) ?? null,
+      water_g: (values.water_g as number) ?? null,
+      water_temp_c: (values.water_temp_c as number) ?? null,
+      brew_time_sec: (values.brew_time_sec as number) ?? null,
+      bloom_time_sec: (values.bloom_time_sec as number) ?? null,
+      pour_steps: (values.pour_steps as PourStep[]) ?? null,
+      // 取り込んだ記録はいったん非公開にする（公開は記録ごとに選び直す）
+      visibility: "private",
+      created_at: values.created_at as string | undefined,
+    };
+
+    // 記録日時がない行は取り込み時刻になるので重複判定しない
+    let duplicate = false;
+    if (entry.created_at) {
+      const key = duplicateKey(entry.bean_name, entry.created_at);
+      duplicate = seen.has(key);
+      seen.add(key);
+    }
+
+    return { line: index + 1, entry, errors, duplicate };
+  });
+}
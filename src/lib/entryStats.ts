@@ -0,0 +1,42 @@
+import type { CoffeeEntry } from "@/lib/types";
+
+// ダッシュボード・レポート共通の統計情報
+export function getStats(entries: CoffeeEntry[], now: Date = new Date()) {
+  const totalEntries = entries.length;
+
+  // 平均評価
+  const avgRating = entries.reduce((sum, entry) => sum + entry.rating, 0) / (totalEntries || 1);
+
+  // 最も使用した抽出方法
+  const methodCounts: Record<string, number> = {};
+  for (const entry of entries) {
+    if (entry.brew_method) {
+      methodCounts[entry.brew_method] = (methodCounts[entry.brew_method] || 0) + 1;
+    }
+  }
+  const topMethod = Object.entries(methodCounts)
+    .sort((a, b) => b[1] - a[1])
+    .shift();
+
+  // 最も頻繁に飲んだ豆の産地
+  const originCounts: Record<string, number> = {};
+  for (const entry of entries) {
+    if (entry.bean_origin) {
+      originCounts[entry.bean_origin] = (originCounts[entry.bean_origin] || 0) + 1;
+    }
+  }
+  const topOrigin = Object.entries(originCounts)
+    .sort((a, b) => b[1] - a[1])
+    .shift();
+
+  return {
+    totalEntries,
+    avgRating: avgRating.toFixed(1),
+    topMethod: topMethod ? topMethod[0] : "なし",
+    topOrigin: topOrigin ? topOrigin[0] : "なし",
+    thisMonth: entries.filter(e => {
+      const date = new Date(e.created_at);
+      return date.getMonth() === now.getMonth() && date.getFullYear() === now.getFullYear();
+    }).length,
+  };
+}
@@ -0,0 +1,119 @@
+// フレーバーノートの集計（出現回数・平均評価・一緒に出てくる組み合わせ・産地/焙煎度ごとの分布）
+import { flavorCategory, normalizeFlavorNotes } from "@/lib/flavorWheel";
+import type { CoffeeEntry } from "@/lib/types";
+
+// 記録のままのフレーバーで集計するか、フレーバーホイールのカテゴリにまとめて集計するか
+export type FlavorLevel = "note" | "category";
+
+// カテゴリで集計するときの、フレーバーホイールにないフレーバーのまとめ先
+const UNCATEGORIZED = "分類なし";
+
+// この評価以上を「気に入った一杯」とする
+const LOVED_RATING = 4;
+
+export type FlavorSample = Pick<CoffeeEntry, "flavor_notes" | "rating" | "bean_origin" | "roast_level">;
+
+export interface FlavorStat {
+  note: string;
+  count: number;
+  avgRating: number;
+  // 気に入った一杯（★4以上）の割合
+  lovedRate: number;
+}
+
+export interface FlavorPair {
+  notes: [string, string];
+  count: number;
+}
+
+export interface FlavorHeatmap {
+  notes: string[];
+  groups: string[];
+  // counts[フレーバーの位置][グループの位置]
+  counts: number[][];
+  max: number;
+}
+
+// 記録のフレーバー（表記をそろえ、カテゴリで集計するときはカテゴリ名にして重複を除く）
+export function entryFlavors(entry: FlavorSample, level: FlavorLevel): string[] {
+  const notes = normalizeFlavorNotes(entry.flavor_notes ?? []);
+  if (level === "note") return notes;
+  return [...new Set(notes.map(note => flavorCategory(note) ?? UNCATEGORIZED))];
+}
+
+// フレーバーごとの出現回数と評価（出現回数の多い順）
+export function flavorStats(entries: FlavorSample[], level: FlavorLevel): FlavorStat[] {
+  const totals: Record<string, { count: number; ratingSum: number; loved: number }> = {};
+  for (const entry of entries) {
+    for (const note of entryFlavors(entry, level)) {
+      if (!totals[note]) {
+        totals[note] = { count: 0, ratingSum: 0, loved: 0 };
+      }
+      totals[note].count++;
+      totals[note].ratingSum += entry.rating;
+      if (entry.rating >= LOVED_RATING) totals[note].loved++;
+    }
+  }
+
+  return Object.entries(totals)
+    .map(([note, total]) => ({
+      note,
+      count: total.count,
+      avgRating: total.ratingSum / total.count,
+      lovedRate: total.loved / total.count,
+    }))
+    .sort((a, b) => b.count - a.count || b.avgRating - a.avgRating);
+}
+
+// 同じ記録に一緒に付いていたフレーバーの組み合わせ（回数の多い順）
+export function flavorPairs(entries: FlavorSample[], level: FlavorLevel, limit = 10): FlavorPair[] {
+  const counts: Record<string, FlavorPair> = {};
+  for (const entry of entries) {
+    const notes = entryFlavors(entry, level).sort();
+    for (let i = 0; i < notes.length; i++) {
+      for (let j = i + 1; j < notes.length; j++) {
+        const key = `${notes[i]}\u0000${notes[j]}`;
+        if (!counts[key]) {
+          counts[key] = { notes: [notes[i], notes[j]], count: 0 };
+        }
+        counts[key].count++;
+      }
+    }
+  }
+
+  return Object.values(counts)
+    .sort((a, b) => b.count - a.count)
+    .slice(0, limit);
+}
+
+// 上位のフレーバー × 上位の産地（または焙煎度）ごとの記録数
+export function flavorHeatmap(
+  entries: FlavorSample[],
+  level: FlavorLevel,
+  groupKey: "bean_origin" | "roast_level",
+  { noteLimit = 10, groupLimit = 8 }: { noteLimit?: number; groupLimit?: number } = {},
+): FlavorHeatmap {
+  const notes = flavorStats(entries, level).slice(0, noteLimit).map(stat => stat.note);
+
+  const groupCounts: Record<string, number> = {};
+  for (const entry of entries) {
+    const group = entry[groupKey];
+    if (group) groupCounts[group] = (groupCounts[group] || 0) + 1;
+  }
+  const groups = Object.entries(groupCounts)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, groupLimit)
+    .map(([group]) => group);
+
+  const counts = notes.map(() => groups.map(() => 0));
+  for (const entry of entries) {
+    const groupIndex = groups.indexOf(entry[groupKey] ?? "");
+    if (groupIndex < 0) continue;
+    for (const note of entryFlavors(entry, level)) {
+      const noteIndex = notes.indexOf(note);
+      if (noteIndex >= 0) counts[noteIndex][groupIndex]++;
+    }
+  }
+
+  return { notes, groups, counts, max: Math.max(0, ...counts.flat()) };
+}
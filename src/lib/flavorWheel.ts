@@ -0,0 +1,257 @@
+// SCA のフレーバーホイールをもとにしたフレーバーの分類（カテゴリ → サブカテゴリ → ディスクリプタ）と表記の正規化
+//
+// - 記録には分類のどの階層の名前でも保存できる（「フルーティ」「ベリー」「ブルーベリー」など）
+// - 名前は分類全体で重複しないようにしている（タグから分類上の位置を一意に引けるように）
+// - 分類にないフレーバーもそのまま保存できる（全角・半角や空白だけ揃える）
+
+export interface FlavorNode {
+  name: string;
+  // 検索用の英語名
+  en: string;
+  children?: FlavorNode[];
+}
+
+const node = (name: string, en: string, children?: FlavorNode[]): FlavorNode => ({ name, en, children });
+
+export const FLAVOR_WHEEL: FlavorNode[] = [
+  node("フルーティ", "Fruity", [
+    node("ベリー", "Berry", [
+      node("ブラックベリー", "Blackberry"),
+      node("ラズベリー", "Raspberry"),
+      node("ブルーベリー", "Blueberry"),
+      node("ストロベリー", "Strawberry"),
+    ]),
+    node("ドライフルーツ", "Dried Fruit", [
+      node("レーズン", "Raisin"),
+      node("プルーン", "Prune"),
+    ]),
+    node("その他の果実", "Other Fruit", [
+      node("ココナッツ", "Coconut"),
+      node("チェリー", "Cherry"),
+      node("ザクロ", "Pomegranate"),
+      node("パイナップル", "Pineapple"),
+      node("ブドウ", "Grape"),
+      node("リンゴ", "Apple"),
+      node("モモ", "Peach"),
+      node("洋ナシ", "Pear"),
+    ]),
+    node("シトラス", "Citrus Fruit", [
+      node("グレープフルーツ", "Grapefruit"),
+      node("オレンジ", "Orange"),
+      node("レモン", "Lemon"),
+      node("ライム", "Lime"),
+    ]),
+  ]),
+  node("酸味/発酵", "Sour/Fermented", [
+    node("酸っぱい", "Sour", [
+      node("酢酸", "Acetic Acid"),
+      node("クエン酸", "Citric Acid"),
+      node("リンゴ酸", "Malic Acid"),
+    ]),
+    node("アルコール/発酵", "Alcohol/Fermented", [
+      node("ワイニー", "Winey"),
+      node("ウイスキー", "Whiskey"),
+      node("発酵", "Fermented"),
+      node("熟しすぎ", "Overripe"),
+    ]),
+  ]),
+  node("グリーン/植物", "Green/Vegetative", [
+    node("オリーブオイル", "Olive Oil"),
+    node("生っぽさ", "Raw"),
+    node("植物的", "Vegetative", [
+      node("未熟", "Under-ripe"),
+      node("さやえんどう", "Peapod"),
+      node("フレッシュ", "Fresh"),
+      node("濃い緑", "Dark Green"),
+      node("干し草", "Hay-like"),
+      node("ハーブ", "Herb-like"),
+    ]),
+    node("豆っぽさ", "Beany"),
+  ]),
+  node("その他", "Other", [
+    node("紙/カビ臭", "Papery/Musty", [
+      node("古い", "Stale"),
+      node("段ボール", "Cardboard"),
+      node("紙", "Papery"),
+      node("木", "Woody"),
+      node("カビ", "Moldy/Damp"),
+      node("土", "Musty/Earthy"),
+      node("動物的", "Animalic"),
+      node("肉", "Meaty Brothy"),
+      node("フェノール", "Phenolic"),
+    ]),
+    node("化学的", "Chemical", [
+      node("苦い", "Bitter"),
+      node("塩辛い", "Salty"),
+      node("薬品", "Medicinal"),
+      node("石油", "Petroleum"),
+      node("スカンク", "Skunky"),
+      node("ゴム", "Rubber"),
+    ]),
+  ]),
+  node("ロースト", "Roasted", [
+    node("パイプタバコ", "Pipe Tobacco"),
+    node("タバコ", "Tobacco"),
+    node("焦げ", "Burnt", [
+      node("刺激臭", "Acrid"),
+      node("灰", "Ashy"),
+      node("スモーキー", "Smoky"),
+      node("ブラウンロースト", "Brown, Roast"),
+    ]),
+    node("穀物", "Cereal", [
+      node("グレイン", "Grain"),
+      node("モルト", "Malt"),
+    ]),
+  ]),
+  node("スパイス", "Spices", [
+    node("刺激的", "Pungent"),
+    node("ペッパー", "Pepper"),
+    node("ブラウンスパイス", "Brown Spice", [
+      node("アニス", "Anise"),
+      node("ナツメグ", "Nutmeg"),
+      node("シナモン", "Cinnamon"),
+      node("クローブ", "Clove"),
+    ]),
+  ]),
+  node("ナッツ/ココア", "Nutty/Cocoa", [
+    node("ナッツ", "Nutty", [
+      node("ピーナッツ", "Peanuts"),
+      node("ヘーゼルナッツ", "Hazelnut"),
+      node("アーモンド", "Almond"),
+    ]),
+    node("ココア", "Cocoa", [
+      node("チョコレート", "Chocolate"),
+      node("ダークチョコレート", "Dark Chocolate"),
+    ]),
+  ]),
+  node("甘い", "Sweet", [
+    node("ブラウンシュガー", "Brown Sugar", [
+      node("糖蜜", "Molasses"),
+      node("メープルシロップ", "Maple Syrup"),
+      node("キャラメル", "Caramelized"),
+      node("ハチミツ", "Honey"),
+    ]),
+    node("バニラ", "Vanilla"),
+    node("バニリン", "Vanillin"),
+    node("全体的な甘さ", "Overall Sweet"),
+    node("甘い香り", "Sweet Aromatics"),
+  ]),
+  node("フローラル", "Floral", [
+    node("紅茶", "Black Tea"),
+    node("花", "Flower", [
+      node("カモミール", "Chamomile"),
+      node("バラ", "Rose"),
+      node("ジャスミン", "Jasmine"),
+    ]),
+  ]),
+];
+
+// 以前の選択肢や表記ゆれ → 分類上の名前
+const FLAVOR_ALIASES: Record<string, string> = {
+  "ナッティ": "ナッツ",
+  "ベリー系": "ベリー",
+  "柑橘系": "シトラス",
+  "柑橘": "シトラス",
+  "スパイシー": "スパイス",
+  "スイート": "甘い",
+  "チョコ": "チョコレート",
+  "はちみつ": "ハチミツ",
+  "蜂蜜": "ハチミツ",
+  "りんご": "リンゴ",
+  "林檎": "リンゴ",
+  "ぶどう": "ブドウ",
+  "葡萄": "ブドウ",
+  "もも": "モモ",
+  "桃": "モモ",
+  "ピーチ": "モモ",
+  "アップル": "リンゴ",
+  "グレープ": "ブドウ",
+  "いちご": "ストロベリー",
+  "苺": "ストロベリー",
+  "ワイン": "ワイニー",
+};
+
+// 分類上の位置（カテゴリからの名前の並び）
+export interface FlavorMatch {
+  name: string;
+  path: string[];
+}
+
+const FLAVOR_PATHS = new Map<string, string[]>();
+// 小文字にした名前・英語名・別名 → 分類上の名前
+const FLAVOR_LOOKUP = new Map<string, string>();
+
+function indexNodes(nodes: FlavorNode[], parents: string[]) {
+  for (const item of nodes) {
+    const path = [...parents, item.name];
+    FLAVOR_PATHS.set(item.name, path);
+    FLAVOR_LOOKUP.set(item.name.toLowerCase(), item.name);
+    FLAVOR_LOOKUP.set(item.en.toLowerCase(), item.name);
+    if (item.children) indexNodes(item.children, path);
+  }
+}
+indexNodes(FLAVOR_WHEEL, []);
+for (const [alias, name] of Object.entries(FLAVOR_ALIASES)) {
+  FLAVOR_LOOKUP.set(alias.toLowerCase(), name);
+}
+
+// 全角英数・半角カナの統一と空白の整理
+function cleanText(text: string): string {
+  return text.normalize("NFKC").trim().replace(/\s+/g, " ");
+}
+
+// フレーバー1件を保存用の表記に揃える（分類にあればその名前、なければ整えた入力のまま。空なら null）
+export function normalizeFlavorNote(raw: string): string | null {
+  const text = cleanText(raw);
+  if (!text) return null;
+  return FLAVOR_LOOKUP.get(text.toLowerCase()) ?? text;
+}
+
+// 複数のフレーバーを揃えて重複を除く（順番は最初に出てきた位置）
+export function normalizeFlavorNotes(notes: string[]): string[] {
+  const normalized: string[] = [];
+  for (const note of notes) {
+    const name = normalizeFlavorNote(note);
+    if (name && !normalized.includes(name)) {
+      normalized.push(name);
+    }
+  }
+  return normalized;
+}
+
+// 分類上の位置（分類にないフレーバーは null）
+export function flavorPath(name: string): string[] | null {
+  return FLAVOR_PATHS.get(name) ?? null;
+}
+
+// 分類の最上位のカテゴリ名（分類にないフレーバーは null）
+export function flavorCategory(name: string): string | null {
+  return FLAVOR_PATHS.get(name)?.[0] ?? null;
+}
+
+// 入力中の文字列に一致するフレーバー（前方一致を優先。分類にない過去のフレーバーも含める）
+export function searchFlavors(query: string, customNotes: string[] = [], limit = 8): FlavorMatch[] {
+  const text = cleanText(query).toLowerCase();
+  if (!text) return [];
+
+  // 名前・英語名・別名のどれかに一致したフレーバーごとの順位（0: 前方一致 / 1: 部分一致）
+  const ranks = new Map<string, number>();
+  const addCandidate = (key: string, name: string) => {
+    const rank = key.startsWith(text) ? 0 : key.includes(text) ? 1 : -1;
+    if (rank >= 0 && rank < (ranks.get(name) ?? 2)) {
+      ranks.set(name, rank);
+    }
+  };
+  for (const [key, name] of FLAVOR_LOOKUP) {
+    addCandidate(key, name);
+  }
+  for (const note of customNotes) {
+    addCandidate(note.toLowerCase(), note);
+  }
+
+  const candidates = [...ranks].map(([name, rank]) => ({ name, path: FLAVOR_PATHS.get(name) ?? [name], rank }));
+  return candidates
+    .sort((a, b) => a.rank - b.rank || a.path.length - b.path.length)
+    .slice(0, limit)
+    .map(({ name, path }) => ({ name, path }));
+}
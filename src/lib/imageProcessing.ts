@@ -0,0 +1,88 @@
+// アップロード前の画像処理（リサイズ・再エンコード・メタデータ除去）
+// canvas に描き直して書き出すため、GPS などの EXIF 情報は出力に含まれない
+
+export interface ImageProcessingOptions {
+  // 長辺の最大ピクセル数
+  maxDimension: number;
+  // サムネイルの長辺の最大ピクセル数
+  thumbnailDimension: number;
+  // 0〜1 のエンコード品質
+  quality: number;
+}
+
+export interface ProcessedImage {
+  blob: Blob;
+  thumbnail: Blob;
+  // 出力形式に合わせた拡張子（webp または jpg）
+  extension: string;
+}
+
+const envNumber = (value: string | undefined, fallback: number) => {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+// 既定値は環境変数で上書きできる
+export const DEFAULT_IMAGE_OPTIONS: ImageProcessingOptions = {
+  maxDimension: envNumber(process.env.NEXT_PUBLIC_IMAGE_MAX_DIMENSION, 1920),
+  thumbnailDimension: envNumber(process.env.NEXT_PUBLIC_IMAGE_THUMBNAIL_DIMENSION, 400),
+  quality: 0.85,
+};
+
+// 画像を読み込む（EXIF の回転情報はここで反映される）
+async function loadImage(file: Blob): Promise<ImageBitmap> {
+  try {
+    return await createImageBitmap(file, { imageOrientation: "from-image" });
+  } catch {
+    throw new Error("この画像形式には対応していません。JPEG・PNG・WebP の画像を選んでください");
+  }
+}
+
+function toBlob(canvas: HTMLCanvasElement, type: string, quality: number): Promise<Blob | null> {
+  return new Promise(resolve => canvas.toBlob(resolve, type, quality));
+}
+
+// 長辺が maxDimension 以下になるよう縮小して書き出す
+// WebP に対応していないブラウザ（toBlob が PNG を返す）では JPEG にする
+async function encode(
+  image: ImageBitmap,
+  maxDimension: number,
+  quality: number,
+): Promise<{ blob: Blob; extension: string }> {
+  const scale = Math.min(1, maxDimension / Math.max(image.width, image.height));
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.round(image.width * scale);
+  canvas.height = Math.round(image.height * scale);
+
+  const context = canvas.getContext("2d");
+  if (!context) throw new Error("画像の処理に失敗しました");
+  context.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+  const webp = await toBlob(canvas, "image/webp", quality);
+  if (webp && webp.type === "image/webp") {
+    return { blob: webp, extension: "webp" };
+  }
+
+  const jpeg = await toBlob(canvas, "image/jpeg", quality);
+  if (!jpeg) throw new Error("画像の処理に失敗しました");
+  return { blob: jpeg, extension: "jpg" };
+}
+
+export async function processImage(
+  file: Blob,
+  options: Partial<ImageProcessingOptions> = {},
+): Promise<ProcessedImage> {
+  const { maxDimension, thumbnailDimension, quality } = {
+    ...DEFAULT_IMAGE_OPTIONS,
+    ...options,
+  };
+
+  const image = await loadImage(file);
+  try {
+    const full = await encode(image, maxDimension, quality);
+    const thumbnail = await encode(image, thumbnailDimension, quality);
+    return { blob: full.blob, thumbnail: thumbnail.blob, extension: full.extension };
+  } finally {
+    image.close();
+  }
+}
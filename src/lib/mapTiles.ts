@@ -0,0 +1,118 @@
+// 地図タイルの取得元と、緯度経度 ⇔ 地図上の位置の変換（Web メルカトル）
+//
+// タイルの取得元は差し替えられる。NEXT_PUBLIC_MAP_TILE_URL を設定すると既定の OpenStreetMap の代わりに使う
+// 例: オフライン用に public/tiles/{z}/{x}/{y}.png へタイルを置き "/tiles/{z}/{x}/{y}.png" を指定する
+
+export interface TileSource {
+  // {z} {x} {y} を含むタイル画像の URL（{s} があればサブドメインを順に割り当てる）
+  url: string;
+  subdomains: string[];
+  attribution: string;
+  minZoom: number;
+  maxZoom: number;
+  // タイル1枚の大きさ（px）
+  tileSize: number;
+}
+
+export const OSM_TILE_SOURCE: TileSource = {
+  url: "https://tile.openstreetmap.org/{z}/{x}/{y}.png",
+  subdomains: [],
+  attribution: "© OpenStreetMap contributors",
+  minZoom: 1,
+  maxZoom: 19,
+  tileSize: 256,
+};
+
+// 環境変数で指定されたタイルの取得元（未設定なら OpenStreetMap）
+export function defaultTileSource(): TileSource {
+  const url = process.env.NEXT_PUBLIC_MAP_TILE_URL;
+  if (!url) return OSM_TILE_SOURCE;
+
+  const maxZoom = Number(process.env.NEXT_PUBLIC_MAP_MAX_ZOOM);
+  return {
+    ...OSM_TILE_SOURCE,
+    url,
+    subdomains: process.env.NEXT_PUBLIC_MAP_TILE_SUBDOMAINS?.split(",").filter(Boolean) ?? [],
+    attribution: process.env.NEXT_PUBLIC_MAP_TILE_ATTRIBUTION ?? "",
+    maxZoom: Number.isInteger(maxZoom) && maxZoom > 0 ? maxZoom : OSM_TILE_SOURCE.maxZoom,
+  };
+}
+
+export function tileUrl(source: TileSource, z: number, x: number, y: number): string {
+  const subdomain = source.subdomains.length > 0
+    ? source.subdomains[Math.abs(x + y) % source.subdomains.length]
+    : "";
+  return source.url
+    .replace("{s}", subdomain)
+    .replace("{z}", String(z))
+    .replace("{x}", String(x))
+    .replace("{y}", String(y));
+}
+
+export interface LatLng {
+  latitude: number;
+  longitude: number;
+}
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+// メルカトル図法で表せる緯度の範囲
+const MAX_LATITUDE = 85.05112878;
+
+// 緯度経度 → ズームレベル zoom の世界全体を並べたときの位置（px）
+export function project({ latitude, longitude }: LatLng, zoom: number, tileSize: number): Point {
+  const size = tileSize * 2 ** zoom;
+  const lat = Math.max(-MAX_LATITUDE, Math.min(MAX_LATITUDE, latitude)) * (Math.PI / 180);
+  return {
+    x: ((longitude + 180) / 360) * size,
+    y: ((1 - Math.log(Math.tan(lat) + 1 / Math.cos(lat)) / Math.PI) / 2) * size,
+  };
+}
+
+// project の逆変換
+export function unproject({ x, y }: Point, zoom: number, tileSize: number): LatLng {
+  const size = tileSize * 2 ** zoom;
+  const n = Math.PI - (2 * Math.PI * y) / size;
+  return {
+    latitude: (180 / Math.PI) * Math.atan(Math.sinh(n)),
+    longitude: (x / size) * 360 - 180,
+  };
+}
+
+// すべての地点が width × height に収まる中心とズームレベル（地点が1つならその周辺を表示）
+export function fitView(
+  points: LatLng[],
+  width: number,
+  height: number,
+  source: TileSource,
+  { padding = 40, singleZoom = 15 }: { padding?: number; singleZoom?: number } = {},
+): { center: LatLng; zoom: number } | null {
+  if (points.length === 0) return null;
+
+  const latitudes = points.map(point => point.latitude);
+  const longitudes = points.map(point => point.longitude);
+  const center = {
+    latitude: (Math.min(...latitudes) + Math.max(...latitudes)) / 2,
+    longitude: (Math.min(...longitudes) + Math.max(...longitudes)) / 2,
+  };
+  if (points.length === 1) {
+    return { center, zoom: Math.min(singleZoom, source.maxZoom) };
+  }
+
+  const northWest = { latitude: Math.max(...latitudes), longitude: Math.min(...longitudes) };
+  const southEast = { latitude: Math.min(...latitudes), longitude: Math.max(...longitudes) };
+  for (let zoom = source.maxZoom; zoom > source.minZoom; zoom--) {
+    const topLeft = project(northWest, zoom, source.tileSize);
+    const bottomRight = project(southEast, zoom, source.tileSize);
+    if (
+      bottomRight.x - topLeft.x <= width - padding * 2 &&
+      bottomRight.y - topLeft.y <= height - padding * 2
+    ) {
+      return { center, zoom };
+    }
+  }
+  return { center, zoom: source.minZoom };
+}
@@ -0,0 +1,87 @@
+import { supabase } from "@/lib/supabaseClient";
+import { processImage } from "@/lib/imageProcessing";
+
+export const COFFEE_PHOTOS_BUCKET = "coffee-photos";
+
+// サムネイルは元画像と同じフォルダの thumbs/ 以下に同じファイル名で保存する
+const THUMBNAIL_DIR = "thumbs";
+
+// アップロード処理を通したファイル名（<時刻>-<乱数>.<拡張子>）
+// これ以前にアップロードされた写真にはサムネイルがない
+const PROCESSED_FILENAME = /^\d+-[a-z0-9]+\.(webp|jpg)$/;
+
+// 公開URLからバケット内のパスを取り出す（例: .../coffee-photos/<userId>/<file> → <userId>/<file>）
+export function getPhotoPath(url: string): string | null {
+  const marker = `/${COFFEE_PHOTOS_BUCKET}/`;
+  const index = url.indexOf(marker);
+  if (index === -1) return null;
+  return decodeURIComponent(url.slice(index + marker.length).split("?")[0]);
+}
+
+function toThumbnailPath(path: string): string | null {
+  const slash = path.lastIndexOf("/");
+  const filename = path.slice(slash + 1);
+  if (!PROCESSED_FILENAME.test(filename)) return null;
+  return `${path.slice(0, slash)}/${THUMBNAIL_DIR}/${filename}`;
+}
+
+// 一覧表示用のサムネイルURL（サムネイルがない古い写真は元のURL）
+export function getThumbnailUrl(url: string): string {
+  const path = getPhotoPath(url);
+  const thumbnailPath = path && toThumbnailPath(path);
+  if (!thumbnailPath) return url;
+
+  const { data } = supabase.storage
+    .from(COFFEE_PHOTOS_BUCKET)
+    .getPublicUrl(thumbnailPath);
+
+  return data.publicUrl;
+}
+
+// 記録に紐づく写真（とサムネイル）をストレージから削除
+export async function removePhotos(urls: string[]) {
+  const paths: string[] = [];
+  for (const url of urls) {
+    const path = getPhotoPath(url);
+    if (!path) continue;
+    paths.push(path);
+
+    const thumbnailPath = toThumbnailPath(path);
+    if (thumbnailPath) paths.push(thumbnailPath);
+  }
+  if (paths.length === 0) return;
+
+  const { error } = await supabase.storage
+    .from(COFFEE_PHOTOS_BUCKET)
+    .remove(paths);
+
+  if (error) throw error;
+}
+
+// 写真を縮小・メタデータ除去してからサムネイルと一緒にアップロードし、公開URLを返す
+// 複数枚を続けてアップロードしてもファイル名が衝突しないよう乱数を付ける
+export async function uploadPhoto(userId: string, file: File): Promise<string> {
+  const { blob, thumbnail, extension } = await processImage(file);
+  const suffix = Math.random().toString(36).slice(2, 8);
+  const filename = `${Date.now()}-${suffix}.${extension}`;
+  const path = `${userId}/${filename}`;
+  const contentType = blob.type;
+
+  const { error } = await supabase.storage
+    .from(COFFEE_PHOTOS_BUCKET)
+    .upload(path, blob, { contentType });
+
+  if (error) throw error;
+
+  const { error: thumbnailError } = await supabase.storage
+    .from(COFFEE_PHOTOS_BUCKET)
+    .upload(`${userId}/${THUMBNAIL_DIR}/${filename}`, thumbnail, { contentType });
+
+  if (thumbnailError) throw thumbnailError;
+
+  const { data } = supabase.storage
+    .from(COFFEE_PHOTOS_BUCKET)
+    .getPublicUrl(path);
+
+  return data.publicUrl;
+}
@@ -0,0 +1,348 @@
+// 過去の記録から好みを推定し、在庫・欲しい豆の予想評価と、まだ試していない産地・焙煎度を提案する
+//
+// - 評価は全体の平均との差で考え、記録の少ない項目ほど全体の平均に寄せる（1杯だけの偶然で極端な点にしない）
+// - 記録のない産地・焙煎度は、下の一般的な味の傾向と「どの味が強いと評価が上がるか」から見積もる
+// - 外部のサービスは使わず、ユーザーの記録とこのファイルの表だけで計算する
+import { ROAST_LEVELS, TASTE_AXES, type TasteAxis } from "@/lib/constants";
+import { flavorCategory, normalizeFlavorNotes } from "@/lib/flavorWheel";
+import { averageTaste, type TasteProfile } from "@/lib/tasteProfile";
+import type { PreferenceSample } from "@/lib/types";
+
+// 好みを推定するのに必要な記録数
+export const MIN_PREFERENCE_SAMPLES = 3;
+
+// 全体の平均に寄せる強さ（この杯数ぶん平均的な評価の記録があるとみなす）
+const PRIOR_WEIGHT = 2;
+// 記録のない産地・焙煎度の見積もりは不確かなので、影響を割り引く
+const ESTIMATE_WEIGHT = 0.5;
+// 産地・焙煎度とフレーバーは重なりが大きいので、フレーバーの影響は割り引いて足す
+const FLAVOR_WEIGHT = 0.5;
+// 味の評価軸から見積もる影響の上限（評価の差）
+const MAX_TASTE_EFFECT = 1.5;
+// 理由として表示する数
+const MAX_REASONS = 3;
+
+interface OriginProfile {
+  name: string;
+  // 産地の表記に含まれていればこの産地とみなす別名（地域名・銘柄名）
+  aliases: string[];
+  // 中煎りでの一般的な味わい（1〜5）
+  taste: TasteProfile;
+  // よく感じるフレーバー（フレーバーホイールのカテゴリ）
+  flavors: string[];
+}
+
+const taste = (sourness: number, sweetness: number, bitterness: number, richness: number): TasteProfile => ({
+  sourness,
+  sweetness,
+  bitterness,
+  richness,
+});
+
+// 主な産地の一般的な傾向
+const ORIGIN_PROFILES: OriginProfile[] = [
+  { name: "エチオピア", aliases: ["イルガチェフェ", "シダモ", "グジ", "ゲシャ"], taste: taste(4, 3.5, 2, 2.5), flavors: ["フルーティ", "フローラル"] },
+  { name: "ケニア", aliases: [], taste: taste(4.5, 3, 2.5, 3.5), flavors: ["フルーティ", "酸味/発酵"] },
+  { name: "タンザニア", aliases: ["キリマンジャロ"], taste: taste(4, 3, 2.5, 3), flavors: ["フルーティ"] },
+  { name: "ルワンダ", aliases: [], taste: taste(3.5, 3.5, 2.5, 3), flavors: ["フルーティ", "甘い"] },
+  { name: "イエメン", aliases: [], taste: taste(3.5, 3.5, 3, 3.5), flavors: ["フルーティ", "スパイス"] },
+  { name: "パナマ", aliases: [], taste: taste(4, 4, 2, 2.5), flavors: ["フローラル", "フルーティ"] },
+  { name: "コスタリカ", aliases: [], taste: taste(3.5, 4, 2.5, 3), flavors: ["甘い", "フルーティ"] },
+  { name: "グアテマラ", aliases: ["アンティグア"], taste: taste(3, 3.5, 3, 3.5), flavors: ["ナッツ/ココア", "スパイス"] },
+  { name: "エルサルバドル", aliases: [], taste: taste(3, 3.5, 3, 3), flavors: ["甘い", "ナッツ/ココア"] },
+  { name: "ホンジュラス", aliases: [], taste: taste(3, 3.5, 3, 3), flavors: ["甘い", "フルーティ"] },
+  { name: "コロンビア", aliases: ["ウイラ", "ナリーニョ"], taste: taste(3, 3.5, 3, 3.5), flavors: ["甘い", "ナッツ/ココア"] },
+  { name: "ペルー", aliases: [], taste: taste(3, 3.5, 3, 3), flavors: ["ナッツ/ココア", "甘い"] },
+  { name: "ブラジル", aliases: ["セラード", "サントス"], taste: taste(2, 3.5, 3.5, 3.5), flavors: ["ナッツ/ココア", "甘い"] },
+  { name: "メキシコ", aliases: [], taste: taste(3, 3, 3, 2.5), flavors: ["ナッツ/ココア"] },
+  { name: "ジャマイカ", aliases: ["ブルーマウンテン"], taste: taste(3, 3.5, 2.5, 3), flavors: ["甘い", "ナッツ/ココア"] },
+  { name: "インドネシア", aliases: ["スマトラ", "マンデリン", "トラジャ", "スラウェシ", "ジャワ"], taste: taste(1.5, 3, 4, 4.5), flavors: ["スパイス", "グリーン/植物", "ロースト"] },
+];
+
+// 焙煎度による味わいの変化（中煎りとの差）
+const ROAST_SHIFTS: Record<string, TasteProfile> = {
+  "浅煎り": taste(1, -0.5, -1, -0.5),
+  "中浅煎り": taste(0.5, 0, -0.5, -0.25),
+  "中煎り": taste(0, 0, 0, 0),
+  "中深煎り": taste(-0.5, 0, 0.5, 0.5),
+  "深煎り": taste(-1, -0.5, 1, 1),
+};
+
+// 記録を集計しやすい形にしたもの
+interface PreparedSample {
+  origin: string | null;
+  roast: string | null;
+  categories: string[];
+  taste: TasteProfile;
+  rating: number;
+}
+
+export interface PreferenceModel {
+  samples: PreparedSample[];
+  // 全記録の平均評価
+  mean: number;
+  tasteMeans: TasteProfile;
+  // 各評価軸が1強いと評価がどれだけ上下するか
+  tasteSlopes: TasteProfile;
+}
+
+// 予想の根拠（「エチオピアは平均 ★4.5（4杯）」など）
+export interface RecommendationReason {
+  text: string;
+  // 予想評価への影響（プラスなら好みに合う）
+  effect: number;
+}
+
+export interface Recommendation {
+  // 予想評価（1〜5）
+  score: number;
+  reasons: RecommendationReason[];
+  // 根拠になった記録の数（0 なら一般的な傾向だけからの見積もり）
+  basis: number;
+}
+
+// おすすめ度を求める対象（豆、またはまだ試していない産地 × 焙煎度）
+export interface RecommendationCandidate {
+  origin: string | null;
+  roast_level: string | null;
+  flavor_notes: string[] | null;
+}
+
+export interface UntriedSuggestion extends Recommendation {
+  origin: string;
+  roast_level: string;
+  // 産地・焙煎度それぞれが初めてかどうか
+  newOrigin: boolean;
+  newRoast: boolean;
+}
+
+interface RatingStat {
+  count: number;
+  avg: number;
+}
+
+// 産地の表記（「エチオピア イルガチェフェ」など）を集計用の産地名にする
+// 主な産地に当てはまらなければ、整えた表記のまま
+export function originGroup(origin: string | null): string | null {
+  const text = origin?.normalize("NFKC").trim().replace(/\s+/g, " ");
+  if (!text) return null;
+  const profile = ORIGIN_PROFILES.find(
+    item => text.includes(item.name) || item.aliases.some(alias => text.includes(alias)),
+  );
+  return profile?.name ?? text;
+}
+
+function flavorCategories(notes: string[] | null): string[] {
+  const categories = normalizeFlavorNotes(notes ?? []).map(flavorCategory);
+  return [...new Set(categories.filter((category): category is string => category !== null))];
+}
+
+// 評価軸ごとの「その味が1強いと評価がどれだけ変わるか」（最小二乗の傾きを記録数に応じて 0 に寄せる）
+function tasteSlope(samples: PreparedSample[], axis: TasteAxis, mean: number, axisMean: number): number {
+  let covariance = 0;
+  let variance = 0;
+  for (const sample of samples) {
+    const diff = sample.taste[axis] - axisMean;
+    covariance += diff * (sample.rating - mean);
+    variance += diff * diff;
+  }
+  if (variance === 0) return 0;
+  const slope = (covariance / variance) * (samples.length / (samples.length + PRIOR_WEIGHT));
+  return Math.max(-1, Math.min(1, slope));
+}
+
+// 記録から好みを推定する（記録が少なすぎる場合は null）
+export function buildPreferenceModel(entries: PreferenceSample[]): PreferenceModel | null {
+  if (entries.length < MIN_PREFERENCE_SAMPLES) return null;
+
+  const samples = entries.map(entry => ({
+    origin: originGroup(entry.bean_origin),
+    roast: entry.roast_level || null,
+    categories: flavorCategories(entry.flavor_notes),
+    taste: taste(entry.sourness, entry.sweetness, entry.bitterness, entry.richness),
+    rating: entry.rating,
+  }));
+  const mean = samples.reduce((sum, sample) => sum + sample.rating, 0) / samples.length;
+  const tasteMeans = averageTaste(samples.map(sample => sample.taste)) as TasteProfile;
+  const slope = (axis: TasteAxis) => tasteSlope(samples, axis, mean, tasteMeans[axis]);
+
+  return {
+    samples,
+    mean,
+    tasteMeans,
+    tasteSlopes: taste(slope("sourness"), slope("sweetness"), slope("bitterness"), slope("richness")),
+  };
+}
+
+function ratingStat(model: PreferenceModel, match: (sample: PreparedSample) => boolean): RatingStat | null {
+  const matched = model.samples.filter(match);
+  if (matched.length === 0) return null;
+  return {
+    count: matched.length,
+    avg: matched.reduce((sum, sample) => sum + sample.rating, 0) / matched.length,
+  };
+}
+
+// 記録の平均評価を全体の平均に寄せたときの、全体の平均との差
+// base を渡すと、全体の平均の代わりにその見積もり（平均との差）に寄せる
+function shrunkEffect(model: PreferenceModel, stat: RatingStat, base = 0): number {
+  return (stat.count * stat.avg + PRIOR_WEIGHT * (model.mean + base)) / (stat.count + PRIOR_WEIGHT) - model.mean;
+}
+
+function statText(subject: string, stat: RatingStat): string {
+  return `${subject}は平均 ★${stat.avg.toFixed(1)}（${stat.count}杯）`;
+}
+
+// 味わいから見積もった評価の差と、いちばん効いている評価軸の説明
+function tasteEstimate(model: PreferenceModel, profile: TasteProfile, subject: string): RecommendationReason {
+  let effect = 0;
+  let strongest: { label: string; diff: number; slope: number; contribution: number } | null = null;
+  for (const { key, label } of TASTE_AXES) {
+    const diff = profile[key] - model.tasteMeans[key];
+    const slope = model.tasteSlopes[key];
+    const contribution = slope * diff;
+    effect += contribution;
+    if (!strongest || Math.abs(contribution) > Math.abs(strongest.contribution)) {
+      strongest = { label, diff, slope, contribution };
+    }
+  }
+  effect = Math.max(-MAX_TASTE_EFFECT, Math.min(MAX_TASTE_EFFECT, effect)) * ESTIMATE_WEIGHT;
+
+  if (!strongest || Math.abs(strongest.contribution) < 0.05) {
+    return { text: `${subject}の味わいは、これまでの好みと比べて特に偏りがありません`, effect };
+  }
+  const { label, diff, slope, contribution } = strongest;
+  const character = `${subject}は一般に${label}が${diff > 0 ? "強め" : "控えめ"}`;
+  const preference = `${label}の${slope > 0 ? "強い" : "控えめな"}一杯ほど評価が高い傾向`;
+  return {
+    text: contribution > 0 ? `${character}で、${preference}です` : `${character}ですが、${preference}があります`,
+    effect,
+  };
+}
+
+// 候補の予想評価と、その理由
+export function scoreCandidate(model: PreferenceModel, candidate: RecommendationCandidate): Recommendation {
+  const origin = originGroup(candidate.origin);
+  const roast = candidate.roast_level || null;
+  const originProfile = ORIGIN_PROFILES.find(item => item.name === origin);
+  const reasons: RecommendationReason[] = [];
+  let basis = 0;
+
+  // 産地
+  let originEffect = 0;
+  const originStat = origin ? ratingStat(model, sample => sample.origin === origin) : null;
+  if (origin && originStat) {
+    originEffect = shrunkEffect(model, originStat);
+    reasons.push({ text: statText(origin, originStat), effect: originEffect });
+    basis += originStat.count;
+  } else if (originProfile) {
+    const estimate = tasteEstimate(model, originProfile.taste, originProfile.name);
+    originEffect = estimate.effect;
+    reasons.push(estimate);
+  }
+
+  // 焙煎度
+  let roastEffect = 0;
+  const roastStat = roast ? ratingStat(model, sample => sample.roast === roast) : null;
+  if (roast && roastStat) {
+    roastEffect = shrunkEffect(model, roastStat);
+    reasons.push({ text: statText(roast, roastStat), effect: roastEffect });
+    basis = Math.max(basis, roastStat.count);
+  } else if (roast && ROAST_SHIFTS[roast]) {
+    const shifted = { ...model.tasteMeans };
+    for (const { key } of TASTE_AXES) shifted[key] += ROAST_SHIFTS[roast][key];
+    const estimate = tasteEstimate(model, shifted, roast);
+    roastEffect = estimate.effect;
+    reasons.push(estimate);
+  }
+
+  // 豆にフレーバーがなければ、産地の一般的なフレーバーで見積もる
+  const noted = flavorCategories(candidate.flavor_notes);
+  const categories = noted.length > 0 ? noted : originProfile?.flavors ?? [];
+  const flavorWeight = noted.length > 0 ? FLAVOR_WEIGHT : FLAVOR_WEIGHT * ESTIMATE_WEIGHT;
+
+  // 同じ産地 × 焙煎度の記録があれば、産地・焙煎度それぞれの見積もりに寄せた実績で置き換える
+  let effect = originEffect + roastEffect;
+  const comboStat = origin && roast
+    ? ratingStat(model, sample => sample.origin === origin && sample.roast === roast)
+    : null;
+  if (origin && roast && comboStat) {
+    effect = shrunkEffect(model, comboStat, effect);
+    reasons.length = 0;
+    // 同じフレーバーのカテゴリまで一致する記録が複数あれば、そちらを説明に使う
+    const flavoredStats = categories
+      .map(category => ({
+        category,
+        stat: ratingStat(
+          model,
+          sample => sample.origin === origin && sample.roast === roast && sample.categories.includes(category),
+        ),
+      }))
+      .filter((item): item is { category: string; stat: RatingStat } => item.stat !== null && item.stat.count >= 2)
+      .sort((a, b) => b.stat.count - a.stat.count);
+    const subject = flavoredStats.length > 0
+      ? `${roast}で${flavoredStats[0].category}系の${origin}`
+      : `${roast}の${origin}`;
+    reasons.push({ text: statText(subject, flavoredStats[0]?.stat ?? comboStat), effect });
+    basis = comboStat.count;
+  }
+
+  // フレーバー（カテゴリごとの実績の平均）
+  const flavorReasons = categories
+    .map(category => {
+      const stat = ratingStat(model, sample => sample.categories.includes(category));
+      return stat && { text: statText(`フレーバーが「${category}」の一杯`, stat), effect: shrunkEffect(model, stat) };
+    })
+    .filter((reason): reason is RecommendationReason => reason !== null);
+  if (flavorReasons.length > 0) {
+    const flavorEffect = flavorReasons.reduce((sum, reason) => sum + reason.effect, 0) / flavorReasons.length;
+    effect += flavorEffect * flavorWeight;
+    reasons.push(...flavorReasons);
+  }
+
+  return {
+    score: Math.max(1, Math.min(5, model.mean + effect)),
+    reasons: reasons
+      .sort((a, b) => Math.abs(b.effect) - Math.abs(a.effect))
+      .slice(0, MAX_REASONS),
+    basis,
+  };
+}
+
+// 候補を予想評価の高い順に並べる
+export function rankCandidates<T extends RecommendationCandidate>(
+  model: PreferenceModel,
+  candidates: T[],
+): (Recommendation & { candidate: T })[] {
+  return candidates
+    .map(candidate => ({ candidate, ...scoreCandidate(model, candidate) }))
+    .sort((a, b) => b.score - a.score);
+}
+
+// まだ試していない産地・焙煎度の組み合わせのうち、好みに合いそうなもの（産地ごとに最もよい焙煎度を1つ）
+export function suggestUntried(model: PreferenceModel, limit = 5): UntriedSuggestion[] {
+  const isText = (value: string | null): value is string => value !== null;
+  const triedOrigins = new Set(model.samples.map(sample => sample.origin).filter(isText));
+  const triedRoasts = new Set(model.samples.map(sample => sample.roast).filter(isText));
+  const origins = new Set([...ORIGIN_PROFILES.map(item => item.name), ...triedOrigins]);
+
+  const suggestions: UntriedSuggestion[] = [];
+  for (const origin of origins) {
+    const newOrigin = !triedOrigins.has(origin);
+    let best: UntriedSuggestion | null = null;
+    for (const roast of ROAST_LEVELS) {
+      const newRoast = !triedRoasts.has(roast);
+      if (!newOrigin && !newRoast) continue;
+
+      const recommendation = scoreCandidate(model, { origin, roast_level: roast, flavor_notes: null });
+      if (!best || recommendation.score > best.score) {
+        best = { ...recommendation, origin, roast_level: roast, newOrigin, newRoast };
+      }
+    }
+    if (best) suggestions.push(best);
+  }
+
+  return suggestions
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
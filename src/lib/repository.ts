@@ -0,0 +1,1034 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { supabase } from "@/lib/supabaseClient";
+import type { TasteAxis } from "@/lib/constants";
+import { splitSearchTerms } from "@/lib/searchSnippet";
+import type {
+  Bean,
+  BeanInput,
+  BeanStock,
+  CoffeeEntry,
+  CoffeeEntryInput,
+  CuppingSession,
+  CuppingSessionInput,
+  EntryComment,
+  EntryKey,
+  FollowCounts,
+  PreferenceSample,
+  PublicEntryStats,
+  ReactionCounts,
+  SavedSearch,
+  SavedSearchInput,
+  Shop,
+  ShopInput,
+  ShopStats,
+  TasteSample,
+  TimelineEntry,
+  UserProfile,
+  UserProfileInput,
+} from "@/lib/types";
+
+// 1件も見つからなかった場合のPostgRESTエラーコード
+const NOT_FOUND_CODE = "PGRST116";
+
+export interface ListEntriesOptions {
+  // 取得件数の上限（未指定なら全件）
+  limit?: number;
+  ascending?: boolean;
+}
+
+// 記録一覧の絞り込み条件（未指定の項目は絞り込まない）
+export interface EntryFilters {
+  // 豆名・産地・メモ・フレーバーなどの全文検索（空白区切りの語をすべて含むもの）
+  searchTerm?: string;
+  origin?: string;
+  roastLevel?: string;
+  brewMethod?: string;
+  // この評価以上
+  minRating?: number;
+  // 抽出レシピ（比率）を記録したもののみ
+  recipeOnly?: boolean;
+  ratioMin?: number | null;
+  ratioMax?: number | null;
+  tempMin?: number | null;
+  tempMax?: number | null;
+  // 記録日時の範囲（ISO 形式。createdTo は含まない）
+  createdFrom?: string | null;
+  createdTo?: string | null;
+  // 味の評価ごとの下限・上限
+  taste?: Partial<Record<TasteAxis, { min: number; max: number }>>;
+  // フレーバーノート（any: いずれかを含む / all: すべてを含む）
+  flavorNotes?: string[];
+  flavorMatch?: "any" | "all";
+  shop?: string;
+  // true: 自分で淹れた / false: お店で飲んだ / 未指定: 両方
+  madeByUser?: boolean | null;
+  // relevance はキーワード指定時のみ有効（なければ日付順）。味の評価軸は高い順
+  sortBy?: "date" | "rating" | "relevance" | TasteAxis;
+}
+
+export interface EntryPage {
+  entries: CoffeeEntry[];
+  // 絞り込み条件に一致する件数
+  total: number;
+}
+
+export interface EntryFilterOptions {
+  origins: string[];
+  brewMethods: string[];
+  shops: string[];
+  flavorNotes: string[];
+}
+
+// PostgREST で一度に取得できる件数の上限
+const MAX_ROWS_PER_REQUEST = 1000;
+
+// インポートで一度に insert する件数
+const IMPORT_CHUNK_SIZE = 100;
+
+// インポートの1行ごとの結果（index は渡した配列の位置、成功なら error は null）
+export interface ImportResult {
+  index: number;
+  error: string | null;
+}
+
+// カッピングセッション一覧の1件（サンプル数つき）
+export interface CuppingSessionSummary extends CuppingSession {
+  sample_count: number;
+}
+
+// カッピングで採点したサンプル（記録として保存する）
+export type CuppingSampleInput = CoffeeEntryInput & Pick<CoffeeEntry, "cupping_scores">;
+
+// Supabaseクライアントを受け取ってデータアクセス関数をまとめて返す
+// テストではフェイクのクライアントを渡して使う
+export function createRepository(client: SupabaseClient) {
+  // ユーザーの記録一覧（新しい順）
+  const listEntries = async (
+    userId: string,
+    options: ListEntriesOptions = {},
+  ): Promise<CoffeeEntry[]> => {
+    const query = () => client
+      .from("coffee_entries")
+      .select("*")
+      .eq("user_id", userId)
+      .order("created_at", { ascending: options.ascending ?? false })
+      .order("id", { ascending: options.ascending ?? false });
+
+    if (options.limit !== undefined) {
+      const { data, error } = await query().limit(options.limit);
+      if (error) throw error;
+      return (data || []) as CoffeeEntry[];
+    }
+
+    // PostgREST は1回に MAX_ROWS_PER_REQUEST 件までしか返さないので、全件は分けて取得する
+    const entries: CoffeeEntry[] = [];
+    for (let offset = 0; ; offset += MAX_ROWS_PER_REQUEST) {
+      const { data, error } = await query().range(offset, offset + MAX_ROWS_PER_REQUEST - 1);
+      if (error) throw error;
+      entries.push(...((data || []) as CoffeeEntry[]));
+      if (!data || data.length < MAX_ROWS_PER_REQUEST) break;
+    }
+    return entries;
+  };
+
+  // 絞り込み条件と並び順を適用したクエリ（取得範囲は呼び出し側で指定）
+  const filteredEntriesQuery = (userId: string, filters: EntryFilters) => {
+    // キーワードがあれば全文検索の関数（関連度順で返る）から、なければテーブルから取得
+    const term = filters.searchTerm?.trim();
+    let query = term
+      ? client.rpc("search_coffee_entries", { search_query: term }, { count: "exact" })
+      : client.from("coffee_entries").select("*", { count: "exact" });
+
+    query = query.eq("user_id", userId);
+    // 語ごとに ILIKE の条件を付ける（語が固定値の条件になるので search_text のトライグラムインデックスを使える）
+    for (const word of splitSearchTerms(term ?? "")) {
+      query = query.ilike("search_text", `%${word.replace(/[\\%_]/g, "\\$&")}%`);
+    }
+    if (filters.origin) query = query.eq("bean_origin", filters.origin);
+    if (filters.roastLevel) query = query.eq("roast_level", filters.roastLevel);
+    if (filters.brewMethod) query = query.eq("brew_method", filters.brewMethod);
+    if (filters.minRating) query = query.gte("rating", filters.minRating);
+    if (filters.recipeOnly) query = query.not("brew_ratio", "is", null);
+    if (filters.ratioMin != null) query = query.gte("brew_ratio", filters.ratioMin);
+    if (filters.ratioMax != null) query = query.lte("brew_ratio", filters.ratioMax);
+    if (filters.tempMin != null) query = query.gte("water_temp_c", filters.tempMin);
+    if (filters.tempMax != null) query = query.lte("water_temp_c", filters.tempMax);
+    if (filters.createdFrom) query = query.gte("created_at", filters.createdFrom);
+    if (filters.createdTo) query = query.lt("created_at", filters.createdTo);
+    for (const [axis, range] of Object.entries(filters.taste ?? {})) {
+      if (range.min > 1) query = query.gte(axis, range.min);
+      if (range.max < 5) query = query.lte(axis, range.max);
+    }
+    if (filters.flavorNotes && filters.flavorNotes.length > 0) {
+      query = filters.flavorMatch === "all"
+        ? query.contains("flavor_notes", filters.flavorNotes)
+        : query.overlaps("flavor_notes", filters.flavorNotes);
+    }
+    if (filters.shop) query = query.eq("shop", filters.shop);
+    if (filters.madeByUser != null) query = query.eq("made_by_user", filters.madeByUser);
+
+    if (term && filters.sortBy === "relevance") {
+      return query;
+    }
+    if (filters.sortBy && filters.sortBy !== "date" && filters.sortBy !== "relevance") {
+      query = query.order(filters.sortBy, { ascending: false });
+    }
+    return query.order("created_at", { ascending: false });
+  };
+
+  // 絞り込み条件に一致する記録を offset 件目から limit 件取得
+  const searchEntries = async (
+    userId: string,
+    filters: EntryFilters,
+    range: { offset: number; limit: number },
+  ): Promise<EntryPage> => {
+    const { data, error, count } = await filteredEntriesQuery(userId, filters)
+      .range(range.offset, range.offset + range.limit - 1);
+
+    if (error) throw error;
+    return { entries: (data || []) as CoffeeEntry[], total: count ?? 0 };
+  };
+
+  // 絞り込み条件に一致する記録をすべて取得（エクスポート用）
+  const listMatchingEntries = async (
+    userId: string,
+    filters: EntryFilters,
+  ): Promise<CoffeeEntry[]> => {
+    const entries: CoffeeEntry[] = [];
+    for (let offset = 0; ; offset += MAX_ROWS_PER_REQUEST) {
+      const page = await searchEntries(userId, filters, { offset, limit: MAX_ROWS_PER_REQUEST });
+      entries.push(...page.entries);
+      if (page.entries.length < MAX_ROWS_PER_REQUEST || entries.length >= page.total) break;
+    }
+    return entries;
+  };
+
+  // 味わいの比較用に、ユーザーの全記録の味の評価と産地・焙煎度・抽出方法だけを取得
+  // カッピングのサンプル（セッションを削除しても採点は残る）は味の評価軸を入力しないため除く
+  const listTasteSamples = async (userId: string): Promise<TasteSample[]> => {
+    const samples: TasteSample[] = [];
+    for (let offset = 0; ; offset += MAX_ROWS_PER_REQUEST) {
+      const { data, error } = await client
+        .from("coffee_entries")
+        .select("id, sourness, sweetness, bitterness, richness, bean_origin, roast_level, brew_method")
+        .eq("user_id", userId)
+        .is("cupping_scores", null)
+        .order("created_at", { ascending: false })
+        .range(offset, offset + MAX_ROWS_PER_REQUEST - 1);
+
+      if (error) throw error;
+      samples.push(...((data || []) as TasteSample[]));
+      if (!data || data.length < MAX_ROWS_PER_REQUEST) break;
+    }
+    return samples;
+  };
+
+  // インポートの重複判定用に、ユーザーの全記録の豆の名前と記録日時だけを取得
+  const listEntryKeys = async (userId: string): Promise<EntryKey[]> => {
+    const keys: EntryKey[] = [];
+    for (let offset = 0; ; offset += MAX_ROWS_PER_REQUEST) {
+      const { data, error } = await client
+        .from("coffee_entries")
+        .select("bean_name, created_at")
+        .eq("user_id", userId)
+        .order("created_at", { ascending: false })
+        .range(offset, offset + MAX_ROWS_PER_REQUEST - 1);
+
+      if (error) throw error;
+      keys.push(...((data || []) as EntryKey[]));
+      if (!data || data.length < MAX_ROWS_PER_REQUEST) break;
+    }
+    return keys;
+  };
+
+  // おすすめ用に、ユーザーの全記録の味の評価・産地・焙煎度・フレーバー・評価だけを取得
+  // カッピングのサンプル（セッションを削除しても採点は残る）は味の評価軸を入力しないため除く
+  const listPreferenceSamples = async (userId: string): Promise<PreferenceSample[]> => {
+    const samples: PreferenceSample[] = [];
+    for (let offset = 0; ; offset += MAX_ROWS_PER_REQUEST) {
+      const { data, error } = await client
+        .from("coffee_entries")
+        .select("sourness, sweetness, bitterness, richness, bean_origin, roast_level, flavor_notes, rating")
+        .eq("user_id", userId)
+        .is("cupping_scores", null)
+        .order("created_at", { ascending: false })
+        .range(offset, offset + MAX_ROWS_PER_REQUEST - 1);
+
+      if (error) throw error;
+      samples.push(...((data || []) as PreferenceSample[]));
+      if (!data || data.length < MAX_ROWS_PER_REQUEST) break;
+    }
+    return samples;
+  };
+
+  // ユーザーの記録の総数
+  const countEntries = async (userId: string): Promise<number> => {
+    const { count, error } = await client
+      .from("coffee_entries")
+      .select("id", { count: "exact", head: true })
+      .eq("user_id", userId);
+
+    if (error) throw error;
+    return count ?? 0;
+  };
+
+  // 絞り込みの選択肢（記録に使われている産地・抽出方法）
+  const getEntryFilterOptions = async (userId: string): Promise<EntryFilterOptions> => {
+    const { data, error } = await client
+      .from("entry_filter_options")
+      .select("kind, value")
+      .eq("user_id", userId)
+      .order("value");
+
+    if (error) throw error;
+    const rows = (data || []) as { kind: string; value: string }[];
+    return {
+      origins: rows.filter(row => row.kind === "origin").map(row => row.value),
+      brewMethods: rows.filter(row => row.kind === "brew_method").map(row => row.value),
+      shops: rows.filter(row => row.kind === "shop").map(row => row.value),
+      flavorNotes: rows.filter(row => row.kind === "flavor").map(row => row.value),
+    };
+  };
+
+  // 記録1件（見つからなければエラー）
+  const getEntry = async (id: string): Promise<CoffeeEntry> => {
+    const { data, error } = await client
+      .from("coffee_entries")
+      .select("*")
+      .eq("id", id)
+      .single();
+
+    if (error) throw error;
+    if (!data) throw new Error("記録が見つかりません");
+    return data as CoffeeEntry;
+  };
+
+  const createEntry = async (
+    userId: string,
+    input: CoffeeEntryInput,
+  ): Promise<CoffeeEntry> => {
+    const { data, error } = await client
+      .from("coffee_entries")
+      .insert({
+        user_id: userId,
+        ...input,
+        created_at: new Date().toISOString(),
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data as CoffeeEntry;
+  };
+
+  // 記録をまとめて登録する（インポート用）
+  // まとめて insert し、失敗したまとまりは1件ずつ登録し直して失敗した行を特定する
+  const importEntries = async (
+    userId: string,
+    inputs: (CoffeeEntryInput & { created_at?: string })[],
+  ): Promise<ImportResult[]> => {
+    const results: ImportResult[] = [];
+    const now = new Date().toISOString();
+    const toRow = (input: CoffeeEntryInput & { created_at?: string }) => ({
+      user_id: userId,
+      ...input,
+      created_at: input.created_at ?? now,
+    });
+
+    for (let start = 0; start < inputs.length; start += IMPORT_CHUNK_SIZE) {
+      const chunk = inputs.slice(start, start + IMPORT_CHUNK_SIZE);
+      const { error } = await client.from("coffee_entries").insert(chunk.map(toRow));
+
+      if (!error) {
+        results.push(...chunk.map((_, i) => ({ index: start + i, error: null })));
+        continue;
+      }
+
+      for (const [i, input] of chunk.entries()) {
+        const { error: rowError } = await client.from("coffee_entries").insert(toRow(input));
+        results.push({ index: start + i, error: rowError ? rowError.message : null });
+      }
+    }
+
+    return results;
+  };
+
+  const updateEntry = async (
+    id: string,
+    input: Partial<CoffeeEntryInput>,
+  ): Promise<CoffeeEntry> => {
+    const { data, error } = await client
+      .from("coffee_entries")
+      .update({
+        ...input,
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", id)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data as CoffeeEntry;
+  };
+
+  const deleteEntry = async (id: string): Promise<void> => {
+    const { error } = await client
+      .from("coffee_entries")
+      .delete()
+      .eq("id", id);
+
+    if (error) throw error;
+  };
+
+  const setCommentsEnabled = async (id: string, enabled: boolean): Promise<void> => {
+    const { error } = await client
+      .from("coffee_entries")
+      .update({ comments_enabled: enabled, updated_at: new Date().toISOString() })
+      .eq("id", id);
+
+    if (error) throw error;
+  };
+
+  // 同じ豆（袋）から淹れた自分の記録（新しい順）
+  const listEntriesByBean = async (userId: string, beanId: string): Promise<CoffeeEntry[]> => {
+    const { data, error } = await client
+      .from("coffee_entries")
+      .select("*")
+      .eq("user_id", userId)
+      .eq("bean_id", beanId)
+      .order("created_at", { ascending: false });
+
+    if (error) throw error;
+    return (data || []) as CoffeeEntry[];
+  };
+
+  // 同じお店で飲んだ自分の記録（新しい順）
+  const listEntriesByShop = async (userId: string, shopId: string): Promise<CoffeeEntry[]> => {
+    const { data, error } = await client
+      .from("coffee_entries")
+      .select("*")
+      .eq("user_id", userId)
+      .eq("shop_id", shopId)
+      .order("created_at", { ascending: false });
+
+    if (error) throw error;
+    return (data || []) as CoffeeEntry[];
+  };
+
+  // ユーザーの豆一覧（購入日の新しい順）
+  const listBeans = async (userId: string): Promise<Bean[]> => {
+    const { data, error } = await client
+      .from("beans")
+      .select("*")
+      .eq("user_id", userId)
+      .order("purchase_date", { ascending: false, nullsFirst: false })
+      .order("created_at", { ascending: false });
+
+    if (error) throw error;
+    return (data || []) as Bean[];
+  };
+
+  // 残量つきの豆一覧（既定では使い切った豆と欲しい豆を除く）
+  const listBeanStock = async (
+    userId: string,
+    options: { includeFinished?: boolean; includeWishlist?: boolean } = {},
+  ): Promise<BeanStock[]> => {
+    let query = client
+      .from("bean_stock")
+      .select("*")
+      .eq("user_id", userId);
+
+    if (!options.includeFinished) {
+      query = query.eq("finished", false);
+    }
+    if (!options.includeWishlist) {
+      query = query.eq("wishlist", false);
+    }
+
+    const { data, error } = await query
+      .order("purchase_date", { ascending: false, nullsFirst: false })
+      .order("created_at", { ascending: false });
+
+    if (error) throw error;
+    return (data || []) as BeanStock[];
+  };
+
+  const getBeanStock = async (id: string): Promise<BeanStock> => {
+    const { data, error } = await client
+      .from("bean_stock")
+      .select("*")
+      .eq("id", id)
+      .single();
+
+    if (error) throw error;
+    if (!data) throw new Error("豆が見つかりません");
+    return data as BeanStock;
+  };
+
+  const getBean = async (id: string): Promise<Bean> => {
+    const { data, error } = await client
+      .from("beans")
+      .select("*")
+      .eq("id", id)
+      .single();
+
+    if (error) throw error;
+    if (!data) throw new Error("豆が見つかりません");
+    return data as Bean;
+  };
+
+  const createBean = async (userId: string, input: BeanInput): Promise<Bean> => {
+    const { data, error } = await client
+      .from("beans")
+      .insert({ user_id: userId, ...input })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data as Bean;
+  };
+
+  const updateBean = async (
+    id: string,
+    input: Partial<BeanInput> & Partial<Pick<Bean, "finished">>,
+  ): Promise<Bean> => {
+    const { data, error } = await client
+      .from("beans")
+      .update({
+        ...input,
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", id)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data as Bean;
+  };
+
+  const deleteBean = async (id: string): Promise<void> => {
+    const { error } = await client
+      .from("beans")
+      .delete()
+      .eq("id", id);
+
+    if (error) throw error;
+  };
+
+  // 訪問回数・平均評価つきのお店一覧（最近行った順。まだ記録のないお店は最後）
+  const listShops = async (userId: string): Promise<ShopStats[]> => {
+    const { data, error } = await client
+      .from("shop_stats")
+      .select("*")
+      .eq("user_id", userId)
+      .order("last_visited_at", { ascending: false, nullsFirst: false })
+      .order("name");
+
+    if (error) throw error;
+    return (data || []) as ShopStats[];
+  };
+
+  const getShop = async (id: string): Promise<ShopStats> => {
+    const { data, error } = await client
+      .from("shop_stats")
+      .select("*")
+      .eq("id", id)
+      .single();
+
+    if (error) throw error;
+    if (!data) throw new Error("お店が見つかりません");
+    return data as ShopStats;
+  };
+
+  const createShop = async (userId: string, input: ShopInput): Promise<Shop> => {
+    const { data, error } = await client
+      .from("shops")
+      .insert({ user_id: userId, ...input })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data as Shop;
+  };
+
+  // 名前を変えると、紐付いた記録の店名もDB側で変わる
+  const updateShop = async (id: string, input: Partial<ShopInput>): Promise<Shop> => {
+    const { data, error } = await client
+      .from("shops")
+      .update({
+        ...input,
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", id)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data as Shop;
+  };
+
+  const deleteShop = async (id: string): Promise<void> => {
+    const { error } = await client
+      .from("shops")
+      .delete()
+      .eq("id", id);
+
+    if (error) throw error;
+  };
+
+  // source のお店の記録を target に付け替えて、source を削除する
+  const mergeShops = async (sourceId: string, targetId: string): Promise<void> => {
+    const { error } = await client.rpc("merge_shops", { source_id: sourceId, target_id: targetId });
+
+    if (error) throw error;
+  };
+
+  // ユーザーのカッピングセッション一覧（開催日の新しい順）
+  const listCuppingSessions = async (userId: string): Promise<CuppingSessionSummary[]> => {
+    const { data, error } = await client
+      .from("cupping_sessions")
+      .select("*, coffee_entries(count)")
+      .eq("user_id", userId)
+      .order("held_on", { ascending: false })
+      .order("created_at", { ascending: false });
+
+    if (error) throw error;
+    return (data || []).map(({ coffee_entries, ...session }) => ({
+      ...(session as CuppingSession),
+      sample_count: (coffee_entries as { count: number }[])[0]?.count ?? 0,
+    }));
+  };
+
+  const getCuppingSession = async (id: string): Promise<CuppingSession> => {
+    const { data, error } = await client
+      .from("cupping_sessions")
+      .select("*")
+      .eq("id", id)
+      .single();
+
+    if (error) throw error;
+    if (!data) throw new Error("カッピングセッションが見つかりません");
+    return data as CuppingSession;
+  };
+
+  // セッションで採点したサンプル（合計点の高い順）
+  const listCuppingSamples = async (userId: string, sessionId: string): Promise<CoffeeEntry[]> => {
+    const { data, error } = await client
+      .from("coffee_entries")
+      .select("*")
+      .eq("user_id", userId)
+      .eq("cupping_session_id", sessionId)
+      .order("cupping_total", { ascending: false, nullsFirst: false })
+      .order("created_at", { ascending: true });
+
+    if (error) throw error;
+    return (data || []) as CoffeeEntry[];
+  };
+
+  // セッションとサンプルの記録をまとめて保存（記録の保存に失敗したらセッションも削除する）
+  const createCuppingSession = async (
+    userId: string,
+    input: CuppingSessionInput,
+    samples: CuppingSampleInput[],
+  ): Promise<CuppingSession> => {
+    const { data, error } = await client
+      .from("cupping_sessions")
+      .insert({ user_id: userId, ...input })
+      .select()
+      .single();
+
+    if (error) throw error;
+    const session = data as CuppingSession;
+
+    const now = new Date().toISOString();
+    const { error: samplesError } = await client.from("coffee_entries").insert(
+      samples.map(sample => ({
+        user_id: userId,
+        ...sample,
+        cupping_session_id: session.id,
+        created_at: now,
+      }))
+    );
+
+    if (samplesError) {
+      await client.from("cupping_sessions").delete().eq("id", session.id);
+      throw samplesError;
+    }
+    return session;
+  };
+
+  // セッションを削除（サンプルの記録は通常の記録として残る）
+  const deleteCuppingSession = async (id: string): Promise<void> => {
+    const { error } = await client
+      .from("cupping_sessions")
+      .delete()
+      .eq("id", id);
+
+    if (error) throw error;
+  };
+
+  // プロフィール（未作成ならnull）
+  const getProfile = async (userId: string): Promise<UserProfile | null> => {
+    const { data, error } = await client
+      .from("users")
+      .select("*")
+      .eq("id", userId)
+      .single();
+
+    if (error && error.code !== NOT_FOUND_CODE) throw error;
+    return (data as UserProfile | null) ?? null;
+  };
+
+  const saveProfile = async (profile: UserProfileInput): Promise<void> => {
+    const { error } = await client.from("users").upsert({
+      ...profile,
+      updated_at: new Date().toISOString(),
+    });
+
+    if (error) throw error;
+  };
+
+  // ユーザー名からプロフィールを取得（公開していないプロフィールは本人以外には null）
+  const getProfileByUsername = async (username: string): Promise<UserProfile | null> => {
+    const { data, error } = await client
+      .from("users")
+      .select("*")
+      .eq("username", username)
+      .maybeSingle();
+
+    if (error) throw error;
+    return (data as UserProfile | null) ?? null;
+  };
+
+  // 公開の記録の集計（公開の記録がなければ null）
+  const getPublicEntryStats = async (userId: string): Promise<PublicEntryStats | null> => {
+    const { data, error } = await client
+      .from("public_entry_stats")
+      .select("*")
+      .eq("user_id", userId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return (data as PublicEntryStats | null) ?? null;
+  };
+
+  // 公開の記録を新しい順に offset 件目から limit 件取得
+  const listPublicEntries = async (
+    userId: string,
+    range: { offset: number; limit: number },
+  ): Promise<EntryPage> => {
+    const { data, error, count } = await client
+      .from("coffee_entries")
+      .select("*", { count: "exact" })
+      .eq("user_id", userId)
+      .eq("visibility", "public")
+      .order("created_at", { ascending: false })
+      .range(range.offset, range.offset + range.limit - 1);
+
+    if (error) throw error;
+    return { entries: (data || []) as CoffeeEntry[], total: count ?? 0 };
+  };
+
+  // フォローされている数とフォローしている数
+  const getFollowCounts = async (userId: string): Promise<FollowCounts> => {
+    const [followers, following] = await Promise.all([
+      client.from("follows").select("follower_id", { count: "exact", head: true }).eq("followee_id", userId),
+      client.from("follows").select("followee_id", { count: "exact", head: true }).eq("follower_id", userId),
+    ]);
+
+    if (followers.error) throw followers.error;
+    if (following.error) throw following.error;
+    return { followers: followers.count ?? 0, following: following.count ?? 0 };
+  };
+
+  const isFollowing = async (followerId: string, followeeId: string): Promise<boolean> => {
+    const { count, error } = await client
+      .from("follows")
+      .select("followee_id", { count: "exact", head: true })
+      .eq("follower_id", followerId)
+      .eq("followee_id", followeeId);
+
+    if (error) throw error;
+    return (count ?? 0) > 0;
+  };
+
+  const follow = async (followerId: string, followeeId: string): Promise<void> => {
+    const { error } = await client
+      .from("follows")
+      .insert({ follower_id: followerId, followee_id: followeeId });
+
+    if (error) throw error;
+  };
+
+  const unfollow = async (followerId: string, followeeId: string): Promise<void> => {
+    const { error } = await client
+      .from("follows")
+      .delete()
+      .eq("follower_id", followerId)
+      .eq("followee_id", followeeId);
+
+    if (error) throw error;
+  };
+
+  const isBlocking = async (blockerId: string, blockedId: string): Promise<boolean> => {
+    const { count, error } = await client
+      .from("blocks")
+      .select("blocked_id", { count: "exact", head: true })
+      .eq("blocker_id", blockerId)
+      .eq("blocked_id", blockedId);
+
+    if (error) throw error;
+    return (count ?? 0) > 0;
+  };
+
+  // ブロックするとお互いのフォローはDB側で解除される
+  const block = async (blockerId: string, blockedId: string): Promise<void> => {
+    const { error } = await client
+      .from("blocks")
+      .insert({ blocker_id: blockerId, blocked_id: blockedId });
+
+    if (error) throw error;
+  };
+
+  const unblock = async (blockerId: string, blockedId: string): Promise<void> => {
+    const { error } = await client
+      .from("blocks")
+      .delete()
+      .eq("blocker_id", blockerId)
+      .eq("blocked_id", blockedId);
+
+    if (error) throw error;
+  };
+
+  // タイムライン（フォローしているユーザーの見られる記録を新しい順に limit 件）
+  // before を指定するとその記録より後ろの記録を取得する（続きの読み込み用）
+  // カッピングやインポートでは同じ日時の記録がまとめて作られるので、同じ日時の中は id の順で区切る
+  const listTimeline = async (
+    userId: string,
+    options: { before?: { createdAt: string; id: string }; limit: number },
+  ): Promise<TimelineEntry[]> => {
+    let query = client
+      .from("timeline_entries")
+      .select("*")
+      .eq("follower_id", userId)
+      .order("created_at", { ascending: false })
+      .order("id", { ascending: false })
+      .limit(options.limit);
+
+    if (options.before) {
+      const { createdAt, id } = options.before;
+      query = query.or(`created_at.lt."${createdAt}",and(created_at.eq."${createdAt}",id.lt.${id})`);
+    }
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return (data || []) as TimelineEntry[];
+  };
+
+  // 記録ごとのいいね数・コメント数（いいね・コメントのない記録は含まない）
+  const getReactionCounts = async (entryIds: string[]): Promise<Record<string, ReactionCounts>> => {
+    if (entryIds.length === 0) return {};
+    const { data, error } = await client
+      .from("entry_reaction_counts")
+      .select("*")
+      .in("entry_id", entryIds)
+      .or("like_count.gt.0,comment_count.gt.0");
+
+    if (error) throw error;
+    const counts: Record<string, ReactionCounts> = {};
+    for (const row of (data || []) as (ReactionCounts & { entry_id: string })[]) {
+      counts[row.entry_id] = { like_count: row.like_count, comment_count: row.comment_count };
+    }
+    return counts;
+  };
+
+  const isLiked = async (userId: string, entryId: string): Promise<boolean> => {
+    const { count, error } = await client
+      .from("entry_likes")
+      .select("entry_id", { count: "exact", head: true })
+      .eq("user_id", userId)
+      .eq("entry_id", entryId);
+
+    if (error) throw error;
+    return (count ?? 0) > 0;
+  };
+
+  const like = async (userId: string, entryId: string): Promise<void> => {
+    const { error } = await client
+      .from("entry_likes")
+      .insert({ user_id: userId, entry_id: entryId });
+
+    if (error) throw error;
+  };
+
+  const unlike = async (userId: string, entryId: string): Promise<void> => {
+    const { error } = await client
+      .from("entry_likes")
+      .delete()
+      .eq("user_id", userId)
+      .eq("entry_id", entryId);
+
+    if (error) throw error;
+  };
+
+  // 記録のコメント（古い順。返信は parent_id でたどる）
+  const listComments = async (entryId: string): Promise<EntryComment[]> => {
+    const { data, error } = await client
+      .from("entry_comment_details")
+      .select("*")
+      .eq("entry_id", entryId)
+      .order("created_at", { ascending: true });
+
+    if (error) throw error;
+    return (data || []) as EntryComment[];
+  };
+
+  const createComment = async (
+    userId: string,
+    input: { entryId: string; body: string; parentId: string | null },
+  ): Promise<void> => {
+    const { error } = await client
+      .from("entry_comments")
+      .insert({
+        user_id: userId,
+        entry_id: input.entryId,
+        parent_id: input.parentId,
+        body: input.body,
+      });
+
+    if (error) throw error;
+  };
+
+  // 返信もDB側でまとめて削除される
+  const deleteComment = async (id: string): Promise<void> => {
+    const { error } = await client
+      .from("entry_comments")
+      .delete()
+      .eq("id", id);
+
+    if (error) throw error;
+  };
+
+  // 保存した検索（ピン留めのみの指定も可、作成順）
+  const listSavedSearches = async (
+    userId: string,
+    options: { pinnedOnly?: boolean } = {},
+  ): Promise<SavedSearch[]> => {
+    let query = client
+      .from("saved_searches")
+      .select("*")
+      .eq("user_id", userId);
+
+    if (options.pinnedOnly) {
+      query = query.eq("pinned", true);
+    }
+
+    const { data, error } = await query.order("created_at", { ascending: true });
+    if (error) throw error;
+    return (data || []) as SavedSearch[];
+  };
+
+  const createSavedSearch = async (
+    userId: string,
+    input: SavedSearchInput,
+  ): Promise<SavedSearch> => {
+    const { data, error } = await client
+      .from("saved_searches")
+      .insert({ user_id: userId, ...input })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data as SavedSearch;
+  };
+
+  const updateSavedSearch = async (
+    id: string,
+    input: Partial<SavedSearchInput>,
+  ): Promise<SavedSearch> => {
+    const { data, error } = await client
+      .from("saved_searches")
+      .update(input)
+      .eq("id", id)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data as SavedSearch;
+  };
+
+  const deleteSavedSearch = async (id: string): Promise<void> => {
+    const { error } = await client
+      .from("saved_searches")
+      .delete()
+      .eq("id", id);
+
+    if (error) throw error;
+  };
+
+  return {
+    listEntries,
+    searchEntries,
+    listMatchingEntries,
+    listTasteSamples,
+    listEntryKeys,
+    listPreferenceSamples,
+    countEntries,
+    getEntryFilterOptions,
+    getEntry,
+    createEntry,
+    importEntries,
+    updateEntry,
+    deleteEntry,
+    setCommentsEnabled,
+    listEntriesByBean,
+    listEntriesByShop,
+    listBeans,
+    listBeanStock,
+    getBeanStock,
+    getBean,
+    createBean,
+    updateBean,
+    deleteBean,
+    listShops,
+    getShop,
+    createShop,
+    updateShop,
+    deleteShop,
+    mergeShops,
+    listSavedSearches,
+    createSavedSearch,
+    updateSavedSearch,
+    deleteSavedSearch,
+    listCuppingSessions,
+    getCuppingSession,
+    listCuppingSamples,
+    createCuppingSession,
+    deleteCuppingSession,
+    getProfile,
+    saveProfile,
+    getProfileByUsername,
+    getPublicEntryStats,
+    listPublicEntries,
+    getFollowCounts,
+    isFollowing,
+    follow,
+    unfollow,
+    isBlocking,
+    block,
+    unblock,
+    listTimeline,
+    getReactionCounts,
+    isLiked,
+    like,
+    unlike,
+    listComments,
+    createComment,
+    deleteComment,
+  };
+}
+
+export type Repository = ReturnType<typeof createRepository>;
+
+// アプリ全体で使う既定のリポジトリ
+export const repository = createRepository(supabase);
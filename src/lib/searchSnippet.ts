@@ -0,0 +1,74 @@
+// キーワード検索の結果に表示するスニペット（一致した箇所の前後）とハイライト
+import type { CoffeeEntry } from "@/lib/types";
+
+export interface SnippetPart {
+  text: string;
+  match: boolean;
+  // 元の文字列での開始位置（表示時のキーに使う）
+  start: number;
+}
+
+export interface SearchSnippet {
+  // どの項目に一致したか
+  label: string;
+  parts: SnippetPart[];
+}
+
+// 一致箇所の前後に表示する文字数
+const SNIPPET_RADIUS = 30;
+
+// 検索語を空白（全角含む）で分割
+export function splitSearchTerms(query: string): string[] {
+  return query.trim().split(/\s+/).filter(Boolean);
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// 文字列を検索語に一致する部分とそれ以外に分ける（大文字・小文字は区別しない）
+export function highlightTerms(text: string, terms: string[]): SnippetPart[] {
+  if (terms.length === 0) return [{ text, match: false, start: 0 }];
+
+  const pattern = new RegExp(`(${terms.map(escapeRegExp).join("|")})`, "gi");
+  const lowerTerms = terms.map(term => term.toLowerCase());
+  const parts: SnippetPart[] = [];
+  let start = 0;
+  for (const part of text.split(pattern)) {
+    if (part === "") continue;
+    parts.push({ text: part, match: lowerTerms.includes(part.toLowerCase()), start });
+    start += part.length;
+  }
+  return parts;
+}
+
+// 豆名・産地以外で一致した項目から、一致箇所の前後を切り出す（一致がなければ null）
+export function buildSnippet(entry: CoffeeEntry, query: string): SearchSnippet | null {
+  const terms = splitSearchTerms(query);
+  if (terms.length === 0) return null;
+
+  const fields: [string, string | null][] = [
+    ["メモ", entry.memo],
+    ["フレーバー", entry.flavor_notes?.join("、") ?? null],
+    ["カフェ/購入店", entry.shop],
+    ["抽出方法", entry.brew_method],
+    ["挽き具合", entry.grind_size],
+  ];
+
+  for (const [label, value] of fields) {
+    if (!value) continue;
+
+    const lower = value.toLowerCase();
+    const index = Math.min(
+      ...terms.map(term => lower.indexOf(term.toLowerCase())).filter(i => i >= 0)
+    );
+    if (!Number.isFinite(index)) continue;
+
+    const start = Math.max(0, index - SNIPPET_RADIUS);
+    const end = Math.min(value.length, index + SNIPPET_RADIUS * 2);
+    const excerpt = `${start > 0 ? "…" : ""}${value.slice(start, end).replace(/\s+/g, " ")}${end < value.length ? "…" : ""}`;
+    return { label, parts: highlightTerms(excerpt, terms) };
+  }
+
+  return null;
+}
@@ -0,0 +1,60 @@
+// 味わい（酸味・甘味・苦味・コク）の平均と、産地・焙煎度などのグループごとの比較
+import { TASTE_AXES, type TasteAxis } from "@/lib/constants";
+import type { CoffeeEntry, TasteSample } from "@/lib/types";
+
+export type TasteProfile = Record<TasteAxis, number>;
+
+// グループ分けに使える項目
+export type TasteGroupKey = "bean_origin" | "roast_level" | "brew_method";
+
+export const TASTE_GROUP_LABELS: Record<TasteGroupKey, string> = {
+  bean_origin: "産地",
+  roast_level: "焙煎度",
+  brew_method: "抽出方法",
+};
+
+export interface TasteGroup {
+  name: string;
+  count: number;
+  profile: TasteProfile;
+}
+
+// 味わいを TASTE_AXES の順の配列にする（グラフ用）
+export function tasteValues(profile: TasteProfile): number[] {
+  return TASTE_AXES.map(({ key }) => profile[key]);
+}
+
+// 味わいの平均（記録がなければ null）
+export function averageTaste(samples: Pick<CoffeeEntry, TasteAxis>[]): TasteProfile | null {
+  if (samples.length === 0) return null;
+
+  const average = (axis: TasteAxis) =>
+    samples.reduce((total, sample) => total + (sample[axis] || 0), 0) / samples.length;
+  return {
+    sourness: average("sourness"),
+    sweetness: average("sweetness"),
+    bitterness: average("bitterness"),
+    richness: average("richness"),
+  };
+}
+
+// 指定した項目の値ごとに平均を出す（未入力の記録は除く、件数の多い順）
+export function groupTaste(samples: TasteSample[], key: TasteGroupKey): TasteGroup[] {
+  const groups: Record<string, TasteSample[]> = {};
+  for (const sample of samples) {
+    const name = sample[key];
+    if (!name) continue;
+    if (!groups[name]) {
+      groups[name] = [];
+    }
+    groups[name].push(sample);
+  }
+
+  return Object.entries(groups)
+    .map(([name, members]) => ({
+      name,
+      count: members.length,
+      profile: averageTaste(members) as TasteProfile,
+    }))
+    .sort((a, b) => b.count - a.count);
+}
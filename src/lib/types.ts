@@ -0,0 +1,254 @@
+// データベースのテーブル定義（database_setup.sql）に対応する型
+import type { EntryVisibility } from "@/lib/constants";
+
+// 注湯ステップ（開始からの経過秒数と、そのステップ終了時点の累計湯量）
+export interface PourStep {
+  label: string;
+  at_sec: number;
+  water_g: number | null;
+}
+
+// SCA 方式のカッピングの採点
+// 各項目は 6〜10 点（0.25 刻み）、ユニフォミティ・クリーンカップ・スウィートネスは 5 カップ × 2 点
+export interface CuppingScores {
+  fragrance_aroma: number;
+  flavor: number;
+  aftertaste: number;
+  acidity: number;
+  body: number;
+  balance: number;
+  uniformity: number;
+  clean_cup: number;
+  sweetness: number;
+  overall: number;
+  // 欠点のあったカップ数（テイント -2 点、フォルト -4 点 / カップ）
+  taint_cups: number;
+  fault_cups: number;
+}
+
+// coffee_entries テーブルの1行
+export interface CoffeeEntry {
+  id: string;
+  user_id: string;
+  // 在庫の豆から選んだ場合の紐付け（豆の情報は下の各列にも複製して保存する）
+  bean_id: string | null;
+  bean_name: string;
+  bean_origin: string | null;
+  roast_level: string | null;
+  // お店で飲んだ場合のお店（店名は shop にも複製して保存する。自分で淹れた場合の shop は購入店）
+  shop_id: string | null;
+  shop: string | null;
+  brew_method: string | null;
+  made_by_user: boolean;
+  grind_size: string | null;
+  sourness: number;
+  sweetness: number;
+  bitterness: number;
+  richness: number;
+  flavor_notes: string[] | null;
+  rating: number;
+  memo: string | null;
+  photos: string[] | null;
+  // 抽出レシピ（自分で淹れた場合のみ）
+  dose_g: number | null;
+  water_g: number | null;
+  water_temp_c: number | null;
+  brew_time_sec: number | null;
+  bloom_time_sec: number | null;
+  pour_steps: PourStep[] | null;
+  // 湯量 ÷ 豆量（DBで自動計算）
+  brew_ratio: number | null;
+  // カッピングセッションで採点したサンプルの場合のみ
+  cupping_session_id: string | null;
+  cupping_scores: CuppingScores | null;
+  // 採点の合計から欠点を引いた点数（DBで自動計算）
+  cupping_total: number | null;
+  // 公開範囲（公開の記録はプロフィールを公開している場合のみ他のユーザーに見える）
+  visibility: EntryVisibility;
+  // ほかのユーザーからのコメントを受け付ける（詳細画面で持ち主が切り替える）
+  comments_enabled: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+// 記録の作成・更新時に渡す値（id や所有者、タイムスタンプ、自動計算列は除く）
+// カッピングの列はセッションの保存時にだけ設定する（コメントの受付は setCommentsEnabled で切り替える）
+export type CoffeeEntryInput = Omit<
+  CoffeeEntry,
+  | "id"
+  | "user_id"
+  | "created_at"
+  | "updated_at"
+  | "brew_ratio"
+  | "cupping_session_id"
+  | "cupping_scores"
+  | "cupping_total"
+  | "comments_enabled"
+>;
+
+// 味わいの平均を出すのに必要な列だけの記録
+export type TasteSample = Pick<
+  CoffeeEntry,
+  "id" | "sourness" | "sweetness" | "bitterness" | "richness" | "bean_origin" | "roast_level" | "brew_method"
+>;
+
+// インポート時の重複判定に使う列だけの記録
+export type EntryKey = Pick<CoffeeEntry, "bean_name" | "created_at">;
+
+// 好みの推定に使う列だけの記録
+export type PreferenceSample = Pick<
+  CoffeeEntry,
+  "sourness" | "sweetness" | "bitterness" | "richness" | "bean_origin" | "roast_level" | "flavor_notes" | "rating"
+>;
+
+// beans テーブルの1行（購入した豆・袋）
+export interface Bean {
+  id: string;
+  user_id: string;
+  name: string;
+  roaster: string | null;
+  origin: string | null;
+  process: string | null;
+  variety: string | null;
+  altitude: string | null;
+  roast_level: string | null;
+  // 日付は YYYY-MM-DD
+  roast_date: string | null;
+  purchase_date: string | null;
+  price: number | null;
+  bag_weight_g: number | null;
+  // 使い切ったら true（残量アラートの対象外）
+  finished: boolean;
+  // まだ購入していない欲しい豆なら true（在庫には含めず、おすすめの対象にする）
+  wishlist: boolean;
+  // ロースターの説明などにあるフレーバー
+  flavor_notes: string[] | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type BeanInput = Omit<Bean, "id" | "user_id" | "finished" | "created_at" | "updated_at">;
+
+// bean_stock ビューの1行（記録の豆の量から計算した使用量・残量）
+export interface BeanStock extends Bean {
+  used_g: number;
+  // 内容量が未入力なら null
+  remaining_g: number | null;
+  cup_count: number;
+}
+
+// cupping_sessions テーブルの1行（複数のサンプルを同じ場で採点したカッピング）
+export interface CuppingSession {
+  id: string;
+  user_id: string;
+  name: string;
+  // YYYY-MM-DD
+  held_on: string;
+  notes: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type CuppingSessionInput = Pick<CuppingSession, "name" | "held_on" | "notes">;
+
+// shops テーブルの1行（カフェ・コーヒーショップ）
+export interface Shop {
+  id: string;
+  user_id: string;
+  name: string;
+  address: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  // 営業時間・定休日などのメモ
+  opening_notes: string | null;
+  // お店自体の評価（1〜5、未評価なら null）
+  rating: number | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type ShopInput = Omit<Shop, "id" | "user_id" | "created_at" | "updated_at">;
+
+// shop_stats ビューの1行（お店で飲んだ記録から集計した訪問回数と平均評価）
+export interface ShopStats extends Shop {
+  visit_count: number;
+  // 訪問がなければ null
+  avg_rating: number | null;
+  last_visited_at: string | null;
+}
+
+// saved_searches テーブルの1行（記録一覧の絞り込み条件に名前を付けて保存したもの）
+export interface SavedSearch {
+  id: string;
+  user_id: string;
+  name: string;
+  // /entries のクエリ文字列（先頭の ? は含まない）
+  query: string;
+  // ヘッダーに表示する
+  pinned: boolean;
+  created_at: string;
+}
+
+export type SavedSearchInput = Pick<SavedSearch, "name" | "query" | "pinned">;
+
+// users テーブルの1行（プロフィール）
+export interface UserProfile {
+  id: string;
+  username: string | null;
+  nickname: string;
+  bio: string | null;
+  favorite_types: string[] | null;
+  avatar_url: string | null;
+  // /u/<username> でプロフィールと公開の記録を見られるようにする（username が必要）
+  is_public: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+// プロフィール保存時に渡す値
+export type UserProfileInput = Pick<UserProfile, "id" | "nickname"> &
+  Partial<Pick<UserProfile, "username" | "bio" | "favorite_types" | "avatar_url" | "is_public">>;
+
+// public_entry_stats ビューの1行（公開プロフィールに表示する、公開の記録の集計）
+export interface PublicEntryStats {
+  user_id: string;
+  entry_count: number;
+  avg_rating: number | null;
+  top_origin: string | null;
+  top_brew_method: string | null;
+  last_entry_at: string | null;
+}
+
+// フォロー数（フォローされている数とフォローしている数）
+export interface FollowCounts {
+  followers: number;
+  following: number;
+}
+
+// timeline_entries ビューの1行（フォローしているユーザーの記録と投稿者）
+export interface TimelineEntry extends CoffeeEntry {
+  follower_id: string;
+  author_nickname: string;
+  author_username: string | null;
+  author_avatar_url: string | null;
+}
+
+// entry_comments テーブルの1行（parent_id があれば返信）と書いた人
+export interface EntryComment {
+  id: string;
+  entry_id: string;
+  user_id: string;
+  parent_id: string | null;
+  body: string;
+  created_at: string;
+  author_nickname: string | null;
+  // 公開プロフィールがある場合のみ
+  author_username: string | null;
+  author_avatar_url: string | null;
+}
+
+// entry_reaction_counts ビューの1行
+export interface ReactionCounts {
+  like_count: number;
+  comment_count: number;
+}